@@ -0,0 +1,277 @@
+import type { City, GameState, Position, Tile } from '../types/game';
+import { BuildingType, GOVERNMENTS, GovernmentType, ImprovementType, TerrainType, UnitType } from '../types/game';
+import {
+  TECHNOLOGY_DEFINITIONS, TechnologyType, canResearch, getPrerequisites, getResearchCost,
+  getUnlockedBuildings, getUnlockedUnits
+} from './TechnologyDefinitions';
+import { getUnitStats } from './UnitDefinitions';
+import { CityEconomy } from './CityEconomy';
+import { DiplomacySystem } from './DiplomacySystem';
+import { PathFinder } from './PathFinder';
+import { VisibilitySystem } from './VisibilitySystem';
+import type { AIPersonalityWeights } from './AIPlayer';
+
+// What a computer player is working towards this turn
+export const AIGoal = {
+  EXPAND: 'expand',
+  DEFEND: 'defend',
+  BUILD_INFRASTRUCTURE: 'build_infrastructure',
+  CONQUER: 'conquer'
+} as const;
+
+export type AIGoal = typeof AIGoal[keyof typeof AIGoal];
+
+export interface AIPlan {
+  goal: AIGoal;
+  research?: TechnologyType; // Researchable technology on the way to the top priority
+  government?: GovernmentType; // Best government the player can adopt
+}
+
+export interface AIImprovementSite {
+  position: Position;
+  improvement: ImprovementType;
+}
+
+// Improvements settlers build around cities
+const WORKER_IMPROVEMENTS: ImprovementType[] = [ImprovementType.IRRIGATION, ImprovementType.MINE, ImprovementType.ROAD];
+
+/**
+ * Strategic planning for computer players: the goal for the turn, what to research,
+ * which government to aim for and where settlers should improve terrain
+ */
+export class AIPlanner {
+  // Cities a normal leader founds before turning to infrastructure, scaled by the expansion weight
+  public static readonly BASE_CITY_TARGET = 6;
+
+  // Rival cities this close to one of ours make a neighbour worth fighting
+  public static readonly NEIGHBOUR_DISTANCE = 12;
+
+  // Enemy units this close to one of our cities threaten it
+  private static readonly THREAT_DISTANCE = 4;
+
+  // Garrison a threatened city wants before the player stops defending
+  private static readonly THREATENED_GARRISON = 2;
+
+  /**
+   * Make a player's plan for the turn
+   */
+  public static createPlan(gameState: GameState, playerId: string, weights: AIPersonalityWeights): AIPlan {
+    const goal = this.chooseGoal(gameState, playerId, weights);
+    return {
+      goal,
+      research: this.chooseResearch(gameState, playerId, goal, weights),
+      government: this.chooseGovernment(gameState, playerId, weights)
+    };
+  }
+
+  /**
+   * Choose the goal for the turn: defend threatened cities first, then conquer a weaker
+   * enemy whose cities we know, expand until the personality's city target, otherwise build up
+   */
+  public static chooseGoal(gameState: GameState, playerId: string, weights: AIPersonalityWeights): AIGoal {
+    const cities = gameState.cities.filter(c => c.playerId === playerId);
+    if (cities.length === 0) return AIGoal.EXPAND;
+
+    if (this.getThreatenedCities(gameState, playerId).length > 0) return AIGoal.DEFEND;
+
+    const strength = DiplomacySystem.getMilitaryStrength(gameState, playerId);
+    const canConquer = gameState.players.some(rival =>
+      rival.id !== playerId && !rival.eliminated &&
+      DiplomacySystem.isAtWar(gameState, playerId, rival.id) &&
+      (this.isNeighbour(gameState, playerId, rival.id) || this.hasSeenCityOf(gameState, playerId, rival.id)) &&
+      strength / Math.max(1, DiplomacySystem.getMilitaryStrength(gameState, rival.id)) >= weights.warStrengthRatio
+    );
+    if (canConquer) return AIGoal.CONQUER;
+
+    if (cities.length < Math.round(this.BASE_CITY_TARGET * weights.expansion)) return AIGoal.EXPAND;
+
+    return AIGoal.BUILD_INFRASTRUCTURE;
+  }
+
+  /**
+   * Check whether a rival has a city within striking distance of one of ours
+   */
+  public static isNeighbour(gameState: GameState, playerId: string, rivalId: string): boolean {
+    const ourCities = gameState.cities.filter(c => c.playerId === playerId);
+    return gameState.cities.some(c => c.playerId === rivalId &&
+      ourCities.some(ours => PathFinder.getDistance(gameState, ours.position, c.position) <= this.NEIGHBOUR_DISTANCE)
+    );
+  }
+
+  /**
+   * Get our cities with visible enemy military nearby and too small a garrison
+   */
+  public static getThreatenedCities(gameState: GameState, playerId: string): City[] {
+    const visibleTiles = VisibilitySystem.getVisibleTiles(gameState, playerId);
+    const enemies = gameState.units.filter(unit =>
+      getUnitStats(unit.type).canAttack &&
+      DiplomacySystem.isAtWar(gameState, playerId, unit.playerId) &&
+      visibleTiles.has(VisibilitySystem.getTileKey(unit.position.x, unit.position.y))
+    );
+
+    return gameState.cities.filter(city => {
+      if (city.playerId !== playerId) return false;
+      const threatened = enemies.some(enemy =>
+        PathFinder.getDistance(gameState, enemy.position, city.position) <= this.THREAT_DISTANCE
+      );
+      const garrison = gameState.units.filter(unit =>
+        unit.playerId === playerId && getUnitStats(unit.type).canAttack &&
+        unit.position.x === city.position.x && unit.position.y === city.position.y
+      ).length;
+      return threatened && garrison < this.THREATENED_GARRISON;
+    });
+  }
+
+  /**
+   * Rank every technology the player lacks by what it unlocks for the goal,
+   * against the science still needed to reach it
+   */
+  public static getResearchPriorities(gameState: GameState, playerId: string, goal: AIGoal, weights: AIPersonalityWeights): TechnologyType[] {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player) return [];
+
+    const known = player.technologies;
+    const scores = new Map<TechnologyType, number>();
+    (Object.keys(TECHNOLOGY_DEFINITIONS) as TechnologyType[])
+      .filter(tech => !known.includes(tech))
+      .forEach(tech => {
+        const cost = [...this.getMissingTechnologies(tech, known)].reduce((total, t) => total + getResearchCost(t), 0);
+        scores.set(tech, this.getTechnologyValue(tech, goal, weights) / Math.max(1, cost));
+      });
+
+    return [...scores.keys()].sort((a, b) => scores.get(b)! - scores.get(a)!);
+  }
+
+  /**
+   * Choose what to research next: the cheapest researchable step towards the top priority
+   */
+  public static chooseResearch(gameState: GameState, playerId: string, goal: AIGoal, weights: AIPersonalityWeights): TechnologyType | undefined {
+    const player = gameState.players.find(p => p.id === playerId);
+    const [target] = this.getResearchPriorities(gameState, playerId, goal, weights);
+    if (!player || !target) return undefined;
+
+    return [...this.getMissingTechnologies(target, player.technologies)]
+      .filter(tech => canResearch(tech, player.technologies))
+      .reduce<TechnologyType | undefined>((best, tech) =>
+        !best || getResearchCost(tech) < getResearchCost(best) ? tech : best, undefined);
+  }
+
+  /**
+   * Choose the government the personality prefers among those the player can adopt
+   */
+  public static chooseGovernment(gameState: GameState, playerId: string, weights: AIPersonalityWeights): GovernmentType | undefined {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player) return undefined;
+
+    return weights.governmentPreferences.find(government => {
+      const required = GOVERNMENTS[government].requiredTechnology;
+      return !required || player.technologies.includes(required);
+    });
+  }
+
+  /**
+   * Find the most valuable tile around the player's cities for a settler to improve,
+   * weighed against how far the settler has to walk
+   */
+  public static findImprovementSite(gameState: GameState, playerId: string, from: Position): AIImprovementSite | null {
+    let best: AIImprovementSite | null = null;
+    let bestScore = 0;
+
+    gameState.cities.filter(c => c.playerId === playerId).forEach(city => {
+      CityEconomy.getCityRadius().forEach(({ dx, dy }) => {
+        const tile = CityEconomy.getTileAt(gameState, city, dx, dy);
+        if (!tile || this.isOccupiedByOthers(gameState, tile.position, playerId, from)) return;
+
+        WORKER_IMPROVEMENTS.forEach(improvement => {
+          const gain = this.getImprovementGain(gameState, tile, improvement, playerId);
+          const score = gain / (1 + PathFinder.getDistance(gameState, from, tile.position));
+          if (gain > 0 && score > bestScore) {
+            best = { position: tile.position, improvement };
+            bestScore = score;
+          }
+        });
+      });
+    });
+
+    return best;
+  }
+
+  /**
+   * Get the value an improvement would add to a tile's yields, or 0 if it cannot be built there
+   */
+  public static getImprovementGain(gameState: GameState, tile: Tile, improvement: ImprovementType, playerId: string): number {
+    if (tile.improvements?.some(imp => imp.type === improvement)) return 0;
+    if (improvement === ImprovementType.IRRIGATION && !this.hasWaterAccess(gameState, tile.position)) return 0;
+    // Irrigating a mined tile (or mining an irrigated one) would waste the first improvement
+    if (tile.improvements?.some(imp => imp.type === ImprovementType.IRRIGATION || imp.type === ImprovementType.MINE) &&
+      improvement !== ImprovementType.ROAD) return 0;
+
+    const before = CityEconomy.getTileYields(gameState, tile, playerId);
+    const after = CityEconomy.getTileYields(gameState, {
+      ...tile,
+      improvements: [...(tile.improvements || []), { type: improvement, completedTurn: gameState.turn }]
+    }, playerId);
+    // Food and shields grow a city faster than trade
+    return (after.food - before.food) * 2 + (after.production - before.production) * 2 + (after.trade - before.trade);
+  }
+
+  // Whether the player has explored the tile of any of the rival's cities
+  private static hasSeenCityOf(gameState: GameState, playerId: string, rivalId: string): boolean {
+    const player = gameState.players.find(p => p.id === playerId);
+    return !!player && gameState.cities.some(c =>
+      c.playerId === rivalId && VisibilitySystem.isExplored(player, c.position.x, c.position.y)
+    );
+  }
+
+  // Value of what a technology unlocks towards the goal
+  private static getTechnologyValue(tech: TechnologyType, goal: AIGoal, weights: AIPersonalityWeights): number {
+    let value = 1;
+
+    getUnlockedUnits(tech).forEach(unitType => {
+      const stats = getUnitStats(unitType as UnitType);
+      if (!stats) return;
+      if (goal === AIGoal.CONQUER) value += stats.attack;
+      else if (goal === AIGoal.DEFEND) value += stats.defense;
+      else value += (stats.attack + stats.defense) / 4;
+    });
+
+    getUnlockedBuildings(tech).forEach(building => {
+      const wanted = weights.buildingPriorities.includes(building as BuildingType) ||
+        weights.militaryBuildings.includes(building as BuildingType);
+      value += wanted ? (goal === AIGoal.BUILD_INFRASTRUCTURE ? 4 : 2) : 1;
+    });
+
+    weights.governmentPreferences.forEach(government => {
+      if (GOVERNMENTS[government].requiredTechnology === tech) value += 6;
+    });
+
+    return value;
+  }
+
+  // A technology and every prerequisite the player still lacks
+  private static getMissingTechnologies(tech: TechnologyType, known: TechnologyType[], missing = new Set<TechnologyType>()): Set<TechnologyType> {
+    if (known.includes(tech) || missing.has(tech)) return missing;
+    missing.add(tech);
+    getPrerequisites(tech).forEach(prerequisite => this.getMissingTechnologies(prerequisite, known, missing));
+    return missing;
+  }
+
+  // Irrigation needs a river, ocean or irrigated tile orthogonally adjacent
+  private static hasWaterAccess(gameState: GameState, position: Position): boolean {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    return [{ dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }].some(({ dx, dy }) => {
+      const x = ((position.x + dx) % mapWidth + mapWidth) % mapWidth;
+      const tile = gameState.worldMap[position.y + dy]?.[x];
+      return !!tile && (tile.terrain === TerrainType.RIVER || tile.terrain === TerrainType.OCEAN ||
+        !!tile.improvements?.some(imp => imp.type === ImprovementType.IRRIGATION));
+    });
+  }
+
+  // Tiles held by other players, or already being worked by another of our settlers
+  private static isOccupiedByOthers(gameState: GameState, position: Position, playerId: string, from: Position): boolean {
+    const isHere = (p: Position) => p.x === position.x && p.y === position.y;
+    if (isHere(from)) return false;
+    return gameState.units.some(u => isHere(u.position) && (u.playerId !== playerId || u.type === UnitType.SETTLERS)) ||
+      gameState.cities.some(c => isHere(c.position) && c.playerId !== playerId);
+  }
+}
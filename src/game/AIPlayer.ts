@@ -1,29 +1,164 @@
-import { GameState, Unit, City, Position, UnitType, TerrainType, Player } from '../types/game';
+import { GameState, Unit, City, Position, UnitType, UnitCategory, TerrainType, Player, BuildingType, GovernmentType, ImprovementType, AICampaign } from '../types/game';
 import { getUnitStats } from './UnitDefinitions';
 import { TerrainManager } from '../terrain/index';
-import { getCivilization } from './CivilizationDefinitions';
+import { getCivilization, AggressionTrait, DevelopmentTrait, MilitarismTrait } from './CivilizationDefinitions';
+import { getAvailableBuildings } from './BuildingDefinitions';
+import { ProductionManager } from './ProductionManager';
+import { DiplomacySystem } from './DiplomacySystem';
 import { CityGrowthSystem } from './CityGrowthSystem';
+import { VisibilitySystem } from './VisibilitySystem';
+import { PathFinder } from './PathFinder';
+import { TradeRouteSystem } from './TradeRouteSystem';
+import { TransportSystem } from './TransportSystem';
+import { WONDER_DEFINITIONS, getAvailableWonders } from './WonderDefinitions';
+import { AIGoal, AIPlanner } from './AIPlanner';
+import type { AIPlan } from './AIPlanner';
+import { AIWarPlanner } from './AIWarPlanner';
+import type { Game } from './Game';
+
+/**
+ * Game actions a computer player takes through the same rules as a human
+ */
+export type AIGameActions = Pick<Game, 'moveUnit' | 'startRevolution' | 'changeGovernment' | 'buildRoad' | 'buildIrrigation' | 'buildMine'>;
+
+/**
+ * How a civilization's personality traits steer the computer player
+ */
+export interface AIPersonalityWeights {
+  expansion: number; // Scales the number of settlers wanted
+  wonderCitySize: number; // Smallest city that starts a wonder
+  buildingPriorities: BuildingType[]; // City improvements in order of preference
+  militaryPerCity: number; // Military units wanted per city
+  preferredUnits: UnitType[]; // Military units in order of preference
+  militaryBuildings: BuildingType[]; // Improvements built before the development priorities
+  attackRange: number; // How far military units go after enemies
+  warChance: number; // Chance each turn to declare war on a weaker neighbour
+  warStrengthRatio: number; // Military advantage wanted before declaring war
+  governmentPreferences: GovernmentType[]; // Governments in order of preference
+}
+
+const DEVELOPMENT_WEIGHTS: Record<DevelopmentTrait, Pick<AIPersonalityWeights, 'expansion' | 'wonderCitySize' | 'buildingPriorities'>> = {
+  [DevelopmentTrait.PERFECTIONIST]: {
+    expansion: 0.6,
+    wonderCitySize: 2,
+    buildingPriorities: [
+      BuildingType.TEMPLE, BuildingType.LIBRARY, BuildingType.GRANARY, BuildingType.MARKETPLACE,
+      BuildingType.AQUEDUCT, BuildingType.COURTHOUSE, BuildingType.UNIVERSITY, BuildingType.COLOSSEUM,
+      BuildingType.BANK, BuildingType.CATHEDRAL
+    ]
+  },
+  [DevelopmentTrait.NORMAL]: {
+    expansion: 1,
+    wonderCitySize: 3,
+    buildingPriorities: [
+      BuildingType.GRANARY, BuildingType.TEMPLE, BuildingType.LIBRARY, BuildingType.MARKETPLACE,
+      BuildingType.COURTHOUSE, BuildingType.AQUEDUCT, BuildingType.UNIVERSITY, BuildingType.BANK
+    ]
+  },
+  [DevelopmentTrait.EXPANSIONISTIC]: {
+    expansion: 1.5,
+    wonderCitySize: 5,
+    buildingPriorities: [
+      BuildingType.GRANARY, BuildingType.TEMPLE, BuildingType.MARKETPLACE, BuildingType.COURTHOUSE,
+      BuildingType.LIBRARY, BuildingType.AQUEDUCT
+    ]
+  }
+};
+
+const MILITARISM_WEIGHTS: Record<MilitarismTrait, Pick<AIPersonalityWeights, 'militaryPerCity' | 'preferredUnits' | 'militaryBuildings'>> = {
+  [MilitarismTrait.CIVILIZED]: {
+    militaryPerCity: 1,
+    preferredUnits: [UnitType.PHALANX, UnitType.WARRIOR],
+    militaryBuildings: []
+  },
+  [MilitarismTrait.NORMAL]: {
+    militaryPerCity: 1.5,
+    preferredUnits: [UnitType.PHALANX, UnitType.LEGION, UnitType.WARRIOR],
+    militaryBuildings: []
+  },
+  [MilitarismTrait.MILITARISTIC]: {
+    militaryPerCity: 2,
+    preferredUnits: [UnitType.LEGION, UnitType.PHALANX, UnitType.WARRIOR],
+    militaryBuildings: [BuildingType.BARRACKS, BuildingType.CITY_WALLS]
+  }
+};
+
+// Aggressive leaders avoid governments whose senate would hold back their wars
+const AGGRESSION_WEIGHTS: Record<AggressionTrait, Pick<AIPersonalityWeights, 'attackRange' | 'warChance' | 'warStrengthRatio' | 'governmentPreferences'>> = {
+  [AggressionTrait.FRIENDLY]: {
+    attackRange: 2, warChance: 0, warStrengthRatio: Infinity,
+    governmentPreferences: [GovernmentType.DEMOCRACY, GovernmentType.REPUBLIC, GovernmentType.MONARCHY, GovernmentType.DESPOTISM]
+  },
+  [AggressionTrait.NORMAL]: {
+    attackRange: 3, warChance: 0.02, warStrengthRatio: 2,
+    governmentPreferences: [GovernmentType.REPUBLIC, GovernmentType.MONARCHY, GovernmentType.DESPOTISM]
+  },
+  [AggressionTrait.AGGRESSIVE]: {
+    attackRange: 5, warChance: 0.1, warStrengthRatio: 1.25,
+    governmentPreferences: [GovernmentType.COMMUNISM, GovernmentType.MONARCHY, GovernmentType.DESPOTISM]
+  }
+};
 
 export class AIPlayer {
+
+  /**
+   * Get the weights a player's personality puts on expansion, building, the army and war
+   */
+  public static getPersonalityWeights(gameState: GameState, playerId: string): AIPersonalityWeights {
+    const player = gameState.players.find(p => p.id === playerId);
+    const personality = player ? getCivilization(player.civilizationType)?.personality : undefined;
+    return {
+      ...DEVELOPMENT_WEIGHTS[personality?.development || DevelopmentTrait.NORMAL],
+      ...MILITARISM_WEIGHTS[personality?.militarism || MilitarismTrait.NORMAL],
+      ...AGGRESSION_WEIGHTS[personality?.aggression || AggressionTrait.NORMAL]
+    };
+  }
   
   /**
-   * Execute a full AI turn for the given player
+   * Execute a full AI turn for the given player. Without game actions the AI
+   * neither changes government, improves terrain nor attacks.
    */
-  public static async executeTurn(gameState: GameState, playerId: string): Promise<void> {
+  public static async executeTurn(
+    gameState: GameState,
+    playerId: string,
+    random: () => number = Math.random,
+    actions?: AIGameActions
+  ): Promise<void> {
     console.log(`AI Player ${playerId} starting turn`);
     
+    // The AI only reasons over what it has seen
+    VisibilitySystem.updateVisibility(gameState, playerId);
+
+    // Aggressive leaders break treaties with weaker neighbours
+    this.considerWar(gameState, playerId, random);
+
+    // Decide what the turn is for, then research and government follow the plan
+    const plan = AIPlanner.createPlan(gameState, playerId, this.getPersonalityWeights(gameState, playerId));
+    this.followResearchPlan(gameState, playerId, plan);
+    if (actions) {
+      this.followGovernmentPlan(gameState, playerId, plan, actions);
+    }
+    
+    // The attack stack moves as one, the rest of the units on their own
+    const campaign = AIWarPlanner.updateCampaign(gameState, playerId, plan.goal === AIGoal.CONQUER);
+    if (campaign) {
+      this.conductCampaign(gameState, campaign, actions);
+    }
+    const campaignUnitIds = campaign ? [...campaign.unitIds, campaign.transportId] : [];
+    
     // Get all units for this AI player
-    const aiUnits = gameState.units.filter(unit => unit.playerId === playerId);
+    const aiUnits = gameState.units.filter(unit => unit.playerId === playerId && !campaignUnitIds.includes(unit.id));
     
-    // Process each unit with AI decision making
+    // Process each unit with AI decision making, skipping any lost in battle
     for (const unit of aiUnits) {
+      if (!gameState.units.includes(unit)) continue;
       if (unit.movementPoints > 0 && !unit.fortified && !unit.fortifying && !unit.sleeping) {
-        this.processAIUnit(unit, gameState);
+        this.processAIUnit(unit, gameState, plan, actions);
       }
     }
     
     // Process AI cities
-    this.processAICities(gameState, playerId);
+    this.processAICities(gameState, playerId, plan);
     
     console.log(`AI Player ${playerId} completed turn`);
   }
@@ -31,20 +166,21 @@ export class AIPlayer {
   /**
    * Process an individual AI unit
    */
-  private static processAIUnit(unit: Unit, gameState: GameState): void {
+  private static processAIUnit(unit: Unit, gameState: GameState, plan: AIPlan, actions?: AIGameActions): void {
     const unitStats = getUnitStats(unit.type);
     
     switch (unit.type) {
       case UnitType.SETTLERS:
+        // Once expansion is done settlers improve the land around our cities
+        if (actions && plan.goal !== AIGoal.EXPAND && this.handleWorkerAI(unit, gameState, actions)) break;
         this.handleSettlerAI(unit, gameState);
         break;
-      case UnitType.WARRIOR:
-      case UnitType.PHALANX:
-      case UnitType.LEGION:
-        this.handleMilitaryAI(unit, gameState);
-        break;
       default:
-        this.handleDefaultUnitAI(unit, gameState);
+        if (AIWarPlanner.isLandMilitary(unit)) {
+          this.handleMilitaryAI(unit, gameState, plan, actions);
+        } else {
+          this.handleDefaultUnitAI(unit, gameState);
+        }
         break;
     }
   }
@@ -67,7 +203,7 @@ export class AIPlayer {
     }
     
     // Look for good city founding locations
-    const bestLocation = this.findBestCityLocation(unit.position, gameState, isEarlyGame);
+    const bestLocation = this.findBestCityLocation(unit.position, unit.playerId, gameState, isEarlyGame);
     
     if (bestLocation) {
       if (this.isAtPosition(unit.position, bestLocation)) {
@@ -90,13 +226,70 @@ export class AIPlayer {
   }
   
   /**
-   * AI logic for military units - patrol and defend
+   * AI logic for settlers working terrain: walk to the best site around our cities and improve it.
+   * Returns false when there is nothing worth improving.
    */
-  private static handleMilitaryAI(unit: Unit, gameState: GameState): void {
-    // Look for enemy units to attack
+  private static handleWorkerAI(unit: Unit, gameState: GameState, actions: AIGameActions): boolean {
+    // A road under construction is finished before anything else
+    if (unit.buildingRoad) {
+      return actions.buildRoad(unit.id);
+    }
+
+    const site = AIPlanner.findImprovementSite(gameState, unit.playerId, unit.position);
+    if (!site) return false;
+
+    if (!this.isAtPosition(unit.position, site.position)) {
+      this.moveUnitTowards(unit, site.position, gameState);
+      if (!this.isAtPosition(unit.position, site.position)) return true;
+    }
+
+    switch (site.improvement) {
+      case ImprovementType.IRRIGATION:
+        return actions.buildIrrigation(unit.id);
+      case ImprovementType.MINE:
+        return actions.buildMine(unit.id);
+      default:
+        return actions.buildRoad(unit.id);
+    }
+  }
+
+  /**
+   * AI logic for military units - hold garrisons, patrol and defend
+   */
+  private static handleMilitaryAI(unit: Unit, gameState: GameState, plan: AIPlan, actions?: AIGameActions): void {
+    // Threatened cities pull in the nearest troops before anything else
+    if (plan.goal === AIGoal.DEFEND) {
+      const threatened = AIPlanner.getThreatenedCities(gameState, unit.playerId)
+        .sort((a, b) => this.getDistance(unit.position, a.position) - this.getDistance(unit.position, b.position));
+      if (threatened.some(city => this.isAtPosition(unit.position, city.position))) return;
+      if (threatened.length > 0) {
+        this.moveUnitTowards(unit, threatened[0].position, gameState);
+        return;
+      }
+    }
+
+    // Each city keeps the garrison its threat level calls for; spare units reinforce the others
+    const campaignUnitIds = gameState.aiCampaigns?.[unit.playerId]?.unitIds || [];
+    const ownCities = gameState.cities.filter(c => c.playerId === unit.playerId);
+    const cityHere = ownCities.find(c => this.isAtPosition(c.position, unit.position));
+    if (cityHere && AIWarPlanner.getGarrison(gameState, cityHere, campaignUnitIds).includes(unit)) return;
+    const undermanned = ownCities
+      .filter(c => AIWarPlanner.getGarrison(gameState, c, campaignUnitIds).length < AIWarPlanner.getGarrisonSize(gameState, c))
+      .sort((a, b) => this.getDistance(unit.position, a.position) - this.getDistance(unit.position, b.position))[0];
+    if (undermanned) {
+      this.moveUnitTowards(unit, undermanned.position, gameState);
+      return;
+    }
+
+    // Look for enemy units to attack; aggressive leaders range further
     const enemyTarget = this.findNearestEnemy(unit, gameState);
+    const { attackRange } = this.getPersonalityWeights(gameState, unit.playerId);
     
-    if (enemyTarget && this.getDistance(unit.position, enemyTarget.position) <= 3) {
+    if (enemyTarget && actions && PathFinder.getDistance(gameState, unit.position, enemyTarget.position) === 1 &&
+      getUnitStats(unit.type).attack >= getUnitStats(enemyTarget.type).defense) {
+      // Strike an adjacent enemy we can expect to beat
+      actions.moveUnit(unit.id, enemyTarget.position);
+    } else if (enemyTarget && this.getDistance(unit.position, enemyTarget.position) <= attackRange) {
       // Move towards enemy
       this.moveUnitTowards(unit, enemyTarget.position, gameState);
     } else {
@@ -121,29 +314,34 @@ export class AIPlayer {
   }
   
   /**
-   * Move a unit towards a target position
+   * Move a unit towards a target position along the cheapest path,
+   * stopping short of tiles held by other players or closed by zone of control
    */
   private static moveUnitTowards(unit: Unit, target: Position, gameState: GameState): void {
     if (unit.movementPoints <= 0) return;
     
-    const possibleMoves = this.getValidMoves(unit.position, gameState);
-    if (possibleMoves.length === 0) return;
-    
-    // Find the move that gets us closest to the target
-    let bestMove = possibleMoves[0];
-    let bestDistance = this.getDistance(bestMove, target);
+    const path = PathFinder.findPath(gameState, unit, target, { allowEnemyTarget: true, maxNodes: 1500 });
+    if (!path || path.length === 0) return;
     
-    for (const move of possibleMoves) {
-      const distance = this.getDistance(move, target);
-      if (distance < bestDistance) {
-        bestDistance = distance;
-        bestMove = move;
-      }
+    for (const step of path) {
+      if (unit.movementPoints <= 0 || this.isOccupiedByEnemy(step, unit.playerId, gameState)) break;
+      if (PathFinder.violatesZoneOfControl(gameState, unit, unit.position, step)) break;
+      
+      const cost = PathFinder.getStepCost(gameState, unit, unit.position, step);
+      unit.position = step;
+      unit.movementPoints = Math.max(0, unit.movementPoints - cost);
+      TransportSystem.moveCargo(gameState, unit);
     }
     
-    // Execute the move
-    unit.position = bestMove;
-    unit.movementPoints = Math.max(0, unit.movementPoints - 1);
+    VisibilitySystem.updateVisibility(gameState, unit.playerId);
+  }
+  
+  /**
+   * Check whether another player's unit or city holds a tile
+   */
+  private static isOccupiedByEnemy(position: Position, playerId: string, gameState: GameState): boolean {
+    return gameState.units.some(u => u.playerId !== playerId && this.isAtPosition(u.position, position)) ||
+      gameState.cities.some(c => c.playerId !== playerId && this.isAtPosition(c.position, position));
   }
   
   /**
@@ -152,13 +350,69 @@ export class AIPlayer {
   private static exploreRandomly(unit: Unit, gameState: GameState): void {
     if (unit.movementPoints <= 0) return;
     
-    const possibleMoves = this.getValidMoves(unit.position, gameState);
+    const possibleMoves = this.getExploreMoves(unit, gameState)
+      .filter(move => !PathFinder.violatesZoneOfControl(gameState, unit, unit.position, move));
     if (possibleMoves.length === 0) return;
     
-    // Choose a random valid move
-    const randomMove = possibleMoves[Math.floor(Math.random() * possibleMoves.length)];
+    // Prefer moves that reveal unexplored tiles, otherwise wander randomly
+    const player = gameState.players.find(p => p.id === unit.playerId);
+    const revealingMoves = player
+      ? possibleMoves.filter(move => this.countUnexploredNeighbors(move, player, gameState) > 0)
+      : [];
+    const candidates = revealingMoves.length > 0 ? revealingMoves : possibleMoves;
+    
+    const randomMove = candidates[Math.floor(Math.random() * candidates.length)];
     unit.position = randomMove;
     unit.movementPoints = Math.max(0, unit.movementPoints - 1);
+    TransportSystem.moveCargo(gameState, unit);
+    VisibilitySystem.updateVisibility(gameState, unit.playerId);
+  }
+  
+  /**
+   * Get the tiles next to a unit it may explore: ships keep to the sea, aircraft fly anywhere
+   * and land units stay ashore rather than boarding passing ships. Tiles held by other players
+   * are left alone.
+   */
+  private static getExploreMoves(unit: Unit, gameState: GameState): Position[] {
+    const isLandUnit = getUnitStats(unit.type).category === UnitCategory.LAND;
+    const moves: Position[] = [];
+
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const y = unit.position.y + dy;
+        if ((dx === 0 && dy === 0) || y < 0 || y >= gameState.worldMap.length) continue;
+
+        const move = this.wrapPosition({ x: unit.position.x + dx, y }, gameState);
+        if (isLandUnit && gameState.worldMap[move.y][move.x].terrain === TerrainType.OCEAN) continue;
+        if (PathFinder.canUnitEnterTerrain(gameState, unit, move) && !this.isOccupiedByEnemy(move, unit.playerId, gameState)) {
+          moves.push(move);
+        }
+      }
+    }
+
+    return moves;
+  }
+
+  /**
+   * Count tiles around a position that a player has never seen
+   */
+  private static countUnexploredNeighbors(position: Position, player: Player, gameState: GameState): number {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    const mapHeight = gameState.worldMap.length || 50;
+    let count = 0;
+    
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const y = position.y + dy;
+        if (y < 0 || y >= mapHeight) continue;
+        const x = ((position.x + dx) % mapWidth + mapWidth) % mapWidth;
+        if (!VisibilitySystem.isExplored(player, x, y)) {
+          count++;
+        }
+      }
+    }
+    
+    return count;
   }
   
   /**
@@ -180,13 +434,21 @@ export class AIPlayer {
       };
       
       if (this.isValidPosition(newPos, gameState)) {
-        moves.push(newPos);
+        moves.push(this.wrapPosition(newPos, gameState));
       }
     }
     
     return moves;
   }
   
+  /**
+   * Normalize a position with horizontal wrapping
+   */
+  private static wrapPosition(position: Position, gameState: GameState): Position {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    return { x: ((position.x % mapWidth) + mapWidth) % mapWidth, y: position.y };
+  }
+  
   /**
    * Check if a position is valid for movement
    */
@@ -214,17 +476,21 @@ export class AIPlayer {
   /**
    * Find the best location for founding a city
    */
-  private static findBestCityLocation(currentPos: Position, gameState: GameState, isEarlyGame: boolean = false): Position | null {
+  private static findBestCityLocation(currentPos: Position, playerId: string, gameState: GameState, isEarlyGame: boolean = false): Position | null {
     const searchRadius = isEarlyGame ? 2 : 5; // Much smaller search radius in early game
     let bestLocation: Position | null = null;
     let bestScore = isEarlyGame ? 1 : 3; // Much lower threshold in early game
+    const player = gameState.players.find(p => p.id === playerId);
     
     for (let dx = -searchRadius; dx <= searchRadius; dx++) {
       for (let dy = -searchRadius; dy <= searchRadius; dy++) {
-        const pos = {
+        const pos = this.wrapPosition({
           x: currentPos.x + dx,
           y: currentPos.y + dy
-        };
+        }, gameState);
+        
+        // Only consider sites the player has actually seen
+        if (player && !VisibilitySystem.isExplored(player, pos.x, pos.y)) continue;
         
         if (this.isValidCityLocation(pos, gameState)) {
           const score = this.evaluateCityLocation(pos, gameState);
@@ -413,6 +679,9 @@ export class AIPlayer {
     
     // Remove the settler
     gameState.units = gameState.units.filter(u => u.id !== settler.id);
+    
+    // The new city sees its surrounding work area
+    VisibilitySystem.updateVisibility(gameState, settler.playerId);
   }
   
   /**
@@ -422,8 +691,12 @@ export class AIPlayer {
     let nearestEnemy: Unit | null = null;
     let nearestDistance = Infinity;
     
+    // Only enemies currently in sight and at war with us can be targeted
+    const visibleTiles = VisibilitySystem.getVisibleTiles(gameState, unit.playerId);
+    
     for (const otherUnit of gameState.units) {
-      if (otherUnit.playerId !== unit.playerId) {
+      const key = VisibilitySystem.getTileKey(otherUnit.position.x, otherUnit.position.y);
+      if (DiplomacySystem.isAtWar(gameState, unit.playerId, otherUnit.playerId) && visibleTiles.has(key)) {
         const distance = this.getDistance(unit.position, otherUnit.position);
         if (distance < nearestDistance) {
           nearestDistance = distance;
@@ -485,28 +758,32 @@ export class AIPlayer {
   /**
    * Process AI cities - set production, etc.
    */
-  private static processAICities(gameState: GameState, playerId: string): void {
+  private static processAICities(gameState: GameState, playerId: string, plan: AIPlan): void {
     const aiCities = gameState.cities.filter(city => city.playerId === playerId);
     
     for (const city of aiCities) {
       if (!city.production) {
         // Choose what to produce
-        this.setAICityProduction(city, gameState);
+        this.setAICityProduction(city, gameState, plan);
       }
     }
   }
   
   /**
-   * Set production for an AI city
+   * Set production for an AI city, weighted by the leader's personality:
+   * expansionists want more settlers, militarists a larger army, perfectionists better cities.
+   * The plan's goal shifts the balance between settlers, troops and improvements.
    */
-  private static setAICityProduction(city: City, gameState: GameState): void {
+  private static setAICityProduction(city: City, gameState: GameState, plan: AIPlan): void {
+    const player = gameState.players.find(p => p.id === city.playerId);
+    if (!player) return;
+
+    const weights = this.getPersonalityWeights(gameState, city.playerId);
     const playerUnits = gameState.units.filter(u => u.playerId === city.playerId);
     const playerCities = gameState.cities.filter(c => c.playerId === city.playerId);
     
     const settlerCount = playerUnits.filter(u => u.type === UnitType.SETTLERS).length;
-    const militaryCount = playerUnits.filter(u => 
-      u.type === UnitType.WARRIOR || u.type === UnitType.PHALANX || u.type === UnitType.LEGION
-    ).length;
+    const militaryCount = playerUnits.filter(u => AIWarPlanner.isLandMilitary(u)).length;
     
     // Count settlers already in production
     const settlersInProduction = playerCities.filter(c => 
@@ -531,20 +808,46 @@ export class AIPlayer {
       // Late game: minimal settlers, focus on infrastructure
       maxDesiredSettlers = Math.max(1, Math.floor(playerCities.length * 0.25));
     }
+    maxDesiredSettlers = Math.max(1, Math.round(maxDesiredSettlers * weights.expansion));
+
+    // At least two defenders, more per city for militaristic leaders and for a war of conquest
+    let desiredMilitary = Math.max(2, Math.ceil(playerCities.length * weights.militaryPerCity));
+    if (plan.goal === AIGoal.CONQUER) {
+      desiredMilitary = Math.ceil(desiredMilitary * 1.5);
+    }
+    
+    // Siege engines or a ship the attack stack is still missing
+    const campaignNeed = plan.goal === AIGoal.CONQUER
+      ? AIWarPlanner.getCampaignNeed(gameState, city, unitType => ProductionManager.canProduce('unit', unitType, player.technologies))
+      : undefined;
     
     // Production priority logic
-    if (totalSettlers < maxDesiredSettlers && isEarlyGame) {
+    if (plan.goal === AIGoal.DEFEND && AIPlanner.getThreatenedCities(gameState, city.playerId).includes(city)) {
+      // A threatened city raises its own defenders
+      city.production = {
+        type: 'unit',
+        item: this.chooseMilitaryUnit(player, weights, plan),
+        turnsRemaining: 2
+      };
+    } else if (campaignNeed) {
+      city.production = {
+        type: 'unit',
+        item: campaignNeed,
+        turnsRemaining: 3
+      };
+    } else if (totalSettlers < maxDesiredSettlers && plan.goal === AIGoal.EXPAND &&
+      (isEarlyGame || militaryCount >= playerCities.length)) {
       // Need more settlers for expansion
       city.production = {
         type: 'unit',
         item: UnitType.SETTLERS,
         turnsRemaining: 3
       };
-    } else if (militaryCount < Math.max(2, playerCities.length)) {
-      // Need basic military defense (at least 1 per city, minimum 2)
+    } else if (militaryCount < desiredMilitary) {
+      // Need military defense
       city.production = {
         type: 'unit',
-        item: UnitType.WARRIOR,
+        item: this.chooseMilitaryUnit(player, weights, plan),
         turnsRemaining: 2
       };
     } else if (totalSettlers < maxDesiredSettlers) {
@@ -554,13 +857,203 @@ export class AIPlayer {
         item: UnitType.SETTLERS,
         turnsRemaining: 3
       };
+    } else if (this.chooseWonder(city, gameState, weights.wonderCitySize)) {
+      // The largest city races for a Wonder of the World
+      return;
     } else {
       // Focus on infrastructure and buildings
-      city.production = {
-        type: 'building',
-        item: 'granary',
-        turnsRemaining: 4
-      };
+      const building = this.chooseBuilding(city, player, weights);
+      city.production = building
+        ? { type: 'building', item: building, turnsRemaining: 4 }
+        : { type: 'unit', item: this.chooseMilitaryUnit(player, weights, plan), turnsRemaining: 2 };
+    }
+  }
+
+  /**
+   * Pick the first military unit the player can build from the personality's preferences;
+   * defending favours the best defender and conquering the best attacker
+   */
+  private static chooseMilitaryUnit(player: Player, weights: AIPersonalityWeights, plan: AIPlan): UnitType {
+    const buildable = weights.preferredUnits.filter(unitType =>
+      ProductionManager.canProduce('unit', unitType, player.technologies)
+    );
+    if (buildable.length === 0) return UnitType.WARRIOR;
+
+    if (plan.goal === AIGoal.DEFEND || plan.goal === AIGoal.CONQUER) {
+      const stat = plan.goal === AIGoal.DEFEND ? 'defense' : 'attack';
+      return buildable.reduce((best, unitType) =>
+        getUnitStats(unitType)[stat] > getUnitStats(best)[stat] ? unitType : best
+      );
+    }
+    return buildable[0];
+  }
+
+  /**
+   * Pick the first improvement the city lacks from the personality's preferences
+   */
+  private static chooseBuilding(city: City, player: Player, weights: AIPersonalityWeights): BuildingType | undefined {
+    const available = getAvailableBuildings(player.technologies, city.buildings.map(b => b.type));
+    return [...weights.militaryBuildings, ...weights.buildingPriorities].find(building => available.includes(building));
+  }
+
+  /**
+   * Declare war on a weaker neighbour we have a treaty with, as often as the personality allows
+   */
+  private static considerWar(gameState: GameState, playerId: string, random: () => number): void {
+    const weights = this.getPersonalityWeights(gameState, playerId);
+    if (weights.warChance <= 0) return;
+
+    const strength = DiplomacySystem.getMilitaryStrength(gameState, playerId);
+
+    gameState.players
+      .filter(rival => rival.id !== playerId && !rival.eliminated && !DiplomacySystem.isAtWar(gameState, playerId, rival.id))
+      .forEach(rival => {
+        const isNeighbour = AIPlanner.isNeighbour(gameState, playerId, rival.id);
+        const rivalStrength = Math.max(1, DiplomacySystem.getMilitaryStrength(gameState, rival.id));
+        if (isNeighbour && strength / rivalStrength >= weights.warStrengthRatio && random() < weights.warChance) {
+          DiplomacySystem.declareWar(gameState, playerId, rival.id);
+        }
+      });
+  }
+
+  /**
+   * Move a campaign's stack: assemble in the staging city, board its transport and sail
+   * for a landing beside an overseas target, then march on the target at the pace of
+   * the slowest unit and storm it, the escort staying back to guard the stack
+   */
+  private static conductCampaign(gameState: GameState, campaign: AICampaign, actions?: AIGameActions): void {
+    const units = campaign.unitIds
+      .map(id => gameState.units.find(u => u.id === id))
+      .filter((u): u is Unit => !!u);
+    const ship = gameState.units.find(u => u.id === campaign.transportId);
+    const staging = gameState.cities.find(c => c.id === campaign.stagingCityId)!;
+    const target = gameState.cities.find(c => c.id === campaign.targetCityId)!;
+
+    if (!campaign.launched) {
+      units.forEach(unit => this.moveUnitTowards(unit, staging.position, gameState));
+      if (ship) this.moveUnitTowards(ship, staging.position, gameState);
+      return;
+    }
+
+    const onTargetContinent = (unit: Unit) => !unit.transportId &&
+      TradeRouteSystem.getContinentId(gameState, unit.position) === TradeRouteSystem.getContinentId(gameState, target.position);
+    if (ship && !units.every(onTargetContinent)) {
+      this.conductLanding(gameState, units, ship, staging, target, actions);
+      return;
     }
+
+    // The stack moves at the pace of its slowest unit, the rest keep up with it
+    const leader = AIWarPlanner.getStackLeader(units)!;
+    if (PathFinder.getDistance(gameState, leader.position, target.position) > 1) {
+      this.moveUnitTowards(leader, target.position, gameState);
+    }
+    units.filter(u => u !== leader).forEach(unit => this.moveUnitTowards(unit, leader.position, gameState));
+    if (!actions) return;
+
+    // Siege engines and attackers storm the city, the best attacker first; whoever is left walks in
+    const escort = AIWarPlanner.getEscort(units);
+    const adjacent = units
+      .filter(u => u.movementPoints > 0 && PathFinder.getDistance(gameState, u.position, target.position) === 1)
+      .sort((a, b) => getUnitStats(b.type).attack - getUnitStats(a.type).attack);
+    for (const unit of adjacent) {
+      if (target.playerId === unit.playerId) break;
+      const defended = gameState.units.some(u => u.playerId !== unit.playerId && this.isAtPosition(u.position, target.position));
+      if (defended && unit === escort) continue;
+      if (gameState.units.includes(unit) && unit.movementPoints > 0) {
+        actions.moveUnit(unit.id, target.position);
+      }
+    }
+  }
+
+  /**
+   * Carry a stack overseas: the ship waits off the staging city while the stack boards,
+   * sails for the landing site and puts the stack ashore beside the target
+   */
+  private static conductLanding(
+    gameState: GameState, units: Unit[], ship: Unit, staging: City, target: City, actions?: AIGameActions
+  ): void {
+    const aboard = units.filter(u => u.transportId === ship.id);
+
+    if (aboard.length < units.length) {
+      const loadingTile = AIWarPlanner.getAdjacentOcean(gameState, staging.position);
+      if (!loadingTile) return;
+      if (!this.isAtPosition(ship.position, loadingTile)) {
+        this.moveUnitTowards(ship, loadingTile, gameState);
+      }
+      units.filter(u => !u.transportId).forEach(unit => {
+        if (!this.isAtPosition(unit.position, staging.position)) {
+          this.moveUnitTowards(unit, staging.position, gameState);
+        } else if (actions && this.isAtPosition(ship.position, loadingTile) && unit.movementPoints > 0) {
+          actions.moveUnit(unit.id, ship.position);
+        }
+      });
+      return;
+    }
+
+    const landing = AIWarPlanner.getLandingSite(gameState, ship.playerId, target);
+    if (!landing) return;
+    if (!this.isAtPosition(ship.position, landing.sea)) {
+      this.moveUnitTowards(ship, landing.sea, gameState);
+    }
+    if (actions && this.isAtPosition(ship.position, landing.sea)) {
+      aboard.filter(u => u.movementPoints > 0).forEach(unit => actions.moveUnit(unit.id, landing.land));
+    }
+  }
+
+  /**
+   * Start researching the plan's technology when nothing is being researched
+   */
+  private static followResearchPlan(gameState: GameState, playerId: string, plan: AIPlan): void {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player || player.currentResearch || !plan.research) return;
+
+    player.currentResearch = plan.research;
+    player.currentResearchProgress = 0;
+  }
+
+  /**
+   * Revolt towards the plan's government, and adopt it once the anarchy is over.
+   * No revolution is started while cities are under threat.
+   */
+  private static followGovernmentPlan(gameState: GameState, playerId: string, plan: AIPlan, actions: AIGameActions): void {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player || !plan.government || player.government === plan.government) return;
+
+    if (player.government === GovernmentType.ANARCHY) {
+      if ((player.revolutionTurns ?? 0) <= 0) {
+        actions.changeGovernment(playerId, plan.government);
+      }
+    } else if (plan.goal !== AIGoal.DEFEND) {
+      actions.startRevolution(playerId);
+    }
+  }
+
+  /**
+   * Start a wonder in the AI's largest city, once it reaches the given size,
+   * if none of its cities is already building one
+   */
+  private static chooseWonder(city: City, gameState: GameState, minimumSize: number): boolean {
+    const player = gameState.players.find(p => p.id === city.playerId);
+    if (!player) return false;
+
+    const playerCities = gameState.cities.filter(c => c.playerId === city.playerId);
+    if (playerCities.some(c => c.production?.type === 'wonder')) return false;
+
+    const largest = playerCities.reduce((best, c) => c.population > best.population ? c : best, city);
+    if (largest !== city || city.population < minimumSize) return false;
+
+    const wonders = getAvailableWonders(gameState, player);
+    if (wonders.length === 0) return false;
+
+    // Cheapest first so the AI has a chance of finishing before its rivals
+    const wonderType = wonders.reduce((best, w) =>
+      WONDER_DEFINITIONS[w].productionCost < WONDER_DEFINITIONS[best].productionCost ? w : best
+    );
+    city.production = {
+      type: 'wonder',
+      item: wonderType,
+      turnsRemaining: 20
+    };
+    return true;
   }
 }
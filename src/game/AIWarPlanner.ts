@@ -0,0 +1,334 @@
+import type { AICampaign, City, GameState, Position, Unit } from '../types/game';
+import { BuildingType, TerrainType, UnitCategory, UnitType } from '../types/game';
+import { getUnitStats } from './UnitDefinitions';
+import { TerrainManager } from '../terrain/index';
+import { CombatSystem } from './CombatSystem';
+import { ConquestSystem } from './ConquestSystem';
+import { DiplomacySystem } from './DiplomacySystem';
+import { PathFinder } from './PathFinder';
+import { TradeRouteSystem } from './TradeRouteSystem';
+import { VisibilitySystem } from './VisibilitySystem';
+import { AIPlanner } from './AIPlanner';
+
+// Units that batter down city defences, weakest first
+export const SIEGE_UNITS: UnitType[] = [UnitType.CATAPULT, UnitType.CANNON, UnitType.ARTILLERY];
+
+// Ships that carry an attack stack overseas, weakest first
+export const TRANSPORT_UNITS: UnitType[] = [UnitType.TRIREME, UnitType.SAIL, UnitType.FRIGATE, UnitType.TRANSPORT];
+
+// Directions to the eight neighbouring tiles
+const NEIGHBOURS: Array<[number, number]> = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+];
+
+/**
+ * Military campaigns for computer players: which enemy city to attack, how many defenders
+ * each city keeps home, and the attack stack assembled to take the target,
+ * carried by ship when the target lies overseas
+ */
+export class AIWarPlanner {
+  // Land units a stack needs before it sets out
+  public static readonly STACK_SIZE = 4;
+
+  // Most defenders a city keeps home however great the threat
+  public static readonly MAX_GARRISON = 4;
+
+  // Enemy units this close to a city add to its threat level
+  private static readonly THREAT_DISTANCE = 4;
+
+  /**
+   * Check whether a unit fights on land
+   */
+  public static isLandMilitary(unit: Unit): boolean {
+    const stats = getUnitStats(unit.type);
+    return stats.canAttack && stats.category === UnitCategory.LAND;
+  }
+
+  /**
+   * Check whether a unit is a ship that carries land units
+   */
+  public static isTransport(unit: Unit): boolean {
+    return TRANSPORT_UNITS.includes(unit.type);
+  }
+
+  /**
+   * Get how many defenders a city keeps home: one, another on the border with an enemy,
+   * and one more for each enemy unit in sight nearby
+   */
+  public static getGarrisonSize(gameState: GameState, city: City): number {
+    const playerId = city.playerId;
+    const visibleTiles = VisibilitySystem.getVisibleTiles(gameState, playerId);
+    const threats = gameState.units.filter(unit =>
+      getUnitStats(unit.type).canAttack &&
+      DiplomacySystem.isAtWar(gameState, playerId, unit.playerId) &&
+      visibleTiles.has(VisibilitySystem.getTileKey(unit.position.x, unit.position.y)) &&
+      PathFinder.getDistance(gameState, unit.position, city.position) <= this.THREAT_DISTANCE
+    ).length;
+    const onBorder = gameState.cities.some(c =>
+      c.playerId !== playerId && DiplomacySystem.isAtWar(gameState, playerId, c.playerId) &&
+      PathFinder.getDistance(gameState, c.position, city.position) <= AIPlanner.NEIGHBOUR_DISTANCE
+    );
+
+    return Math.min(this.MAX_GARRISON, 1 + (onBorder ? 1 : 0) + threats);
+  }
+
+  /**
+   * Get the land units a city keeps home, best defenders first, leaving out the given units
+   */
+  public static getGarrison(gameState: GameState, city: City, excludedIds: string[] = []): Unit[] {
+    return gameState.units
+      .filter(unit =>
+        unit.playerId === city.playerId && this.isLandMilitary(unit) && !excludedIds.includes(unit.id) &&
+        this.isAt(unit.position, city.position)
+      )
+      .sort((a, b) => getUnitStats(b.type).defense - getUnitStats(a.type).defense)
+      .slice(0, this.getGarrisonSize(gameState, city));
+  }
+
+  /**
+   * Choose the enemy city to attack among those we have seen: the richest and weakest,
+   * nearer ones first and overseas ones only when nothing closer is worth it
+   */
+  public static chooseTarget(gameState: GameState, playerId: string): City | null {
+    const player = gameState.players.find(p => p.id === playerId);
+    const ourCities = gameState.cities.filter(c => c.playerId === playerId);
+    if (!player || ourCities.length === 0) return null;
+
+    let best: City | null = null;
+    let bestScore = 0;
+    gameState.cities
+      .filter(city =>
+        city.playerId !== playerId && DiplomacySystem.isAtWar(gameState, playerId, city.playerId) &&
+        VisibilitySystem.isExplored(player, city.position.x, city.position.y)
+      )
+      .forEach(city => {
+        const distance = Math.min(...ourCities.map(c => PathFinder.getDistance(gameState, c.position, city.position)));
+        const overseas = this.isOverseas(gameState, playerId, city);
+        const score = this.getCityValue(gameState, city) / (1 + this.getCityDefence(gameState, city)) /
+          (1 + distance / 10) * (overseas ? 0.5 : 1);
+        if (score > bestScore) {
+          best = city;
+          bestScore = score;
+        }
+      });
+
+    return best;
+  }
+
+  /**
+   * Check whether a city lies on a land mass where the player has no city
+   */
+  public static isOverseas(gameState: GameState, playerId: string, city: City): boolean {
+    const continent = TradeRouteSystem.getContinentId(gameState, city.position);
+    return !gameState.cities.some(c =>
+      c.playerId === playerId && TradeRouteSystem.getContinentId(gameState, c.position) === continent
+    );
+  }
+
+  /**
+   * Get the player's campaign, keeping it up to date: drop lost units, recruit units no
+   * garrison needs until the stack is full, and launch it once it has assembled.
+   * A new campaign is only planned while conquering; one that has not set out is called off otherwise.
+   */
+  public static updateCampaign(gameState: GameState, playerId: string, conquering: boolean): AICampaign | undefined {
+    gameState.aiCampaigns = gameState.aiCampaigns || {};
+    let campaign: AICampaign | undefined = gameState.aiCampaigns[playerId];
+
+    if (campaign && (!this.isCampaignValid(gameState, playerId, campaign) || (!conquering && !campaign.launched))) {
+      campaign = undefined;
+    }
+    if (!campaign && conquering) {
+      campaign = this.planCampaign(gameState, playerId);
+    }
+    if (!campaign) {
+      delete gameState.aiCampaigns[playerId];
+      return undefined;
+    }
+    gameState.aiCampaigns[playerId] = campaign;
+
+    campaign.unitIds = campaign.unitIds.filter(id => gameState.units.some(u => u.id === id));
+    if (campaign.transportId && !gameState.units.some(u => u.id === campaign!.transportId)) {
+      campaign.transportId = undefined;
+    }
+    if (campaign.launched) {
+      if (campaign.unitIds.length === 0) {
+        delete gameState.aiCampaigns[playerId];
+        return undefined;
+      }
+      return campaign;
+    }
+
+    this.recruit(gameState, playerId, campaign);
+    const staging = gameState.cities.find(c => c.id === campaign!.stagingCityId)!;
+    const target = gameState.cities.find(c => c.id === campaign!.targetCityId)!;
+    const assembled = campaign.unitIds.length >= this.getStackSize(gameState, campaign) &&
+      campaign.unitIds.every(id => this.isAt(gameState.units.find(u => u.id === id)!.position, staging.position));
+    campaign.launched = assembled && (!this.isOverseas(gameState, playerId, target) || !!campaign.transportId);
+
+    return campaign;
+  }
+
+  /**
+   * Get the slowest unit of a stack, which sets its pace
+   */
+  public static getStackLeader(units: Unit[]): Unit | undefined {
+    return [...units].sort((a, b) => getUnitStats(a.type).movement - getUnitStats(b.type).movement)[0];
+  }
+
+  /**
+   * Get the unit that escorts a stack instead of attacking: its best defender
+   */
+  public static getEscort(units: Unit[]): Unit | undefined {
+    if (units.length < 2) return undefined;
+    return [...units].sort((a, b) => getUnitStats(b.type).defense - getUnitStats(a.type).defense)[0];
+  }
+
+  /**
+   * Find where a ship can put a stack ashore next to a target city:
+   * a free land tile beside the city with open sea beside it
+   */
+  public static getLandingSite(gameState: GameState, playerId: string, target: City): { sea: Position; land: Position } | null {
+    for (const land of this.getNeighbours(gameState, target.position)) {
+      const tile = gameState.worldMap[land.y][land.x];
+      if (tile.terrain === TerrainType.OCEAN || !TerrainManager.isPassable(tile.terrain)) continue;
+      if (this.isHeldByOthers(gameState, playerId, land)) continue;
+
+      const sea = this.getNeighbours(gameState, land).find(position =>
+        gameState.worldMap[position.y][position.x].terrain === TerrainType.OCEAN &&
+        !this.isHeldByOthers(gameState, playerId, position)
+      );
+      if (sea) return { sea, land };
+    }
+    return null;
+  }
+
+  /**
+   * Get an open sea tile next to a position, where a ship can take on cargo
+   */
+  public static getAdjacentOcean(gameState: GameState, position: Position): Position | undefined {
+    return this.getNeighbours(gameState, position).find(p => gameState.worldMap[p.y][p.x].terrain === TerrainType.OCEAN);
+  }
+
+  /**
+   * Get the unit a city should build for the campaign: a transport in the staging city
+   * when an overseas stack has none, or siege engines while the stack has none
+   */
+  public static getCampaignNeed(gameState: GameState, city: City, canBuild: (unitType: UnitType) => boolean): UnitType | undefined {
+    const campaign = gameState.aiCampaigns?.[city.playerId];
+    if (!campaign || campaign.launched) return undefined;
+
+    const target = gameState.cities.find(c => c.id === campaign.targetCityId);
+    const building = (types: UnitType[]) => gameState.cities.some(c =>
+      c.playerId === city.playerId && c.production?.type === 'unit' && types.includes(c.production.item as UnitType)
+    );
+
+    if (target && !campaign.transportId && city.id === campaign.stagingCityId &&
+      this.isOverseas(gameState, city.playerId, target) && !building(TRANSPORT_UNITS)) {
+      const transport = [...TRANSPORT_UNITS].reverse().find(canBuild);
+      if (transport) return transport;
+    }
+
+    const hasSiege = gameState.units.some(u => campaign.unitIds.includes(u.id) && SIEGE_UNITS.includes(u.type));
+    if (!hasSiege && !building(SIEGE_UNITS)) {
+      return [...SIEGE_UNITS].reverse().find(canBuild);
+    }
+    return undefined;
+  }
+
+  // Choose a target and the city nearest it to assemble in; coastal if the target is overseas
+  private static planCampaign(gameState: GameState, playerId: string): AICampaign | undefined {
+    const target = this.chooseTarget(gameState, playerId);
+    if (!target) return undefined;
+
+    const overseas = this.isOverseas(gameState, playerId, target);
+    const staging = gameState.cities
+      .filter(c => c.playerId === playerId && (!overseas || this.getAdjacentOcean(gameState, c.position)))
+      .sort((a, b) =>
+        PathFinder.getDistance(gameState, a.position, target.position) - PathFinder.getDistance(gameState, b.position, target.position)
+      )[0];
+    if (!staging) return undefined;
+
+    return { targetCityId: target.id, stagingCityId: staging.id, unitIds: [], launched: false };
+  }
+
+  /**
+   * Get how many land units a campaign's stack takes: no more than its transport carries
+   */
+  public static getStackSize(gameState: GameState, campaign: AICampaign): number {
+    const ship = gameState.units.find(u => u.id === campaign.transportId);
+    return ship ? Math.min(this.STACK_SIZE, getUnitStats(ship.type).canCarryUnits || 0) : this.STACK_SIZE;
+  }
+
+  // Add a transport if overseas, then units no garrison needs, siege engines and the nearest first
+  private static recruit(gameState: GameState, playerId: string, campaign: AICampaign): void {
+    const staging = gameState.cities.find(c => c.id === campaign.stagingCityId)!;
+    const target = gameState.cities.find(c => c.id === campaign.targetCityId)!;
+    const distanceToStaging = (unit: Unit) => PathFinder.getDistance(gameState, unit.position, staging.position);
+
+    if (!campaign.transportId && this.isOverseas(gameState, playerId, target)) {
+      const claimed = new Set(Object.values(gameState.aiCampaigns || {}).map(c => c.transportId));
+      const ship = gameState.units
+        .filter(u => u.playerId === playerId && this.isTransport(u) && !claimed.has(u.id))
+        .sort((a, b) => distanceToStaging(a) - distanceToStaging(b))[0];
+      campaign.transportId = ship?.id;
+    }
+
+    const stackSize = this.getStackSize(gameState, campaign);
+    campaign.unitIds = campaign.unitIds.slice(0, stackSize);
+    const garrisons = new Set(gameState.cities
+      .filter(c => c.playerId === playerId)
+      .flatMap(c => this.getGarrison(gameState, c, campaign.unitIds).map(u => u.id)));
+
+    const recruits = gameState.units
+      .filter(u =>
+        u.playerId === playerId && this.isLandMilitary(u) && !u.transportId &&
+        !campaign.unitIds.includes(u.id) && !garrisons.has(u.id)
+      )
+      .sort((a, b) =>
+        Number(SIEGE_UNITS.includes(b.type)) - Number(SIEGE_UNITS.includes(a.type)) || distanceToStaging(a) - distanceToStaging(b)
+      );
+    campaign.unitIds.push(...recruits.slice(0, Math.max(0, stackSize - campaign.unitIds.length)).map(u => u.id));
+  }
+
+  // The target must still belong to an enemy we are at war with, and the staging city to us
+  private static isCampaignValid(gameState: GameState, playerId: string, campaign: AICampaign): boolean {
+    const target = gameState.cities.find(c => c.id === campaign.targetCityId);
+    const staging = gameState.cities.find(c => c.id === campaign.stagingCityId);
+    return !!target && !!staging && staging.playerId === playerId && target.playerId !== playerId &&
+      DiplomacySystem.isAtWar(gameState, playerId, target.playerId);
+  }
+
+  // Bigger cities with more improvements are worth more
+  private static getCityValue(gameState: GameState, city: City): number {
+    const wonders = Object.values(gameState.wonders || {}).filter(w => w?.cityId === city.id).length;
+    return city.population * 2 + city.buildings.length + wonders * 4;
+  }
+
+  // Total defence of the units in a city, tripled behind city walls
+  private static getCityDefence(gameState: GameState, city: City): number {
+    const defence = ConquestSystem.getDefenders(gameState, city)
+      .reduce((total, unit) => total + getUnitStats(unit.type).defense, 0);
+    const walls = city.buildings.some(b => b.type === BuildingType.CITY_WALLS);
+    return walls ? defence * CombatSystem.CITY_WALLS_MULTIPLIER : defence;
+  }
+
+  // Tiles next to a position, wrapping horizontally
+  private static getNeighbours(gameState: GameState, position: Position): Position[] {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    return NEIGHBOURS
+      .map(([dx, dy]) => ({ x: ((position.x + dx) % mapWidth + mapWidth) % mapWidth, y: position.y + dy }))
+      .filter(p => p.y >= 0 && p.y < gameState.worldMap.length);
+  }
+
+  // Tiles holding another player's units or city
+  private static isHeldByOthers(gameState: GameState, playerId: string, position: Position): boolean {
+    return gameState.units.some(u => u.playerId !== playerId && this.isAt(u.position, position)) ||
+      gameState.cities.some(c => c.playerId !== playerId && this.isAt(c.position, position));
+  }
+
+  private static isAt(a: Position, b: Position): boolean {
+    return a.x === b.x && a.y === b.y;
+  }
+}
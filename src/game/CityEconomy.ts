@@ -0,0 +1,396 @@
+import type { City, GameState, GovernmentType, Player, Tile } from '../types/game';
+import { GOVERNMENTS, ImprovementType, ResourceType, TerrainType, TerrainVariant } from '../types/game';
+import { TerrainManager } from '../terrain/index';
+import { BUILDING_DEFINITIONS } from './BuildingDefinitions';
+import { getCityWonderEffects, getPlayerWonderEffects } from './WonderDefinitions';
+import { TradeRouteSystem } from './TradeRouteSystem';
+
+export interface TileYields {
+  food: number;
+  production: number;
+  trade: number;
+}
+
+export interface WorkedTileYields extends TileYields {
+  dx: number;
+  dy: number;
+}
+
+export interface TradeBreakdown {
+  luxuries: number;
+  tax: number;
+  science: number;
+}
+
+export interface TaxRates {
+  tax: number; // Percent
+  luxury: number; // Percent
+  science: number; // Percent
+}
+
+/**
+ * Civilization I city economy
+ * Single source of truth for tile and city yields, shared by the turn processor and the city screen
+ */
+export class CityEconomy {
+
+  // Rates a new civilization starts with
+  public static readonly DEFAULT_TAX_RATES: TaxRates = { tax: 40, luxury: 0, science: 60 };
+
+  // Rates are set in steps of this many percent
+  public static readonly TAX_RATE_STEP = 10;
+
+  // Bonus yields granted by special resources
+  private static readonly RESOURCE_BONUSES: Record<ResourceType, Partial<TileYields>> = {
+    [ResourceType.WHEAT]: { food: 2 },
+    [ResourceType.FISH]: { food: 2 },
+    [ResourceType.GAME]: { food: 2 },
+    [ResourceType.SEAL]: { food: 2 },
+    [ResourceType.OASIS]: { food: 3 },
+    [ResourceType.HORSES]: { production: 2 },
+    [ResourceType.COAL]: { production: 2 },
+    [ResourceType.IRON]: { production: 3 },
+    [ResourceType.OIL]: { production: 3 },
+    [ResourceType.GEM]: { trade: 4 },
+    [ResourceType.GOLD]: { trade: 6 }
+  };
+
+  // Terrain that benefits from irrigation
+  private static readonly IRRIGABLE_TERRAIN: TerrainType[] = [
+    TerrainType.GRASSLAND, TerrainType.PLAINS, TerrainType.DESERT, TerrainType.HILLS, TerrainType.RIVER
+  ];
+
+  // Terrain where roads add trade
+  private static readonly ROAD_TRADE_TERRAIN: TerrainType[] = [
+    TerrainType.GRASSLAND, TerrainType.PLAINS, TerrainType.DESERT
+  ];
+
+  /**
+   * Get the tiles a city can work, relative to its center (the 21-tile "fat cross")
+   */
+  public static getCityRadius(): Array<{ dx: number; dy: number }> {
+    const tiles: Array<{ dx: number; dy: number }> = [];
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        // Corners are outside the city radius
+        if (Math.abs(dx) === 2 && Math.abs(dy) === 2) continue;
+        tiles.push({ dx, dy });
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Get the map tile at an offset from a city (with horizontal wrapping)
+   */
+  public static getTileAt(gameState: GameState, city: City, dx: number, dy: number): Tile | null {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    const y = city.position.y + dy;
+    if (y < 0 || y >= gameState.worldMap.length) return null;
+
+    const x = ((city.position.x + dx) % mapWidth + mapWidth) % mapWidth;
+    return gameState.worldMap[y]?.[x] || null;
+  }
+
+  /**
+   * Get the yields of a tile from terrain, variant, resources and improvements.
+   * When a player is given, that player's government modifiers are applied too.
+   */
+  public static getTileYields(gameState: GameState, tile: Tile, playerId?: string): TileYields {
+    const yields = TerrainManager.getTerrainYields(tile.terrain);
+
+    // Shield grassland
+    if (tile.terrainVariant === TerrainVariant.SHIELD) {
+      yields.production += 1;
+    }
+
+    // Special resources
+    tile.resources?.forEach(resource => {
+      const bonus = this.RESOURCE_BONUSES[resource];
+      if (bonus) {
+        yields.food += bonus.food || 0;
+        yields.production += bonus.production || 0;
+        yields.trade += bonus.trade || 0;
+      }
+    });
+
+    // Terrain improvements
+    tile.improvements?.forEach(improvement => {
+      switch (improvement.type) {
+        case ImprovementType.IRRIGATION:
+          if (this.IRRIGABLE_TERRAIN.includes(tile.terrain)) {
+            yields.food += 1;
+          }
+          break;
+        case ImprovementType.FARM:
+          yields.food += 1;
+          break;
+        case ImprovementType.MINE:
+          if (tile.terrain === TerrainType.HILLS) {
+            yields.production += 3;
+          } else if (tile.terrain === TerrainType.DESERT || tile.terrain === TerrainType.MOUNTAINS) {
+            yields.production += 1;
+          }
+          break;
+        case ImprovementType.ROAD:
+          if (this.ROAD_TRADE_TERRAIN.includes(tile.terrain)) {
+            yields.trade += 1;
+          }
+          break;
+      }
+    });
+
+    if (playerId) {
+      this.applyGovernmentModifiers(gameState, playerId, yields);
+    }
+
+    return yields;
+  }
+
+  /**
+   * Get the yields of a city's center tile, which always produces at least 2/1/1
+   */
+  public static getCityCenterYields(gameState: GameState, city: City): TileYields {
+    const tile = this.getTileAt(gameState, city, 0, 0);
+    if (!tile) {
+      return { food: 2, production: 1, trade: 1 };
+    }
+
+    const yields = this.getTileYields(gameState, tile, city.playerId);
+    return {
+      food: Math.max(2, yields.food),
+      production: Math.max(1, yields.production),
+      trade: Math.max(1, yields.trade)
+    };
+  }
+
+  /**
+   * Get the yields of the tile at an offset from a city, including the city's wonders
+   * (Colossus trade on ocean, King Richard's shields)
+   */
+  public static getTileYieldsAt(gameState: GameState, city: City, dx: number, dy: number): TileYields | null {
+    const tile = this.getTileAt(gameState, city, dx, dy);
+    if (!tile) return null;
+
+    const yields = this.getTileYields(gameState, tile, city.playerId);
+    const wonders = getCityWonderEffects(gameState, city);
+    if (tile.terrain === TerrainType.OCEAN && wonders.oceanTradeBonus) {
+      yields.trade += wonders.oceanTradeBonus;
+    }
+    if (wonders.shieldsPerTile) {
+      yields.production += wonders.shieldsPerTile;
+    }
+    return yields;
+  }
+
+  /**
+   * Get the best tiles for a city to work, one per citizen (excluding the city center).
+   * Prioritizes food and production (shields) over trade.
+   */
+  public static getOptimalWorkedTiles(gameState: GameState, city: City): WorkedTileYields[] {
+    const candidates: WorkedTileYields[] = [];
+
+    this.getCityRadius().forEach(({ dx, dy }) => {
+      if (dx === 0 && dy === 0) return;
+      if (this.isTileWorkedByOtherCity(gameState, city, dx, dy)) return;
+
+      const yields = this.getTileYieldsAt(gameState, city, dx, dy);
+      if (yields) {
+        candidates.push({ dx, dy, ...yields });
+      }
+    });
+
+    const priority = (t: TileYields) => (t.food * 2) + (t.production * 2) + t.trade;
+    const total = (t: TileYields) => t.food + t.production + t.trade;
+
+    candidates.sort((a, b) =>
+      priority(b) - priority(a) ||
+      total(b) - total(a) ||
+      b.food - a.food ||
+      b.production - a.production ||
+      b.trade - a.trade
+    );
+
+    return candidates.slice(0, city.population);
+  }
+
+  /**
+   * Get the tiles a city is working (excluding the city center).
+   * Uses the manual selection if there is one, otherwise the optimal tiles.
+   */
+  public static getWorkedTiles(gameState: GameState, city: City): Array<{ dx: number; dy: number }> {
+    if (city.workedTiles && city.workedTiles.length > 0) {
+      return city.workedTiles;
+    }
+    return this.getOptimalWorkedTiles(gameState, city).map(({ dx, dy }) => ({ dx, dy }));
+  }
+
+  /**
+   * Calculate total food, shields and trade produced by a city
+   */
+  public static calculateCityYields(gameState: GameState, city: City): TileYields {
+    const totals = this.getCityCenterYields(gameState, city);
+
+    this.getWorkedTiles(gameState, city).forEach(({ dx, dy }) => {
+      const yields = this.getTileYieldsAt(gameState, city, dx, dy);
+      if (yields) {
+        totals.food += yields.food;
+        totals.production += yields.production;
+        totals.trade += yields.trade;
+      }
+    });
+
+    // Caravan trade routes add trade every turn
+    totals.trade += TradeRouteSystem.getRoutesTrade(gameState, city);
+
+    // Hoover Dam boosts shields in every city of its owner
+    const productionBonus = getPlayerWonderEffects(gameState, city.playerId).productionBonusAllCities || 0;
+    totals.production = Math.floor(totals.production * (100 + productionBonus) / 100);
+
+    return totals;
+  }
+
+  /**
+   * Split a city's trade into luxuries, tax and science using its owner's rates,
+   * then apply building bonuses: tradeBonus (marketplace, bank) boosts tax and luxuries,
+   * scienceBonus (library, university) boosts science
+   */
+  public static splitTrade(gameState: GameState, city: City, trade: number): TradeBreakdown {
+    const player = gameState.players.find(p => p.id === city.playerId);
+    const rates = player ? this.getTaxRates(player) : this.DEFAULT_TAX_RATES;
+    const effects = player ? GOVERNMENTS[player.government]?.effects : undefined;
+
+    let luxuries = Math.round(trade * rates.luxury / 100);
+    let tax = Math.round(trade * rates.tax / 100);
+    let science = Math.max(0, trade - luxuries - tax);
+    tax = Math.min(tax, trade - luxuries);
+
+    // Without tax collection or research (anarchy) that share of trade becomes luxuries
+    if (effects && !effects.taxCollection) {
+      luxuries += tax;
+      tax = 0;
+    }
+    if (effects && !effects.scientificResearch) {
+      luxuries += science;
+      science = 0;
+    }
+
+    const tradeBonus = this.getBuildingBonus(city, 'tradeBonus');
+    const scienceBonus = this.getBuildingBonus(city, 'scienceBonus') +
+      (getCityWonderEffects(gameState, city).scienceBonus || 0) +
+      (getPlayerWonderEffects(gameState, city.playerId).scienceBonusAllCities || 0);
+
+    return {
+      luxuries: Math.floor(luxuries * (100 + tradeBonus) / 100),
+      tax: Math.floor(tax * (100 + tradeBonus) / 100),
+      science: Math.floor(science * (100 + scienceBonus) / 100)
+    };
+  }
+
+  /**
+   * Get a player's tax, luxury and science rates
+   */
+  public static getTaxRates(player: Player): TaxRates {
+    if (player.taxRate === undefined || player.luxuryRate === undefined || player.scienceRate === undefined) {
+      return this.clampTaxRates(this.DEFAULT_TAX_RATES, player.government);
+    }
+    return { tax: player.taxRate, luxury: player.luxuryRate, science: player.scienceRate };
+  }
+
+  /**
+   * Get the highest rate a government allows for any one of tax, luxuries or science
+   */
+  public static getMaxRate(government: GovernmentType): number {
+    return GOVERNMENTS[government]?.effects.maxRate ?? 100;
+  }
+
+  /**
+   * Check that rates are in 10% steps, add up to 100% and respect the government's maximum
+   */
+  public static isValidTaxRates(rates: TaxRates, government: GovernmentType): boolean {
+    const maxRate = this.getMaxRate(government);
+    const values = [rates.tax, rates.luxury, rates.science];
+
+    return values.every(value => value >= 0 && value <= maxRate && value % this.TAX_RATE_STEP === 0) &&
+      values.reduce((sum, value) => sum + value, 0) === 100;
+  }
+
+  /**
+   * Bring rates within a government's maximum, moving any excess to the other rates
+   */
+  public static clampTaxRates(rates: TaxRates, government: GovernmentType): TaxRates {
+    const maxRate = this.getMaxRate(government);
+    const clamped = {
+      tax: Math.min(rates.tax, maxRate),
+      luxury: Math.min(rates.luxury, maxRate),
+      science: Math.min(rates.science, maxRate)
+    };
+
+    // Hand the excess out to science first, then tax, then luxuries
+    let excess = 100 - clamped.tax - clamped.luxury - clamped.science;
+    (['science', 'tax', 'luxury'] as const).forEach(key => {
+      const room = maxRate - clamped[key];
+      const added = Math.max(0, Math.min(room, excess));
+      clamped[key] += added;
+      excess -= added;
+    });
+
+    return clamped;
+  }
+
+  /**
+   * Calculate the gold a city's buildings cost to maintain each turn
+   */
+  public static calculateBuildingUpkeep(city: City): number {
+    return city.buildings.reduce((total, building) => {
+      return total + (BUILDING_DEFINITIONS[building.type]?.maintenanceCost || 0);
+    }, 0);
+  }
+
+  /**
+   * Sum a percentage bonus over the buildings in a city
+   */
+  private static getBuildingBonus(city: City, bonus: 'tradeBonus' | 'scienceBonus'): number {
+    return city.buildings.reduce((total, building) => {
+      return total + (BUILDING_DEFINITIONS[building.type]?.effects[bonus] || 0);
+    }, 0);
+  }
+
+  /**
+   * Apply government tile modifiers: the despotism/anarchy penalty reduces any yield above 2 by one,
+   * and republic/democracy add one trade where trade already exists
+   */
+  private static applyGovernmentModifiers(gameState: GameState, playerId: string, yields: TileYields): void {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player) return;
+
+    const effects = GOVERNMENTS[player.government]?.effects;
+    if (!effects) return;
+
+    if (effects.tradeBonus && yields.trade > 0) {
+      yields.trade += 1;
+    }
+
+    if (effects.productionPenalty) {
+      if (yields.food > 2) yields.food -= 1;
+      if (yields.production > 2) yields.production -= 1;
+      if (yields.trade > 2) yields.trade -= 1;
+    }
+  }
+
+  /**
+   * Check whether another city of any player is already working a tile
+   */
+  private static isTileWorkedByOtherCity(gameState: GameState, city: City, dx: number, dy: number): boolean {
+    const tile = this.getTileAt(gameState, city, dx, dy);
+    if (!tile) return false;
+
+    return gameState.cities.some(other => {
+      if (other.id === city.id || !other.workedTiles) return false;
+      return other.workedTiles.some(worked => {
+        const otherTile = this.getTileAt(gameState, other, worked.dx, worked.dy);
+        return otherTile === tile;
+      });
+    });
+  }
+}
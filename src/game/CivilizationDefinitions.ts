@@ -19,6 +19,37 @@ export const CivilizationType = {
 
 export type CivilizationType = typeof CivilizationType[keyof typeof CivilizationType];
 
+// Leader personality traits (Civilization I), used by the computer players
+export const AggressionTrait = {
+    FRIENDLY: 'friendly',
+    NORMAL: 'normal',
+    AGGRESSIVE: 'aggressive'
+} as const;
+
+export type AggressionTrait = typeof AggressionTrait[keyof typeof AggressionTrait];
+
+export const DevelopmentTrait = {
+    PERFECTIONIST: 'perfectionist',
+    NORMAL: 'normal',
+    EXPANSIONISTIC: 'expansionistic'
+} as const;
+
+export type DevelopmentTrait = typeof DevelopmentTrait[keyof typeof DevelopmentTrait];
+
+export const MilitarismTrait = {
+    CIVILIZED: 'civilized',
+    NORMAL: 'normal',
+    MILITARISTIC: 'militaristic'
+} as const;
+
+export type MilitarismTrait = typeof MilitarismTrait[keyof typeof MilitarismTrait];
+
+export interface CivilizationPersonality {
+    aggression: AggressionTrait; // Willingness to go to war
+    development: DevelopmentTrait; // Many cities or well built ones
+    militarism: MilitarismTrait; // Size of the standing army
+}
+
 export interface Civilization {
     id: CivilizationType;
     name: string;
@@ -27,6 +58,7 @@ export interface Civilization {
     leader: string; // Historical leader name
     cities: string[]; // Default city names in order of preference
     description: string; // Brief description of the civilization
+    personality: CivilizationPersonality; // How the civilization plays when computer controlled
 }
 
 export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> = {
@@ -41,7 +73,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Syracuse', 'Antioch', 'Palmyra', 'Cyrene', 'Gordion', 'Tyrus',
             'Jerusalem', 'Seleucia', 'Ravenna', 'Artaxata'
         ],
-        description: 'A powerful empire that dominated the Mediterranean world through military might and administrative excellence.'
+        description: 'A powerful empire that dominated the Mediterranean world through military might and administrative excellence.',
+        personality: {
+            aggression: AggressionTrait.NORMAL,
+            development: DevelopmentTrait.EXPANSIONISTIC,
+            militarism: MilitarismTrait.MILITARISTIC
+        }
     },
 
     [CivilizationType.AMERICAN]: {
@@ -55,7 +92,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Buffalo', 'St. Louis', 'Detroit', 'New Orleans', 'Baltimore', 'Denver',
             'Cincinnati', 'Dallas', 'Los Angeles', 'Las Vegas'
         ],
-        description: 'A young nation founded on principles of democracy and freedom, destined for expansion across a vast continent.'
+        description: 'A young nation founded on principles of democracy and freedom, destined for expansion across a vast continent.',
+        personality: {
+            aggression: AggressionTrait.FRIENDLY,
+            development: DevelopmentTrait.EXPANSIONISTIC,
+            militarism: MilitarismTrait.CIVILIZED
+        }
     },
 
     [CivilizationType.AZTECS]: {
@@ -69,7 +111,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Itzapam', 'Mitxcoac', 'Tucubaya', 'Tecamac', 'Tepezinco', 'Ticoman',
             'Tlaxcala', 'Xaltocan', 'Xicalango', 'Zumpanco'
         ],
-        description: 'A mighty Mesoamerican empire built on tribute, trade, and religious devotion centered in the Valley of Mexico.'
+        description: 'A mighty Mesoamerican empire built on tribute, trade, and religious devotion centered in the Valley of Mexico.',
+        personality: {
+            aggression: AggressionTrait.AGGRESSIVE,
+            development: DevelopmentTrait.NORMAL,
+            militarism: MilitarismTrait.MILITARISTIC
+        }
     },
 
     [CivilizationType.BABYLONIAN]: {
@@ -83,7 +130,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Akkad', 'Eridu', 'Kish', 'Nippur', 'Shuruppak', 'Zariqum',
             'Izibia', 'Nimrud', 'Arbela', 'Zamua'
         ],
-        description: 'Ancient masters of law and astronomy from Mesopotamia, the cradle of civilization between the rivers.'
+        description: 'Ancient masters of law and astronomy from Mesopotamia, the cradle of civilization between the rivers.',
+        personality: {
+            aggression: AggressionTrait.FRIENDLY,
+            development: DevelopmentTrait.PERFECTIONIST,
+            militarism: MilitarismTrait.CIVILIZED
+        }
     },
 
     [CivilizationType.CHINESE]: {
@@ -97,7 +149,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Tientsin', 'Tatung', 'Macao', 'Anyang', 'Shantung', 'Chinan',
             'Kaifeng', 'Ningpo', 'Paoting', 'Yangchow'
         ],
-        description: 'An ancient civilization known for technological innovation, philosophy, and the Mandate of Heaven.'
+        description: 'An ancient civilization known for technological innovation, philosophy, and the Mandate of Heaven.',
+        personality: {
+            aggression: AggressionTrait.FRIENDLY,
+            development: DevelopmentTrait.PERFECTIONIST,
+            militarism: MilitarismTrait.NORMAL
+        }
     },
 
     [CivilizationType.EGYPTIAN]: {
@@ -111,7 +168,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Byblos', 'Cairo', 'Coptos', 'Edfu', 'Pithom', 'Busirus',
             'Athribus', 'Mendes', 'Tanis', 'Abydos'
         ],
-        description: 'Masters of the Nile, builders of pyramids and monuments that have endured for millennia.'
+        description: 'Masters of the Nile, builders of pyramids and monuments that have endured for millennia.',
+        personality: {
+            aggression: AggressionTrait.NORMAL,
+            development: DevelopmentTrait.PERFECTIONIST,
+            militarism: MilitarismTrait.NORMAL
+        }
     },
 
     [CivilizationType.ENGLISH]: {
@@ -125,7 +187,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Liverpool', 'Brighton', 'Oxford', 'Reading', 'Exeter', 'Cambridge',
             'Hastings', 'Canterbury', 'Banbury', 'Newcastle'
         ],
-        description: 'A maritime power destined to rule the waves and establish a global empire upon which the sun never sets.'
+        description: 'A maritime power destined to rule the waves and establish a global empire upon which the sun never sets.',
+        personality: {
+            aggression: AggressionTrait.NORMAL,
+            development: DevelopmentTrait.NORMAL,
+            militarism: MilitarismTrait.CIVILIZED
+        }
     },
 
     [CivilizationType.FRENCH]: {
@@ -139,7 +206,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Rouen', 'Avignon', 'Marseilles', 'Grenoble', 'Dijon', 'Amiens',
             'Cherbourg', 'Poitiers', 'Toulouse', 'Bayonne'
         ],
-        description: 'A nation of culture, cuisine, and conquest that has shaped European politics and philosophy for centuries.'
+        description: 'A nation of culture, cuisine, and conquest that has shaped European politics and philosophy for centuries.',
+        personality: {
+            aggression: AggressionTrait.NORMAL,
+            development: DevelopmentTrait.EXPANSIONISTIC,
+            militarism: MilitarismTrait.NORMAL
+        }
     },
 
     [CivilizationType.GERMAN]: {
@@ -153,7 +225,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Nuremberg', 'Cologne', 'Hannover', 'Munich', 'Stuttgart', 'Heidelberg',
             'Salzburg', 'Konigsberg', 'Dortmund', 'Brandenburg'
         ],
-        description: 'A confederation of industrious peoples known for engineering excellence, philosophy, and military precision.'
+        description: 'A confederation of industrious peoples known for engineering excellence, philosophy, and military precision.',
+        personality: {
+            aggression: AggressionTrait.AGGRESSIVE,
+            development: DevelopmentTrait.NORMAL,
+            militarism: MilitarismTrait.MILITARISTIC
+        }
     },
 
     [CivilizationType.GREEKS]: {
@@ -167,7 +244,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Argos', 'Mycenae', 'Herakleia', 'Antioch', 'Ephesos', 'Rhodes',
             'Knossos', 'Troy', 'Pergamon', 'Miletos'
         ],
-        description: 'The birthplace of democracy, philosophy, and classical learning that laid the foundation of Western civilization.'
+        description: 'The birthplace of democracy, philosophy, and classical learning that laid the foundation of Western civilization.',
+        personality: {
+            aggression: AggressionTrait.FRIENDLY,
+            development: DevelopmentTrait.NORMAL,
+            militarism: MilitarismTrait.CIVILIZED
+        }
     },
 
     [CivilizationType.INDIAN]: {
@@ -181,7 +263,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Karachi', 'Kolhapur', 'Jaipur', 'Hyderbad', 'Bengal', 'Chittagong',
             'Punjab', 'Dacca', 'Indus', 'Ganges'
         ],
-        description: 'A diverse subcontinent rich in spirituality, mathematics, and trade that bridges East and West.'
+        description: 'A diverse subcontinent rich in spirituality, mathematics, and trade that bridges East and West.',
+        personality: {
+            aggression: AggressionTrait.FRIENDLY,
+            development: DevelopmentTrait.PERFECTIONIST,
+            militarism: MilitarismTrait.NORMAL
+        }
     },
 
     //   [CivilizationType.JAPANESE]: {
@@ -209,7 +296,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Aleppo', 'Kabul', 'Ormuz', 'Basra', 'Khanbaryk', 'Khorasan',
             'Shangtu', 'Kazan', 'Qyinsay', 'Kerman'
         ],
-        description: 'Fierce nomadic warriors who built the largest contiguous land empire in history through superior horsemanship and tactics.'
+        description: 'Fierce nomadic warriors who built the largest contiguous land empire in history through superior horsemanship and tactics.',
+        personality: {
+            aggression: AggressionTrait.AGGRESSIVE,
+            development: DevelopmentTrait.EXPANSIONISTIC,
+            militarism: MilitarismTrait.MILITARISTIC
+        }
     },
 
     [CivilizationType.RUSSIAN]: {
@@ -223,7 +315,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Sevastopol', 'Tiblisi', 'Sverdlovsk', 'Yakutsk', 'Vladivostok', 'Novograd',
             'Krasnoyarsk', 'Riga', 'Rostov', 'Atrakhan'
         ],
-        description: 'A vast empire spanning continents, enduring through harsh winters and emerging as a major world power.'
+        description: 'A vast empire spanning continents, enduring through harsh winters and emerging as a major world power.',
+        personality: {
+            aggression: AggressionTrait.AGGRESSIVE,
+            development: DevelopmentTrait.EXPANSIONISTIC,
+            militarism: MilitarismTrait.NORMAL
+        }
     },
 
     [CivilizationType.ZULU]: {
@@ -237,7 +334,12 @@ export const CIVILIZATION_DEFINITIONS: Record<CivilizationType, Civilization> =
             'Mpondo', 'Ngome', 'Swazi', 'Tugela', 'Umtata', 'Umfolozi',
             'Ibabanago', 'Isipezi', 'Amatikulu', 'Zunquin'
         ],
-        description: 'A proud warrior nation of southern Africa known for military innovation and fierce resistance to colonization.'
+        description: 'A proud warrior nation of southern Africa known for military innovation and fierce resistance to colonization.',
+        personality: {
+            aggression: AggressionTrait.AGGRESSIVE,
+            development: DevelopmentTrait.NORMAL,
+            militarism: MilitarismTrait.MILITARISTIC
+        }
     }
 };
 
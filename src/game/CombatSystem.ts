@@ -1,6 +1,11 @@
-import { Unit, Position } from '../types/game';
+import { Unit, UnitType, Position, GameState, ImprovementType, TerrainType } from '../types/game';
 import { BaseUnit } from './Units';
 import { getUnitStats } from './UnitDefinitions';
+import { TechnologyEra, getTechnology } from './TechnologyDefinitions';
+import { BUILDING_DEFINITIONS } from './BuildingDefinitions';
+import { getPlayerWonderEffects } from './WonderDefinitions';
+import { PathFinder } from './PathFinder';
+import { TerrainManager } from '../terrain/index';
 
 export interface CombatResult {
   attacker: Unit;
@@ -10,100 +15,203 @@ export interface CombatResult {
   attackerSurvived: boolean;
   defenderSurvived: boolean;
   experienceGained: number;
+  rounds: number; // Combat rounds fought until one unit was destroyed
+  stackDestroyed?: Unit[]; // Other units lost with a defender beaten outside a city or fortress
 }
 
+// Where the defender stands, which decides its defensive bonuses
+export interface DefenseContext {
+  terrain?: TerrainType;
+  hasFortress?: boolean;
+  inCity?: boolean;
+  hasCityWalls?: boolean; // City Walls in the city, or the Great Wall
+}
+
+// Combat strengths and the attacker's chance of winning, for previews
+export interface CombatOdds {
+  attackStrength: number;
+  defenseStrength: number;
+  roundWinChance: number; // Chance the attacker wins a single round
+  attackerWinChance: number; // Chance the attacker wins the whole combat
+}
+
+// Damage dealt per firepower point by each round won
+const ROUND_DAMAGE = 10;
+
+// Later units hit harder: firepower by the era of the technology that unlocks them
+const FIREPOWER_BY_ERA: Record<TechnologyEra, number> = {
+  [TechnologyEra.ANCIENT]: 1,
+  [TechnologyEra.CLASSICAL]: 1,
+  [TechnologyEra.MEDIEVAL]: 1,
+  [TechnologyEra.RENAISSANCE]: 2,
+  [TechnologyEra.INDUSTRIAL]: 2,
+  [TechnologyEra.MODERN]: 3,
+  [TechnologyEra.INFORMATION]: 3
+};
+
 export class CombatSystem {
-  
-  // Calculate combat result between two units
-  public resolveCombat(attacker: Unit, defender: Unit, defenderHasFortress: boolean = false): CombatResult {
-    const attackerUnit = attacker as BaseUnit;
-    const defenderUnit = defender as BaseUnit;
-    
-    const attackerStrength = this.getEffectiveAttackStrength(attackerUnit);
-    const defenderStrength = this.getEffectiveDefenseStrength(defenderUnit, defenderHasFortress);
-    
-    // Calculate damage ratio
-    const totalStrength = attackerStrength + defenderStrength;
-    const attackerWinChance = attackerStrength / totalStrength;
-    
-    // Determine winner (simplified - in real Civ, multiple rounds occur)
-    const attackerWins = Math.random() < attackerWinChance;
-    
-    let attackerDamage = 0;
-    let defenderDamage = 0;
+  private random: () => number;
+
+  // Pass a seeded random source for reproducible combat
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  // Defense multipliers (Civilization I)
+  public static readonly VETERAN_MULTIPLIER = 1.5;
+  public static readonly FORTIFIED_MULTIPLIER = 1.5;
+  public static readonly FORTRESS_MULTIPLIER = 2;
+  public static readonly CITY_WALLS_MULTIPLIER = 3;
+
+  // Describe the defensive position of a unit from the game state
+  public getDefenseContext(gameState: GameState, defender: Unit): DefenseContext {
+    const tile = gameState.worldMap[defender.position.y]?.[defender.position.x];
+    const city = gameState.cities.find(c =>
+      c.position.x === defender.position.x && c.position.y === defender.position.y
+    );
+
+    const hasWallsBuilding = !!city?.buildings.some(b => BUILDING_DEFINITIONS[b.type]?.effects.triplesCityDefense);
+    const hasGreatWall = !!city && !!getPlayerWonderEffects(gameState, city.playerId).actsAsCityWalls;
+
+    return {
+      terrain: tile?.terrain,
+      hasFortress: tile?.improvements?.some(imp => imp.type === ImprovementType.FORTRESS) || false,
+      inCity: !!city,
+      hasCityWalls: hasWallsBuilding || hasGreatWall
+    };
+  }
+
+  // Get the strengths of both sides and the attacker's chance of winning
+  public getCombatOdds(attacker: Unit, defender: Unit, context: DefenseContext = {}): CombatOdds {
+    const attackStrength = this.getEffectiveAttackStrength(attacker as BaseUnit);
+    const defenseStrength = this.getEffectiveDefenseStrength(defender as BaseUnit, attacker, context);
+    const total = attackStrength + defenseStrength;
+    const roundWinChance = total > 0 ? attackStrength / total : 0;
+
+    // Rounds each side must win to destroy the other
+    const hitsToKillDefender = Math.ceil(defender.health / (this.getFirepower(attacker.type) * ROUND_DAMAGE));
+    const hitsToKillAttacker = Math.ceil(attacker.health / (this.getFirepower(defender.type) * ROUND_DAMAGE));
+
+    return {
+      attackStrength,
+      defenseStrength,
+      roundWinChance,
+      attackerWinChance: this.calculateWinChance(roundWinChance, hitsToKillDefender, hitsToKillAttacker)
+    };
+  }
+
+  // Fight rounds until one unit is destroyed; the loser of each round takes the winner's firepower in damage
+  public resolveCombat(attacker: Unit, defender: Unit, context: DefenseContext = {}): CombatResult {
+    const { roundWinChance } = this.getCombatOdds(attacker, defender, context);
+    const attackerDamage = this.getFirepower(attacker.type) * ROUND_DAMAGE;
+    const defenderDamage = this.getFirepower(defender.type) * ROUND_DAMAGE;
+    const attackerHealth = attacker.health;
+    const defenderHealth = defender.health;
+
+    let rounds = 0;
+    while (attacker.health > 0 && defender.health > 0) {
+      if (this.random() < roundWinChance) {
+        defender.health = Math.max(0, defender.health - attackerDamage);
+      } else {
+        attacker.health = Math.max(0, attacker.health - defenderDamage);
+      }
+      rounds++;
+    }
+
+    // Award experience to the winning attacker
     let experienceGained = 0;
-    
-    if (attackerWins) {
-      // Attacker wins - defender takes heavy damage
-      defenderDamage = Math.floor(50 + (attackerStrength / defenderStrength) * 30);
-      attackerDamage = Math.floor(10 + Math.random() * 20);
+    if (attacker.health > 0) {
       experienceGained = 10;
-    } else {
-      // Defender wins - attacker takes heavy damage
-      attackerDamage = Math.floor(50 + (defenderStrength / attackerStrength) * 30);
-      defenderDamage = Math.floor(10 + Math.random() * 20);
-    }
-    
-    // Apply damage
-    attacker.health = Math.max(0, attacker.health - attackerDamage);
-    defender.health = Math.max(0, defender.health - defenderDamage);
-    
-    // Award experience to survivor
-    if (attacker.health > 0 && attackerWins) {
       attacker.experience += experienceGained;
       this.checkForVeteranStatus(attacker);
     }
-    
+
     return {
       attacker,
       defender,
-      attackerDamage,
-      defenderDamage,
+      attackerDamage: attackerHealth - attacker.health,
+      defenderDamage: defenderHealth - defender.health,
       attackerSurvived: attacker.health > 0,
       defenderSurvived: defender.health > 0,
-      experienceGained
+      experienceGained,
+      rounds
     };
   }
-  
+
+  // Firepower of a unit type, by the era of its required technology
+  public getFirepower(unitType: UnitType): number {
+    const technology = getUnitStats(unitType).requiredTechnology;
+    return technology ? FIREPOWER_BY_ERA[getTechnology(technology).era] : 1;
+  }
+
+  // A defender beaten outside a city or fortress takes every unit on its tile with it
+  public destroysStack(context: DefenseContext): boolean {
+    return !context.inCity && !context.hasFortress;
+  }
+
   // Get effective attack strength considering bonuses
-  private getEffectiveAttackStrength(unit: BaseUnit): number {
+  public getEffectiveAttackStrength(unit: BaseUnit): number {
     const stats = getUnitStats(unit.type);
     let strength = stats.attack;
     
     // Veteran bonus
     if (unit.isVeteran) {
-      strength = Math.floor(strength * 1.5);
+      strength *= CombatSystem.VETERAN_MULTIPLIER;
     }
     
     return strength;
   }
   
-  // Get effective defense strength considering bonuses
-  private getEffectiveDefenseStrength(unit: BaseUnit, hasFortress: boolean = false): number {
+  // Get effective defense strength against an attacker considering bonuses
+  public getEffectiveDefenseStrength(unit: BaseUnit, attacker: Unit, context: DefenseContext = {}): number {
     const stats = getUnitStats(unit.type);
     let strength = stats.defense;
     
     // Veteran bonus
     if (unit.isVeteran) {
-      strength = Math.floor(strength * 1.5);
+      strength *= CombatSystem.VETERAN_MULTIPLIER;
+    }
+    
+    // Terrain bonus: hills +50%, mountains +100%, forest, jungle, swamp and river +25%
+    if (context.terrain) {
+      strength *= TerrainManager.getDefenseMultiplier(context.terrain);
     }
     
-    // Fortification bonus
-    if (unit.fortified) {
-      strength = Math.floor(strength * 1.5);
+    // Units in a city always count as fortified
+    if (unit.fortified || context.inCity) {
+      strength *= CombatSystem.FORTIFIED_MULTIPLIER;
     }
     
     // Fortress bonus - doubles defensive strength
-    if (hasFortress) {
-      strength = Math.floor(strength * 2.0);
+    if (context.hasFortress) {
+      strength *= CombatSystem.FORTRESS_MULTIPLIER;
     }
     
-    // TODO: Add terrain defense bonuses (hills, forests, etc.)
-    // TODO: Add city walls bonus (triple defense for some units)
+    // City walls triple defense, except against siege units and bombers
+    const ignoresWalls = getUnitStats(attacker.type).specialAbilities?.includes('ignore_city_walls');
+    if (context.inCity && context.hasCityWalls && !ignoresWalls) {
+      strength *= CombatSystem.CITY_WALLS_MULTIPLIER;
+    }
     
     return strength;
   }
   
+  // Chance of winning `hitsNeeded` rounds before losing `hitsAllowed` rounds (negative binomial)
+  private calculateWinChance(roundWinChance: number, hitsNeeded: number, hitsAllowed: number): number {
+    if (roundWinChance >= 1) return 1;
+    if (roundWinChance <= 0) return 0;
+
+    let chance = 0;
+    let combinations = 1; // C(hitsNeeded - 1 + losses, losses)
+    for (let losses = 0; losses < hitsAllowed; losses++) {
+      if (losses > 0) {
+        combinations = combinations * (hitsNeeded - 1 + losses) / losses;
+      }
+      chance += combinations * Math.pow(roundWinChance, hitsNeeded) * Math.pow(1 - roundWinChance, losses);
+    }
+    return chance;
+  }
+
   // Check if unit should become veteran
   private checkForVeteranStatus(unit: Unit): void {
     if (unit.experience >= 100 && !unit.isVeteran) {
@@ -112,7 +220,7 @@ export class CombatSystem {
   }
   
   // Check if attack is valid
-  public canAttack(attacker: Unit, defender: Unit): boolean {
+  public canAttack(gameState: GameState, attacker: Unit, defender: Unit): boolean {
     const attackerStats = getUnitStats(attacker.type);
     
     // Only units that can attack may initiate combat
@@ -120,8 +228,8 @@ export class CombatSystem {
       return false;
     }
     
-    // Check if units are adjacent (simplified)
-    const distance = this.calculateDistance(attacker.position, defender.position);
+    // Check if units are adjacent, across the map's east-west edge too
+    const distance = PathFinder.getDistance(gameState, attacker.position, defender.position);
     if (distance > 1) {
       return false;
     }
@@ -136,23 +244,29 @@ export class CombatSystem {
       return false;
     }
     
-    return true;
+    return this.canTarget(attacker, defender);
   }
   
-  // Calculate distance between two positions
-  private calculateDistance(pos1: Position, pos2: Position): number {
-    return Math.abs(pos1.x - pos2.x) + Math.abs(pos1.y - pos2.y);
+  // Bombers can only be engaged by interceptors (fighters)
+  public canTarget(attacker: Unit, defender: Unit): boolean {
+    const defenderAbilities = getUnitStats(defender.type).specialAbilities || [];
+    const attackerAbilities = getUnitStats(attacker.type).specialAbilities || [];
+    if (defenderAbilities.includes('cannot_be_attacked_by_ground') && !attackerAbilities.includes('intercept_bombers')) {
+      return false;
+    }
+    
+    return true;
   }
   
   // Execute attack if valid
-  public executeAttack(attacker: Unit, defender: Unit, defenderHasFortress: boolean = false): CombatResult | null {
-    if (!this.canAttack(attacker, defender)) {
+  public executeAttack(gameState: GameState, attacker: Unit, defender: Unit, context: DefenseContext = {}): CombatResult | null {
+    if (!this.canAttack(gameState, attacker, defender)) {
       return null;
     }
     
     // Attacking uses all remaining movement points
     attacker.movementPoints = 0;
     
-    return this.resolveCombat(attacker, defender, defenderHasFortress);
+    return this.resolveCombat(attacker, defender, context);
   }
 }
@@ -0,0 +1,200 @@
+import type { City, GameState, Player, Unit } from '../types/game';
+import { BuildingType, GamePhase, UnitCategory, UnitType } from '../types/game';
+import { TechnologyType } from './TechnologyDefinitions';
+import { CityGrowthSystem } from './CityGrowthSystem';
+import { getCivilization } from './CivilizationDefinitions';
+import { getUnitStats } from './UnitDefinitions';
+import { TransportSystem } from './TransportSystem';
+
+export interface CityCaptureResult {
+  city: City;
+  previousOwnerId: string;
+  destroyed: boolean; // Size 1 cities are razed instead of captured
+  plunder: number; // Gold taken from the previous owner
+  technology?: TechnologyType; // Technology stolen from the previous owner
+  buildingsDestroyed: BuildingType[];
+  eliminatedPlayerId?: string; // Set if the previous owner lost its last city and settlers
+}
+
+/**
+ * Civilization I conquest rules.
+ * A military land unit that enters an undefended enemy city captures it: the city loses
+ * a citizen, each building may be destroyed, the conqueror plunders a share of the
+ * treasury and may steal a technology. Cities of size 1 are destroyed instead. A player
+ * with no cities and no settlers left is eliminated.
+ */
+export class ConquestSystem {
+  // Chance that each building is destroyed when a city changes hands
+  public static readonly BUILDING_DESTRUCTION_CHANCE = 0.5;
+
+  /**
+   * Check whether a unit may capture a city (military land units only, and the city must be undefended)
+   */
+  public static canCaptureCity(gameState: GameState, unit: Unit, city: City): boolean {
+    if (city.playerId === unit.playerId) return false;
+
+    const stats = getUnitStats(unit.type);
+    if (stats.category !== UnitCategory.LAND || !stats.canAttack) return false;
+
+    return this.getDefenders(gameState, city).length === 0;
+  }
+
+  /**
+   * Get the units standing in a city
+   */
+  public static getDefenders(gameState: GameState, city: City): Unit[] {
+    return gameState.units.filter(u =>
+      u.playerId === city.playerId &&
+      u.position.x === city.position.x &&
+      u.position.y === city.position.y
+    );
+  }
+
+  /**
+   * Capture or destroy a city for the unit's owner, pushing events for the UI
+   */
+  public static captureCity(gameState: GameState, city: City, unit: Unit, random: () => number = Math.random): CityCaptureResult {
+    const conqueror = gameState.players.find(p => p.id === unit.playerId)!;
+    const previousOwner = gameState.players.find(p => p.id === city.playerId);
+    const result: CityCaptureResult = {
+      city,
+      previousOwnerId: city.playerId,
+      destroyed: city.population <= 1,
+      plunder: 0,
+      buildingsDestroyed: []
+    };
+
+    if (previousOwner) {
+      result.plunder = this.calculatePlunder(gameState, previousOwner, city);
+      previousOwner.gold -= result.plunder;
+      conqueror.gold += result.plunder;
+    }
+
+    // Units supported by the city are lost with it, along with any cargo they carry
+    TransportSystem.removeUnits(gameState, gameState.units.filter(u => u.playerId === city.playerId && u.homeCityId === city.id));
+
+    gameState.events = gameState.events || [];
+    if (result.destroyed) {
+      gameState.cities = gameState.cities.filter(c => c.id !== city.id);
+      gameState.events.push({
+        type: 'cityDestroyed',
+        playerId: conqueror.id,
+        player: conqueror,
+        cityId: city.id,
+        targetPlayerId: result.previousOwnerId,
+        message: `${this.getAdjective(conqueror)} forces destroy ${city.name}!`
+      });
+    } else {
+      if (previousOwner) {
+        result.technology = this.stealTechnology(conqueror, previousOwner, random);
+      }
+      result.buildingsDestroyed = this.transferCity(city, conqueror, random);
+      const plunderText = result.plunder > 0 ? ` ${result.plunder} gold plundered.` : '';
+      gameState.events.push({
+        type: 'cityCaptured',
+        playerId: conqueror.id,
+        player: conqueror,
+        cityId: city.id,
+        targetPlayerId: result.previousOwnerId,
+        technologyType: result.technology,
+        message: `${this.getAdjective(conqueror)} forces capture ${city.name}!${plunderText}`
+      });
+    }
+
+    if (previousOwner && this.checkElimination(gameState, previousOwner)) {
+      result.eliminatedPlayerId = previousOwner.id;
+    }
+
+    return result;
+  }
+
+  /**
+   * Gold taken when a city falls: the city's share of its owner's population times the treasury
+   */
+  public static calculatePlunder(gameState: GameState, owner: Player, city: City): number {
+    const totalPopulation = gameState.cities
+      .filter(c => c.playerId === owner.id)
+      .reduce((total, c) => total + c.population, 0);
+    if (totalPopulation <= 0 || owner.gold <= 0) return 0;
+
+    return Math.floor(owner.gold * city.population / totalPopulation);
+  }
+
+  /**
+   * Eliminate a player that has no cities and no settlers left.
+   * Returns true if the player was eliminated.
+   */
+  public static checkElimination(gameState: GameState, player: Player): boolean {
+    if (player.eliminated) return false;
+
+    const hasCities = gameState.cities.some(c => c.playerId === player.id);
+    const hasSettlers = gameState.units.some(u => u.playerId === player.id && u.type === UnitType.SETTLERS);
+    if (hasCities || hasSettlers) return false;
+
+    player.eliminated = true;
+    gameState.units = gameState.units.filter(u => u.playerId !== player.id);
+
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: 'civilizationDestroyed',
+      playerId: player.id,
+      player,
+      message: `The ${this.getAdjective(player)} civilization has been destroyed!`
+    });
+
+    // The game is over once the human player is gone or only one civilization remains
+    const survivors = gameState.players.filter(p => !p.eliminated);
+    if (player.isHuman || survivors.length <= 1) {
+      gameState.gamePhase = GamePhase.ENDED;
+    }
+
+    return true;
+  }
+
+  // Hand the city to its conqueror, shrinking it and destroying some buildings
+  private static transferCity(city: City, conqueror: Player, random: () => number): BuildingType[] {
+    city.playerId = conqueror.id;
+    city.population = Math.max(1, city.population - 1);
+    city.foodStorageCapacity = CityGrowthSystem.calculateFoodStorageCapacity(city.population);
+    city.foodStorage = Math.min(city.foodStorage, city.foodStorageCapacity);
+    city.production = null;
+    city.production_points = 0;
+    city.workedTiles = undefined;
+    city.inDisorder = false;
+
+    const destroyed: BuildingType[] = [];
+    city.buildings = city.buildings.filter(building => {
+      // The palace always falls with the city
+      if (building.type === BuildingType.PALACE || random() < this.BUILDING_DESTRUCTION_CHANCE) {
+        destroyed.push(building.type);
+        return false;
+      }
+      return true;
+    });
+
+    // Keep the name out of the conqueror's pool for new cities
+    if (!conqueror.usedCityNames.includes(city.name)) {
+      conqueror.usedCityNames.push(city.name);
+    }
+
+    return destroyed;
+  }
+
+  // Take one technology the previous owner knows and the conqueror does not
+  private static stealTechnology(conqueror: Player, previousOwner: Player, random: () => number): TechnologyType | undefined {
+    const candidates = previousOwner.technologies.filter(t => !conqueror.technologies.includes(t));
+    if (candidates.length === 0) return undefined;
+
+    const technology = candidates[Math.floor(random() * candidates.length)];
+    conqueror.technologies.push(technology);
+    if (conqueror.currentResearch === technology) {
+      conqueror.currentResearch = undefined;
+      conqueror.currentResearchProgress = 0;
+    }
+    return technology;
+  }
+
+  private static getAdjective(player: Player): string {
+    return getCivilization(player.civilizationType)?.adjective || player.name;
+  }
+}
@@ -0,0 +1,391 @@
+import type { DiplomaticProposal, DiplomaticRelation, GameState, Player } from '../types/game';
+import { DiplomaticState, GOVERNMENTS } from '../types/game';
+import { TechnologyType, getResearchCost, getTechnology } from './TechnologyDefinitions';
+import { getCivilization, AggressionTrait } from './CivilizationDefinitions';
+import { getUnitStats } from './UnitDefinitions';
+
+export interface ProposalResponse {
+  accepted: boolean;
+  forcedBySenate: boolean; // Accepted because the recipient's senate insisted
+  message: string;
+}
+
+// Treaty each state can be raised to by negotiation
+const NEXT_TREATY: Record<DiplomaticState, DiplomaticState | undefined> = {
+  [DiplomaticState.WAR]: DiplomaticState.CEASEFIRE,
+  [DiplomaticState.CEASEFIRE]: DiplomaticState.PEACE,
+  [DiplomaticState.PEACE]: DiplomaticState.ALLIANCE,
+  [DiplomaticState.ALLIANCE]: undefined
+};
+
+const STATE_NAMES: Record<DiplomaticState, string> = {
+  [DiplomaticState.WAR]: 'war',
+  [DiplomaticState.CEASEFIRE]: 'a ceasefire',
+  [DiplomaticState.PEACE]: 'peace',
+  [DiplomaticState.ALLIANCE]: 'an alliance'
+};
+
+// Strength ratio over its enemy beyond which a computer player will not stop fighting for nothing
+const PEACE_STRENGTH_RATIOS: Record<AggressionTrait, number> = {
+  [AggressionTrait.FRIENDLY]: 2,
+  [AggressionTrait.NORMAL]: 1.5,
+  [AggressionTrait.AGGRESSIVE]: 1
+};
+
+// Chances each turn of a computer player making an offer or demand
+const PROPOSAL_CHANCES: Record<AggressionTrait, { tribute: number, ceasefire: number, peace: number }> = {
+  [AggressionTrait.FRIENDLY]: { tribute: 0, ceasefire: 0.2, peace: 0.3 },
+  [AggressionTrait.NORMAL]: { tribute: 0.05, ceasefire: 0.1, peace: 0.2 },
+  [AggressionTrait.AGGRESSIVE]: { tribute: 0.1, ceasefire: 0.05, peace: 0.1 }
+};
+
+/**
+ * Relations between civilizations (Civilization I).
+ * Every pair of players is at war until they negotiate a ceasefire, which lapses back into war
+ * after sixteen turns unless a peace treaty follows; peace may grow into an alliance. A parley
+ * trades gold and technologies alongside a treaty, or demands tribute. Under the Republic and
+ * Democracy the senate accepts every ceasefire or peace offer and forbids attacks that would
+ * break a treaty; other governments may break treaties by attacking, which declares war.
+ */
+export class DiplomacySystem {
+  public static readonly CEASEFIRE_TURNS = 16;
+  // Strength ratio at which an AI gives in to a tribute demand
+  private static readonly TRIBUTE_STRENGTH_RATIO = 1.5;
+
+  /**
+   * Get the relation between two players; players who never negotiated are at war
+   */
+  public static getRelation(gameState: GameState, playerId: string, otherId: string): DiplomaticRelation {
+    return gameState.diplomacy?.[this.getKey(playerId, otherId)] || { state: DiplomaticState.WAR, sinceTurn: 0 };
+  }
+
+  public static getState(gameState: GameState, playerId: string, otherId: string): DiplomaticState {
+    return this.getRelation(gameState, playerId, otherId).state;
+  }
+
+  public static isAtWar(gameState: GameState, playerId: string, otherId: string): boolean {
+    return playerId !== otherId && this.getState(gameState, playerId, otherId) === DiplomaticState.WAR;
+  }
+
+  /**
+   * Get the treaty two players could sign next, if any
+   */
+  public static getNextTreaty(gameState: GameState, playerId: string, otherId: string): DiplomaticState | undefined {
+    return NEXT_TREATY[this.getState(gameState, playerId, otherId)];
+  }
+
+  /**
+   * Why a player may not attack another, if they may not: a senate forbids breaking a treaty
+   */
+  public static getAttackBlocker(gameState: GameState, playerId: string, targetId: string): string | undefined {
+    if (this.isAtWar(gameState, playerId, targetId)) return undefined;
+
+    const player = this.getPlayer(gameState, playerId);
+    if (player && GOVERNMENTS[player.government]?.restrictions.senateOverride) {
+      const state = this.getState(gameState, playerId, targetId);
+      return `The Senate forbids breaking ${STATE_NAMES[state]} with the ${this.getAdjective(this.getPlayer(gameState, targetId))}.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Declare war, breaking any treaty. Fails if the player's senate forbids it.
+   */
+  public static declareWar(gameState: GameState, playerId: string, targetId: string): boolean {
+    if (playerId === targetId) return false;
+    if (this.isAtWar(gameState, playerId, targetId)) return true;
+    if (this.getAttackBlocker(gameState, playerId, targetId)) return false;
+
+    const player = this.getPlayer(gameState, playerId);
+    const target = this.getPlayer(gameState, targetId);
+    this.setState(gameState, playerId, targetId, DiplomaticState.WAR);
+    this.pushEvent(gameState, playerId, targetId,
+      `The ${this.getAdjective(player)} declare war on the ${this.getAdjective(target)}!`);
+    return true;
+  }
+
+  /**
+   * Why a proposal cannot be carried out, if it cannot
+   */
+  public static validateProposal(gameState: GameState, proposal: DiplomaticProposal): string | undefined {
+    const from = this.getPlayer(gameState, proposal.fromPlayerId);
+    const to = this.getPlayer(gameState, proposal.toPlayerId);
+    if (!from || !to || from.id === to.id || from.eliminated || to.eliminated) return 'No one to negotiate with';
+
+    if (proposal.treaty && proposal.treaty !== this.getNextTreaty(gameState, from.id, to.id)) {
+      return `Cannot agree to ${STATE_NAMES[proposal.treaty]} now`;
+    }
+    if ((proposal.offerGold || 0) < 0 || (proposal.requestGold || 0) < 0) return 'Gold cannot be negative';
+    if ((proposal.offerGold || 0) > from.gold) return `The ${this.getAdjective(from)} do not have that much gold`;
+    if ((proposal.requestGold || 0) > to.gold) return `The ${this.getAdjective(to)} do not have that much gold`;
+    if (!this.canGiveTechnologies(from, to, proposal.offerTechnologies)) return 'Technology offered is not available';
+    if (!this.canGiveTechnologies(to, from, proposal.requestTechnologies)) return 'Technology requested is not available';
+    if (!proposal.treaty && !this.hasTrade(proposal)) return 'Nothing proposed';
+    return undefined;
+  }
+
+  /**
+   * Whether the recipient's senate will accept a proposal regardless of its wishes:
+   * a plain offer of ceasefire or peace to a Republic or Democracy
+   */
+  public static isForcedBySenate(gameState: GameState, proposal: DiplomaticProposal): boolean {
+    const recipient = this.getPlayer(gameState, proposal.toPlayerId);
+    if (!recipient || !GOVERNMENTS[recipient.government]?.restrictions.peaceOffers) return false;
+
+    const peaceTreaty = proposal.treaty === DiplomaticState.CEASEFIRE || proposal.treaty === DiplomaticState.PEACE;
+    return peaceTreaty && !proposal.requestGold && !proposal.requestTechnologies?.length;
+  }
+
+  /**
+   * Whether a proposal is a demand for tribute: something requested, nothing given in return
+   */
+  public static isTributeDemand(proposal: DiplomaticProposal): boolean {
+    const requests = (proposal.requestGold || 0) > 0 || !!proposal.requestTechnologies?.length;
+    const offers = (proposal.offerGold || 0) > 0 || !!proposal.offerTechnologies?.length || !!proposal.treaty;
+    return requests && !offers;
+  }
+
+  /**
+   * Decide whether a computer player accepts a proposal. Gold counts at face value and
+   * technologies at their research cost; a treaty is only welcome if the recipient is not
+   * winning the war by more than its leader's aggression allows, an alliance needs a common
+   * enemy, and tribute is paid only to a much stronger civilization.
+   */
+  public static evaluateProposal(gameState: GameState, proposal: DiplomaticProposal): boolean {
+    if (this.validateProposal(gameState, proposal)) return false;
+    if (this.isForcedBySenate(gameState, proposal)) return true;
+
+    // How much stronger the proposer is than the recipient
+    const ratio = this.getMilitaryStrength(gameState, proposal.fromPlayerId) /
+      Math.max(1, this.getMilitaryStrength(gameState, proposal.toPlayerId));
+
+    if (this.isTributeDemand(proposal)) {
+      return ratio >= this.TRIBUTE_STRENGTH_RATIO;
+    }
+
+    const value = (proposal.offerGold || 0) + this.getTechnologiesValue(proposal.offerTechnologies)
+      - (proposal.requestGold || 0) - this.getTechnologiesValue(proposal.requestTechnologies);
+
+    if (proposal.treaty === DiplomaticState.ALLIANCE && !this.hasCommonEnemy(gameState, proposal.fromPlayerId, proposal.toPlayerId)) {
+      return false;
+    }
+    if (proposal.treaty && ratio < 1 / PEACE_STRENGTH_RATIOS[this.getAggression(gameState, proposal.toPlayerId)]) {
+      // Winning the war: only a price worth the recipient's while buys a treaty
+      return value >= this.getTreatyPrice(gameState, proposal.toPlayerId);
+    }
+    return value >= 0;
+  }
+
+  /**
+   * Carry out an accepted proposal: exchange gold and technologies and sign the treaty
+   */
+  public static executeProposal(gameState: GameState, proposal: DiplomaticProposal): string {
+    const from = this.getPlayer(gameState, proposal.fromPlayerId)!;
+    const to = this.getPlayer(gameState, proposal.toPlayerId)!;
+
+    this.transfer(from, to, proposal.offerGold || 0, proposal.offerTechnologies || []);
+    this.transfer(to, from, proposal.requestGold || 0, proposal.requestTechnologies || []);
+
+    const parts: string[] = [];
+    if (proposal.treaty) {
+      this.setState(gameState, from.id, to.id, proposal.treaty);
+      parts.push(`The ${this.getAdjective(from)} and the ${this.getAdjective(to)} agree to ${STATE_NAMES[proposal.treaty]}.`);
+    }
+    const exchanges = [
+      ...this.describeTransfer(from, to, proposal.offerGold, proposal.offerTechnologies),
+      ...this.describeTransfer(to, from, proposal.requestGold, proposal.requestTechnologies)
+    ];
+    parts.push(...exchanges);
+
+    const message = parts.join(' ');
+    this.pushEvent(gameState, from.id, to.id, message);
+    return message;
+  }
+
+  /**
+   * Put a proposal to its recipient, who decides with evaluateProposal, and carry it out if accepted
+   */
+  public static negotiate(gameState: GameState, proposal: DiplomaticProposal): ProposalResponse {
+    const invalid = this.validateProposal(gameState, proposal);
+    if (invalid) {
+      return { accepted: false, forcedBySenate: false, message: invalid };
+    }
+
+    const forcedBySenate = this.isForcedBySenate(gameState, proposal);
+    if (!this.evaluateProposal(gameState, proposal)) {
+      const recipient = this.getPlayer(gameState, proposal.toPlayerId);
+      return { accepted: false, forcedBySenate, message: `The ${this.getAdjective(recipient)} reject our proposal.` };
+    }
+
+    const message = this.executeProposal(gameState, proposal);
+    return { accepted: true, forcedBySenate, message };
+  }
+
+  /**
+   * Proposals a computer player puts to its rivals this turn: offers of ceasefire when losing
+   * a war, peace after a ceasefire, and tribute demands against much weaker civilizations.
+   * Friendly leaders seek peace sooner and never demand tribute; aggressive ones the reverse.
+   */
+  public static getAIProposals(gameState: GameState, playerId: string, random: () => number = Math.random): DiplomaticProposal[] {
+    const player = this.getPlayer(gameState, playerId);
+    if (!player || player.eliminated) return [];
+
+    const strength = this.getMilitaryStrength(gameState, playerId);
+    const aggression = this.getAggression(gameState, playerId);
+    const chances = PROPOSAL_CHANCES[aggression];
+    const peaceRatio = PEACE_STRENGTH_RATIOS[aggression];
+    const proposals: DiplomaticProposal[] = [];
+
+    gameState.players
+      .filter(rival => rival.id !== playerId && !rival.eliminated)
+      .forEach(rival => {
+        const state = this.getState(gameState, playerId, rival.id);
+        const ratio = strength / Math.max(1, this.getMilitaryStrength(gameState, rival.id));
+
+        if (state !== DiplomaticState.ALLIANCE && ratio >= this.TRIBUTE_STRENGTH_RATIO * 2 && rival.gold >= 50 && random() < chances.tribute) {
+          proposals.push({ fromPlayerId: playerId, toPlayerId: rival.id, requestGold: Math.floor(rival.gold / 4 / 10) * 10 });
+        } else if (state === DiplomaticState.WAR && ratio < peaceRatio / 1.5 && random() < chances.ceasefire) {
+          proposals.push({ fromPlayerId: playerId, toPlayerId: rival.id, treaty: DiplomaticState.CEASEFIRE });
+        } else if (state === DiplomaticState.CEASEFIRE && ratio < peaceRatio && random() < chances.peace) {
+          proposals.push({ fromPlayerId: playerId, toPlayerId: rival.id, treaty: DiplomaticState.PEACE });
+        }
+      });
+
+    return proposals;
+  }
+
+  /**
+   * Describe a proposal from its recipient's point of view
+   */
+  public static describeProposal(gameState: GameState, proposal: DiplomaticProposal): string {
+    const from = this.getAdjective(this.getPlayer(gameState, proposal.fromPlayerId));
+    const offers = this.listItems(proposal.offerGold, proposal.offerTechnologies);
+    const requests = this.listItems(proposal.requestGold, proposal.requestTechnologies);
+
+    if (this.isTributeDemand(proposal)) {
+      return `The ${from} demand ${requests} in tribute. Refuse, and there will be war!`;
+    }
+
+    const parts: string[] = [];
+    parts.push(proposal.treaty ? `The ${from} propose ${STATE_NAMES[proposal.treaty]}.` : `The ${from} propose an exchange.`);
+    if (offers) parts.push(`They offer ${offers}.`);
+    if (requests) parts.push(`They ask for ${requests}.`);
+    return parts.join(' ');
+  }
+
+  /**
+   * Lapse expired ceasefires back into war; called once per game turn
+   */
+  public static processTurn(gameState: GameState): void {
+    Object.entries(gameState.diplomacy || {}).forEach(([key, relation]) => {
+      if (relation.state !== DiplomaticState.CEASEFIRE || relation.expiresTurn === undefined) return;
+      if (gameState.turn < relation.expiresTurn) return;
+
+      const [playerId, otherId] = key.split('|');
+      this.setState(gameState, playerId, otherId, DiplomaticState.WAR);
+      this.pushEvent(gameState, playerId, otherId,
+        `The ceasefire between the ${this.getAdjective(this.getPlayer(gameState, playerId))} and the ` +
+        `${this.getAdjective(this.getPlayer(gameState, otherId))} has expired. They are at war again!`);
+    });
+  }
+
+  /**
+   * Rough military strength: attack plus defense of every unit able to fight
+   */
+  public static getMilitaryStrength(gameState: GameState, playerId: string): number {
+    return gameState.units
+      .filter(unit => unit.playerId === playerId)
+      .reduce((total, unit) => {
+        const stats = getUnitStats(unit.type);
+        return stats.canAttack ? total + stats.attack + stats.defense : total;
+      }, 0);
+  }
+
+  private static setState(gameState: GameState, playerId: string, otherId: string, state: DiplomaticState): void {
+    gameState.diplomacy = gameState.diplomacy || {};
+    gameState.diplomacy[this.getKey(playerId, otherId)] = {
+      state,
+      sinceTurn: gameState.turn,
+      expiresTurn: state === DiplomaticState.CEASEFIRE ? gameState.turn + this.CEASEFIRE_TURNS : undefined
+    };
+  }
+
+  private static getKey(playerId: string, otherId: string): string {
+    return [playerId, otherId].sort().join('|');
+  }
+
+  private static hasTrade(proposal: DiplomaticProposal): boolean {
+    return (proposal.offerGold || 0) > 0 || (proposal.requestGold || 0) > 0 ||
+      !!proposal.offerTechnologies?.length || !!proposal.requestTechnologies?.length;
+  }
+
+  private static canGiveTechnologies(giver: Player, receiver: Player, technologies?: TechnologyType[]): boolean {
+    return (technologies || []).every(t => giver.technologies.includes(t) && !receiver.technologies.includes(t));
+  }
+
+  private static getTechnologiesValue(technologies?: TechnologyType[]): number {
+    return (technologies || []).reduce((total, t) => total + getResearchCost(t), 0);
+  }
+
+  // What a civilization winning a war wants before agreeing to stop: a quarter of its own treasury, at least 50 gold
+  private static getTreatyPrice(gameState: GameState, playerId: string): number {
+    return Math.max(50, Math.floor((this.getPlayer(gameState, playerId)?.gold || 0) / 4));
+  }
+
+  private static hasCommonEnemy(gameState: GameState, playerId: string, otherId: string): boolean {
+    return gameState.players.some(p =>
+      p.id !== playerId && p.id !== otherId && !p.eliminated &&
+      this.isAtWar(gameState, playerId, p.id) && this.isAtWar(gameState, otherId, p.id)
+    );
+  }
+
+  private static transfer(giver: Player, receiver: Player, gold: number, technologies: TechnologyType[]): void {
+    giver.gold -= gold;
+    receiver.gold += gold;
+    technologies.forEach(t => {
+      receiver.technologies.push(t);
+      if (receiver.currentResearch === t) {
+        receiver.currentResearch = undefined;
+        receiver.currentResearchProgress = 0;
+      }
+    });
+  }
+
+  private static describeTransfer(giver: Player, receiver: Player, gold?: number, technologies?: TechnologyType[]): string[] {
+    const items = this.listItems(gold, technologies);
+    if (!items) return [];
+    return [`The ${this.getAdjective(giver)} give the ${this.getAdjective(receiver)} ${items}.`];
+  }
+
+  private static listItems(gold?: number, technologies?: TechnologyType[]): string {
+    return [
+      ...(gold ? [`${gold} gold`] : []),
+      ...(technologies || []).map(t => getTechnology(t).name)
+    ].join(', ');
+  }
+
+  private static pushEvent(gameState: GameState, playerId: string, targetPlayerId: string, message: string): void {
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: 'diplomaticAction',
+      playerId,
+      player: this.getPlayer(gameState, playerId),
+      targetPlayerId,
+      message
+    });
+  }
+
+  private static getPlayer(gameState: GameState, playerId: string): Player | undefined {
+    return gameState.players.find(p => p.id === playerId);
+  }
+
+  private static getAggression(gameState: GameState, playerId: string): AggressionTrait {
+    const player = this.getPlayer(gameState, playerId);
+    return (player && getCivilization(player.civilizationType)?.personality.aggression) || AggressionTrait.NORMAL;
+  }
+
+  private static getAdjective(player?: Player): string {
+    if (!player) return 'unknown';
+    return getCivilization(player.civilizationType)?.adjective || player.name;
+  }
+}
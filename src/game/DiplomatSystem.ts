@@ -0,0 +1,316 @@
+import type { City, GameState, Player, Unit } from '../types/game';
+import { BuildingType, DiplomatAction } from '../types/game';
+import { TechnologyType, getTechnology } from './TechnologyDefinitions';
+import { ConquestSystem } from './ConquestSystem';
+import { getCivilization } from './CivilizationDefinitions';
+import { getUnitStats, getUnitName } from './UnitDefinitions';
+import { BUILDING_DEFINITIONS } from './BuildingDefinitions';
+import { PathFinder } from './PathFinder';
+
+export interface DiplomatActionOption {
+  action: DiplomatAction;
+  cost: number; // Gold needed, 0 for free actions
+  available: boolean;
+  reason?: string; // Why the action cannot be taken
+}
+
+export interface DiplomatActionResult {
+  action: DiplomatAction;
+  success: boolean;
+  message: string;
+  goldSpent: number;
+  technology?: TechnologyType; // Technology stolen
+  buildingDestroyed?: BuildingType; // Building sabotaged
+  productionDestroyed?: number; // Shields sabotaged
+  city?: City;
+  unit?: Unit; // Unit bribed
+  eliminatedPlayerId?: string; // Set if an incited city was its owner's last
+}
+
+/**
+ * Civilization I diplomat missions.
+ * A diplomat entering a foreign city may establish an embassy, steal a technology, sabotage
+ * production or a building, or incite the city to revolt; entering a lone foreign unit may
+ * bribe it. Inciting and bribing cost gold, cheaper the further the target is from its
+ * owner's capital. Every mission uses up the diplomat.
+ */
+export class DiplomatSystem {
+  // Distance assumed for players without a capital
+  private static readonly NO_CAPITAL_DISTANCE = 32;
+
+  /**
+   * Get the missions a diplomat may attempt against a foreign city
+   */
+  public static getCityActions(gameState: GameState, diplomat: Unit, city: City): DiplomatActionOption[] {
+    const player = this.getPlayer(gameState, diplomat.playerId);
+    const owner = this.getPlayer(gameState, city.playerId);
+    const options: DiplomatActionOption[] = [];
+
+    const embassy = !!player?.embassies?.includes(city.playerId);
+    options.push({
+      action: DiplomatAction.ESTABLISH_EMBASSY,
+      cost: 0,
+      available: !embassy,
+      reason: embassy ? 'Embassy already established' : undefined
+    });
+
+    const alreadyStolen = !!city.technologyStolenBy?.includes(diplomat.playerId);
+    const nothingToSteal = !!player && !!owner && this.getStealableTechnologies(player, owner).length === 0;
+    options.push({
+      action: DiplomatAction.STEAL_TECHNOLOGY,
+      cost: 0,
+      available: !alreadyStolen && !nothingToSteal,
+      reason: alreadyStolen ? 'Already stolen from this city' : nothingToSteal ? 'No technology to steal' : undefined
+    });
+
+    const targets = this.getSabotageTargets(city);
+    options.push({
+      action: DiplomatAction.SABOTAGE,
+      cost: 0,
+      available: targets.length > 0,
+      reason: targets.length === 0 ? 'Nothing to sabotage' : undefined
+    });
+
+    const isCapital = this.getCapital(gameState, city.playerId)?.id === city.id;
+    const cost = this.getIncitementCost(gameState, city);
+    options.push({
+      action: DiplomatAction.INCITE_REVOLT,
+      cost,
+      available: !isCapital && !!player && player.gold >= cost,
+      reason: isCapital ? 'Capital cannot be incited' : player && player.gold < cost ? 'Not enough gold' : undefined
+    });
+
+    return options.filter(option => this.hasAbility(diplomat, option.action));
+  }
+
+  /**
+   * Get the missions a diplomat may attempt against a foreign unit
+   */
+  public static getUnitActions(gameState: GameState, diplomat: Unit, target: Unit): DiplomatActionOption[] {
+    if (!this.hasAbility(diplomat, DiplomatAction.BRIBE_UNIT)) return [];
+
+    const player = this.getPlayer(gameState, diplomat.playerId);
+    const alone = gameState.units.filter(u =>
+      u.position.x === target.position.x && u.position.y === target.position.y
+    ).length === 1;
+    const inCity = gameState.cities.some(c =>
+      c.position.x === target.position.x && c.position.y === target.position.y
+    );
+    const cost = this.getBribeCost(gameState, target);
+
+    let reason: string | undefined;
+    if (inCity) reason = 'Units in cities cannot be bribed';
+    else if (!alone) reason = 'Only lone units can be bribed';
+    else if (!player || player.gold < cost) reason = 'Not enough gold';
+
+    return [{ action: DiplomatAction.BRIBE_UNIT, cost, available: !reason, reason }];
+  }
+
+  /**
+   * Cost to incite a city to revolt (Civilization I):
+   * (owner's treasury + 1000) / (distance to capital + 3) x city size, halved in disorder
+   */
+  public static getIncitementCost(gameState: GameState, city: City): number {
+    const owner = this.getPlayer(gameState, city.playerId);
+    const distance = this.getDistanceToCapital(gameState, city.playerId, city);
+    let cost = ((owner?.gold || 0) + 1000) / (distance + 3) * city.population;
+    if (city.inDisorder) {
+      cost /= 2;
+    }
+    return Math.floor(cost);
+  }
+
+  /**
+   * Cost to bribe a unit: (owner's treasury + 1000) / (distance to capital + 2) x production cost / 10
+   */
+  public static getBribeCost(gameState: GameState, unit: Unit): number {
+    const owner = this.getPlayer(gameState, unit.playerId);
+    const distance = this.getDistanceToCapital(gameState, unit.playerId, unit);
+    return Math.floor(((owner?.gold || 0) + 1000) / (distance + 2) * getUnitStats(unit.type).productionCost / 10);
+  }
+
+  /**
+   * Get a player's capital: the city with the Palace, or their first city
+   */
+  public static getCapital(gameState: GameState, playerId: string): City | undefined {
+    const cities = gameState.cities.filter(c => c.playerId === playerId);
+    return cities.find(c => c.buildings.some(b => b.type === BuildingType.PALACE)) || cities[0];
+  }
+
+  /**
+   * Carry out a mission against a city. The diplomat is used up.
+   */
+  public static performCityAction(
+    gameState: GameState,
+    diplomat: Unit,
+    city: City,
+    action: DiplomatAction,
+    random: () => number = Math.random
+  ): DiplomatActionResult {
+    const option = this.getCityActions(gameState, diplomat, city).find(o => o.action === action);
+    if (!option || !option.available) {
+      return { action, success: false, goldSpent: 0, city, message: option?.reason || 'The diplomat cannot do that.' };
+    }
+
+    const player = this.getPlayer(gameState, diplomat.playerId)!;
+    const owner = this.getPlayer(gameState, city.playerId);
+    const ownerId = city.playerId;
+    const result: DiplomatActionResult = { action, success: true, goldSpent: 0, city, message: '' };
+
+    switch (action) {
+      case DiplomatAction.ESTABLISH_EMBASSY:
+        player.embassies = [...(player.embassies || []), city.playerId];
+        result.message = `Embassy established with the ${this.getAdjective(owner)} in ${city.name}.`;
+        break;
+
+      case DiplomatAction.STEAL_TECHNOLOGY: {
+        const candidates = owner ? this.getStealableTechnologies(player, owner) : [];
+        const technology = candidates[Math.floor(random() * candidates.length)];
+        player.technologies.push(technology);
+        if (player.currentResearch === technology) {
+          player.currentResearch = undefined;
+          player.currentResearchProgress = 0;
+        }
+        city.technologyStolenBy = [...(city.technologyStolenBy || []), player.id];
+        result.technology = technology;
+        result.message = `Diplomat steals the secret of ${getTechnology(technology).name} from ${city.name}!`;
+        break;
+      }
+
+      case DiplomatAction.SABOTAGE: {
+        const targets = this.getSabotageTargets(city);
+        const target = targets[Math.floor(random() * targets.length)];
+        if (target === 'production') {
+          result.productionDestroyed = city.production_points;
+          city.production_points = 0;
+          result.message = `Diplomat sabotages production in ${city.name}!`;
+        } else {
+          city.buildings = city.buildings.filter(b => b.type !== target);
+          result.buildingDestroyed = target;
+          result.message = `Diplomat destroys the ${BUILDING_DEFINITIONS[target]?.name || target} in ${city.name}!`;
+        }
+        break;
+      }
+
+      case DiplomatAction.INCITE_REVOLT:
+        result.goldSpent = option.cost;
+        player.gold -= option.cost;
+        this.transferCity(gameState, city, player);
+        result.message = `${city.name} revolts and joins the ${this.getAdjective(player)}!`;
+        if (owner && ConquestSystem.checkElimination(gameState, owner)) {
+          result.eliminatedPlayerId = owner.id;
+        }
+        break;
+    }
+
+    this.finishMission(gameState, diplomat, result, ownerId);
+    return result;
+  }
+
+  /**
+   * Bribe a lone foreign unit to join the diplomat's owner. The diplomat is used up.
+   */
+  public static bribeUnit(gameState: GameState, diplomat: Unit, target: Unit): DiplomatActionResult {
+    const action = DiplomatAction.BRIBE_UNIT;
+    const option = this.getUnitActions(gameState, diplomat, target)[0];
+    if (!option || !option.available) {
+      return { action, success: false, goldSpent: 0, unit: target, message: option?.reason || 'The diplomat cannot do that.' };
+    }
+
+    const player = this.getPlayer(gameState, diplomat.playerId)!;
+    const previousOwnerId = target.playerId;
+    player.gold -= option.cost;
+    target.playerId = player.id;
+    target.homeCityId = undefined;
+    target.gotoTarget = undefined;
+    target.gotoPath = undefined;
+    target.fortified = false;
+    target.fortifying = false;
+
+    const result: DiplomatActionResult = {
+      action,
+      success: true,
+      goldSpent: option.cost,
+      unit: target,
+      message: `Diplomat bribes the ${getUnitName(target.type)} for ${option.cost} gold!`
+    };
+    this.finishMission(gameState, diplomat, result, previousOwnerId);
+    return result;
+  }
+
+  // Use up the diplomat and report the mission
+  private static finishMission(gameState: GameState, diplomat: Unit, result: DiplomatActionResult, targetPlayerId?: string): void {
+    gameState.units = gameState.units.filter(u => u.id !== diplomat.id);
+
+    const player = this.getPlayer(gameState, diplomat.playerId);
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: 'diplomatAction',
+      playerId: diplomat.playerId,
+      player,
+      targetPlayerId,
+      cityId: result.city?.id,
+      technologyType: result.technology,
+      buildingType: result.buildingDestroyed,
+      message: result.message
+    });
+  }
+
+  // Hand an incited city, with the units inside and those it supports, to the diplomat's owner
+  private static transferCity(gameState: GameState, city: City, player: Player): void {
+    const previousOwnerId = city.playerId;
+    gameState.units
+      .filter(u => u.playerId === previousOwnerId && (
+        u.homeCityId === city.id || (u.position.x === city.position.x && u.position.y === city.position.y)
+      ))
+      .forEach(u => {
+        u.playerId = player.id;
+        u.homeCityId = city.id;
+        u.gotoTarget = undefined;
+        u.gotoPath = undefined;
+      });
+
+    city.playerId = player.id;
+    city.buildings = city.buildings.filter(b => b.type !== BuildingType.PALACE);
+    city.production = null;
+    city.workedTiles = undefined;
+    city.inDisorder = false;
+    if (!player.usedCityNames.includes(city.name)) {
+      player.usedCityNames.push(city.name);
+    }
+  }
+
+  private static getStealableTechnologies(player: Player, owner: Player): TechnologyType[] {
+    return owner.technologies.filter(t => !player.technologies.includes(t));
+  }
+
+  // Current production or any building except the Palace
+  private static getSabotageTargets(city: City): Array<BuildingType | 'production'> {
+    const targets: Array<BuildingType | 'production'> = city.buildings
+      .filter(b => b.type !== BuildingType.PALACE)
+      .map(b => b.type);
+    if (city.production_points > 0) {
+      targets.unshift('production');
+    }
+    return targets;
+  }
+
+  private static getDistanceToCapital(gameState: GameState, playerId: string, target: City | Unit): number {
+    const capital = this.getCapital(gameState, playerId);
+    if (!capital) return this.NO_CAPITAL_DISTANCE;
+    return PathFinder.getDistance(gameState, capital.position, target.position);
+  }
+
+  private static hasAbility(diplomat: Unit, action: DiplomatAction): boolean {
+    return !!getUnitStats(diplomat.type).specialAbilities?.includes(action);
+  }
+
+  private static getPlayer(gameState: GameState, playerId: string): Player | undefined {
+    return gameState.players.find(p => p.id === playerId);
+  }
+
+  private static getAdjective(player?: Player): string {
+    if (!player) return 'unknown';
+    return getCivilization(player.civilizationType)?.adjective || player.name;
+  }
+}
@@ -1,9 +1,9 @@
-import { GamePhase, GameState, Player, Position, Unit, City, GovernmentType, GOVERNMENTS, GovernmentEffects, MapScenario, UnitType, TechnologyType, UnitCategory, TerrainType, ImprovementType } from '../types/game';
+import { DifficultyLevel, GamePhase, GameState, Player, Position, Unit, City, GovernmentType, GOVERNMENTS, GovernmentEffects, MapScenario, UnitType, TechnologyType, UnitCategory, TerrainType, ImprovementType, DiplomatAction, CaravanAction, DiplomaticProposal } from '../types/game';
 import { MapGenerator } from './MapGenerator';
 import { TurnManager } from './TurnManager';
-import { createUnit } from './Units';
+import { createUnit, BaseUnit } from './Units';
 import { getUnitStats, canUnitSleep } from './UnitDefinitions';
-import { CombatSystem, CombatResult } from './CombatSystem';
+import { CombatSystem, CombatResult, CombatOdds } from './CombatSystem';
 import { getTechnology, canResearch, getResearchCost } from './TechnologyDefinitions';
 import { TerrainManager } from '../terrain/index';
 import { CIVILIZATION_DEFINITIONS, CivilizationType, getAllCivilizations, getCivilization, Civilization } from './CivilizationDefinitions';
@@ -11,9 +11,27 @@ import { AIPlayer } from './AIPlayer';
 import { SoundEffects } from '../utils/SoundEffects';
 import { ProductionManager } from './ProductionManager';
 import { CityGrowthSystem } from './CityGrowthSystem';
+import { CityEconomy, TaxRates } from './CityEconomy';
+import { GameSerializer } from './GameSerializer';
+import { SettingsManager } from '../utils/SettingsManager';
+import { AutosaveManager } from '../utils/AutosaveManager';
+import { VisibilitySystem } from './VisibilitySystem';
+import { PathFinder } from './PathFinder';
+import { TransportSystem } from './TransportSystem';
+import { ConquestSystem } from './ConquestSystem';
+import { DiplomatSystem, DiplomatActionResult } from './DiplomatSystem';
+import { TradeRouteSystem, CaravanActionResult } from './TradeRouteSystem';
+import { DiplomacySystem, ProposalResponse } from './DiplomacySystem';
+import { getAvailableWonders, getPlayerWonderEffects } from './WonderDefinitions';
+
+export interface GameOptions {
+  // Play without a browser: every civilization is computer-controlled and nothing is animated
+  headless?: boolean;
+}
 
 export class Game {
   private gameState: GameState;
+  private readonly headless: boolean;
   private mapGenerator: MapGenerator;
   private turnManager: TurnManager;
   private combatSystem: CombatSystem;
@@ -23,8 +41,10 @@ export class Game {
   private unitQueue: Unit[] = [];
   private currentUnitIndex: number = 0;
   private blinkIntervalId: number | null = null;
+  private pendingMoveAtRisk: { unitId: string; position: Position } | null = null; // Move warned about, awaiting a repeat
 
-  constructor() {
+  constructor(options: GameOptions = {}) {
+    this.headless = options.headless ?? false;
     this.mapGenerator = new MapGenerator();
     this.turnManager = new TurnManager();
     this.combatSystem = new CombatSystem();
@@ -38,7 +58,8 @@ export class Game {
       units: [],
       cities: [],
       gamePhase: GamePhase.SETUP,
-      score: 0
+      score: 0,
+      difficulty: DifficultyLevel.PRINCE
     };
   }
 
@@ -54,6 +75,9 @@ export class Game {
     // Place initial units and cities for each player
     this.placeInitialUnits();
 
+    // Reveal the starting surroundings of every player
+    VisibilitySystem.updateAllVisibility(this.gameState);
+
     // Set game phase to playing
     this.gameState.gamePhase = GamePhase.PLAYING;
 
@@ -83,13 +107,16 @@ export class Game {
         name,
         civilizationType: civilization.id,
         color: civilization.color,
-        isHuman: index === 0, // First player is human, others are AI
+        isHuman: !this.headless && index === 0, // First player is human, others are AI
         science: 0, // Start with 0 science points - accumulate each turn
         gold: 50,
         culture: 0,
         technologies: [], // Start with no technologies - can research basic ones
         currentResearchProgress: 0, // Start with 0 progress toward any research
         government: GovernmentType.DESPOTISM, // Start with Despotism
+        taxRate: CityEconomy.DEFAULT_TAX_RATES.tax,
+        luxuryRate: CityEconomy.DEFAULT_TAX_RATES.luxury,
+        scienceRate: CityEconomy.DEFAULT_TAX_RATES.science,
         usedCityNames: [] // Initialize empty array for tracking used city names
       };
     });
@@ -200,10 +227,16 @@ export class Game {
     return TerrainManager.isPassable(terrainType) && TerrainManager.canFoundCity(terrainType);
   }
 
-  // Game turn management
-  public async endTurn(): Promise<void> {
+  // Game turn management; triremes left on the high seas with moves to spare ask for confirmation first
+  public async endTurn(confirmed: boolean = false): Promise<void> {
     if (this.gameState.gamePhase !== GamePhase.PLAYING) return;
 
+    const unitsAtRisk = this.getUnitsAtRiskAtSea();
+    if (!confirmed && unitsAtRisk.length > 0) {
+      this.emit('endTurnAtRisk', { units: unitsAtRisk });
+      return;
+    }
+
     // Clear current unit selection and stop blinking
     this.clearCurrentUnit();
     
@@ -212,26 +245,51 @@ export class Game {
     
     // Check if the new current player is AI and handle automatically
     await this.processCurrentPlayerTurn();
+
+    // Cities may have grown or changed hands during the turn
+    VisibilitySystem.updateAllVisibility(this.gameState);
+
+    // Snapshot the start of the human player's next turn
+    this.writeAutosave();
     
     this.emit('turnEnded', this.gameState);
   }
 
+  // Get the current player's units that could still move but would be lost at sea if the turn ended now
+  public getUnitsAtRiskAtSea(): Unit[] {
+    return this.gameState.units.filter(u => u.playerId === this.gameState.currentPlayer && u.movementPoints > 0 &&
+      TurnManager.isAtRiskOfLossAtSea(this.gameState, u));
+  }
+
+  // Write an autosave if enabled in settings and the autosave interval has elapsed
+  private writeAutosave(): void {
+    if (this.headless) return;
+
+    const settingsManager = SettingsManager.getInstance();
+    if (!settingsManager.getSetting('autoSave')) return;
+
+    const interval = Math.max(1, settingsManager.getSetting('autoSaveInterval'));
+    if (this.gameState.turn % interval !== 0) return;
+
+    const humanPlayer = this.gameState.players.find(p => p.isHuman);
+    const civilization = humanPlayer ? getCivilization(humanPlayer.civilizationType).name : 'Unknown';
+
+    const entry = AutosaveManager.getInstance().save(this.saveGame(), {
+      turn: this.gameState.turn,
+      year: TurnManager.getYearLabel(this.gameState.turn),
+      civilization
+    });
+
+    if (entry) {
+      this.emit('autosaved', entry);
+    }
+  }
+
   // Process the current player's turn (human or AI)
   private async processCurrentPlayerTurn(): Promise<void> {
-    while (this.isCurrentPlayerAI()) {
-      // Execute AI turn
-      const currentPlayer = this.getCurrentPlayer();
-      if (currentPlayer) {
-        this.emit('aiTurnStarted', { playerId: currentPlayer.id, playerName: currentPlayer.name });
-        
-        // Execute AI logic
-        await AIPlayer.executeTurn(this.gameState, currentPlayer.id);
-        
-        // Process the turn end for AI
-        this.turnManager.processTurn(this.gameState);
-        
-        this.emit('aiTurnEnded', { playerId: currentPlayer.id, playerName: currentPlayer.name });
-      }
+    // Stop if the game ended during the AI turns (e.g. the human player was eliminated)
+    while (this.gameState.gamePhase === GamePhase.PLAYING && this.isCurrentPlayerAI()) {
+      await this.playAITurn();
     }
     
     // Now it's a human player's turn - emit event and setup
@@ -239,6 +297,9 @@ export class Game {
     
     // Check if player needs to select research (after first turn)
     this.checkForResearchSelection();
+
+    // Units with Go To orders continue toward their destinations
+    this.executeGotoOrders(this.gameState.currentPlayer);
     
     this.buildUnitQueue();
     if (this.unitQueue.length > 0) {
@@ -246,6 +307,24 @@ export class Game {
     }
   }
 
+  // Play the current computer player's turn and pass play to the next player
+  public async playAITurn(): Promise<void> {
+    const currentPlayer = this.getCurrentPlayer();
+    if (!currentPlayer || currentPlayer.isHuman) return;
+
+    this.emit('aiTurnStarted', { playerId: currentPlayer.id, playerName: currentPlayer.name });
+
+    // Continue Go To orders, then execute AI logic through the game's own actions
+    this.executeGotoOrders(currentPlayer.id);
+    await AIPlayer.executeTurn(this.gameState, currentPlayer.id, Math.random, this);
+    this.conductAIDiplomacy(currentPlayer.id);
+
+    // Process the turn end for AI
+    this.turnManager.processTurn(this.gameState);
+
+    this.emit('aiTurnEnded', { playerId: currentPlayer.id, playerName: currentPlayer.name });
+  }
+
   // Check if the current player is AI
   private isCurrentPlayerAI(): boolean {
     const currentPlayer = this.getCurrentPlayer();
@@ -269,7 +348,8 @@ export class Game {
       !unit.fortified && 
       !unit.fortifying && 
       !unit.sleeping &&
-      !unit.buildingRoad
+      !unit.buildingRoad &&
+      !unit.gotoTarget
     );
     
     this.currentUnitIndex = 0;
@@ -378,6 +458,8 @@ export class Game {
   // Start blinking effect for current unit
   private startUnitBlinking(): void {
     this.stopUnitBlinking();
+    if (this.headless) return;
+
     this.blinkIntervalId = window.setInterval(() => {
       this.emit('unitBlink');
     }, 750); // Blink every second
@@ -443,6 +525,46 @@ export class Game {
       return false;
     }
 
+    // Diplomats carry out missions in foreign cities and against foreign units instead of fighting
+    if (this.requestDiplomatAction(unit, normalizedPosition)) {
+      return false;
+    }
+
+    // Caravans entering a foreign city offer to open a trade route there
+    const foreignCity = this.gameState.cities.find(c =>
+      c.playerId !== unit.playerId && c.position.x === normalizedPosition.x && c.position.y === normalizedPosition.y
+    );
+    if (foreignCity && this.requestCaravanAction(unit, foreignCity)) {
+      return false;
+    }
+
+    // Moving onto another player's units attacks the strongest of them
+    const enemyUnits = this.gameState.units.filter(u =>
+      u.playerId !== unit.playerId && u.position.x === normalizedPosition.x && u.position.y === normalizedPosition.y
+    );
+    if (enemyUnits.length > 0) {
+      return this.attackTile(unit, enemyUnits);
+    }
+
+    // Only military land units may enter an undefended enemy city, capturing it
+    const enemyCity = this.gameState.cities.find(c =>
+      c.playerId !== unit.playerId && c.position.x === normalizedPosition.x && c.position.y === normalizedPosition.y
+    );
+    if (enemyCity && !ConquestSystem.canCaptureCity(this.gameState, unit, enemyCity)) {
+      SoundEffects.playInvalidActionSound();
+      return false;
+    }
+    if (enemyCity && !this.enterWar(unit.playerId, enemyCity.playerId)) {
+      SoundEffects.playInvalidActionSound();
+      return false;
+    }
+
+    // Land units may not slip between tiles next to enemy units
+    if (PathFinder.violatesZoneOfControl(this.gameState, unit, unit.position, normalizedPosition)) {
+      SoundEffects.playInvalidActionSound();
+      return false;
+    }
+
     // Check terrain-based movement restrictions
     if (!this.canUnitMoveToTerrain(unit, normalizedPosition)) {
       SoundEffects.playInvalidActionSound();
@@ -450,7 +572,7 @@ export class Game {
     }
 
     // Calculate actual movement cost including terrain
-    const movementCost = this.calculateMovementCost(unit.position, normalizedPosition);
+    const movementCost = this.calculateMovementCost(unit, unit.position, normalizedPosition);
     
     // Classic Civ rule: A unit can always move into a terrain square even if the movement cost 
     // exceeds remaining movement points. In that case, it drains all remaining movement to 0.
@@ -460,6 +582,11 @@ export class Game {
       return false;
     }
 
+    // Stranding a trireme out of sight of land waits for the same move to be made again
+    if (!this.confirmMoveAtRiskAtSea(unit, normalizedPosition, movementCost)) {
+      return false;
+    }
+
     // Move unit
     unit.position = normalizedPosition;
     
@@ -476,6 +603,21 @@ export class Game {
       console.log('buildRoad: Road building cancelled due to unit movement');
     }
     
+    // Ships carry their cargo along; other units board a ship at sea or step off onto land
+    if (getUnitStats(unit.type).category === UnitCategory.NAVAL) {
+      TransportSystem.moveCargo(this.gameState, unit);
+    } else {
+      const tile = this.gameState.worldMap[normalizedPosition.y][normalizedPosition.x];
+      const transport = tile.terrain === TerrainType.OCEAN
+        ? TransportSystem.findTransport(this.gameState, unit, normalizedPosition)
+        : undefined;
+      if (transport) {
+        TransportSystem.board(unit, transport);
+      } else if (unit.transportId) {
+        TransportSystem.disembark(unit);
+      }
+    }
+    
     // If movement cost exceeds remaining points, drain all remaining movement
     if (movementCost > unit.movementPoints) {
       unit.movementPoints = 0;
@@ -488,104 +630,369 @@ export class Game {
       this.removeUnitFromQueue(unitId);
     }
 
+    if (enemyCity) {
+      const result = ConquestSystem.captureCity(this.gameState, enemyCity, unit);
+      this.emit(result.destroyed ? 'cityDestroyed' : 'cityCaptured', result);
+      if (this.gameState.gamePhase !== GamePhase.PLAYING) {
+        this.emit('gamePhaseChanged', this.gameState.gamePhase);
+      }
+    }
+
+    // Reveal tiles around the unit's new position
+    VisibilitySystem.updateVisibility(this.gameState, unit.playerId);
+
     this.emit('unitMoved', { unit, newPosition: normalizedPosition });
+
+    // Caravans arriving in one of their owner's cities may trade or help build a wonder
+    const ownCity = this.gameState.cities.find(c =>
+      c.playerId === unit.playerId && c.position.x === normalizedPosition.x && c.position.y === normalizedPosition.y
+    );
+    if (ownCity) {
+      this.requestCaravanAction(unit, ownCity);
+    }
     return true;
   }
 
-  // Calculate movement cost including terrain and roads
-  private calculateMovementCost(fromPosition: Position, toPosition: Position): number {
-    // For now, this is a simplified implementation for adjacent moves only
-    const distance = this.calculateWrappedDistance(fromPosition, toPosition);
-    if (distance !== 1) {
-      // For non-adjacent moves, use distance (this would need pathfinding for proper implementation)
-      return distance;
-    }
-
-    // Get tiles at both positions
-    const fromTile = this.gameState.worldMap[fromPosition.y]?.[fromPosition.x];
-    const toTile = this.gameState.worldMap[toPosition.y]?.[toPosition.x];
-    if (!fromTile || !toTile) return 999; // Invalid tile
-
-    // Check if both tiles have roads - if so, movement cost is 1/3 regardless of terrain
-    const fromHasRoad = fromTile.improvements?.some(imp => imp.type === ImprovementType.ROAD);
-    const toHasRoad = toTile.improvements?.some(imp => imp.type === ImprovementType.ROAD);
-    
-    if (fromHasRoad && toHasRoad) {
-      return 1/3; // Road movement bonus
+  // Attack the best defender on a tile; the attacker stays where it is
+  private attackTile(unit: Unit, defenders: Unit[]): boolean {
+    const defender = this.getBestDefender(unit, defenders);
+
+    const result = this.attackUnit(unit.id, defender.id);
+    if (!result) {
+      SoundEffects.playInvalidActionSound();
+      return false;
     }
 
-    // Otherwise use normal terrain movement cost
-    return TerrainManager.getMovementCost(toTile.terrain);
+    this.clearGoto(unit);
+    this.removeUnitFromQueue(unit.id);
+    return true;
   }
 
-  // Check if unit can move to a specific terrain type
-  private canUnitMoveToTerrain(unit: Unit, position: Position): boolean {
-    const tile = this.gameState.worldMap[position.y]?.[position.x];
-    if (!tile) return false;
+  // Ask the player to pick a mission when a diplomat moves onto a foreign city or unit
+  private requestDiplomatAction(unit: Unit, position: Position): boolean {
+    if (!getUnitStats(unit.type).specialAbilities?.includes(DiplomatAction.ESTABLISH_EMBASSY)) return false;
 
-    // First, check if there's a city at the target position
-    const cityAtPosition = this.gameState.cities.find(city => 
-      city.position.x === position.x && city.position.y === position.y
+    const city = this.gameState.cities.find(c =>
+      c.playerId !== unit.playerId && c.position.x === position.x && c.position.y === position.y
+    );
+    const targetUnit = this.gameState.units.find(u =>
+      u.playerId !== unit.playerId && u.position.x === position.x && u.position.y === position.y
     );
+    if (!city && !targetUnit) return false;
 
-    // If there's a city and the unit belongs to the same player, allow movement
-    if (cityAtPosition && cityAtPosition.playerId === unit.playerId) {
-      return true;
+    const actions = city
+      ? DiplomatSystem.getCityActions(this.gameState, unit, city)
+      : DiplomatSystem.getUnitActions(this.gameState, unit, targetUnit!);
+    this.emit('diplomatActionRequired', { unit, city, targetUnit, position, actions });
+    return true;
+  }
+
+  // Carry out a diplomat mission against the foreign city or unit on an adjacent tile
+  public performDiplomatAction(unitId: string, target: Position, action: DiplomatAction): DiplomatActionResult | null {
+    const unit = this.gameState.units.find(u => u.id === unitId);
+    if (!unit || unit.movementPoints <= 0) return null;
+
+    const position = this.normalizePosition(target);
+    if (PathFinder.getDistance(this.gameState, unit.position, position) !== 1) return null;
+
+    const city = this.gameState.cities.find(c =>
+      c.playerId !== unit.playerId && c.position.x === position.x && c.position.y === position.y
+    );
+    const targetUnit = this.gameState.units.find(u =>
+      u.playerId !== unit.playerId && u.position.x === position.x && u.position.y === position.y
+    );
+
+    // Every mission but an embassy is an act of war: it breaks a treaty, or the senate may forbid it
+    const options = city && action !== DiplomatAction.BRIBE_UNIT
+      ? DiplomatSystem.getCityActions(this.gameState, unit, city)
+      : targetUnit ? DiplomatSystem.getUnitActions(this.gameState, unit, targetUnit) : [];
+    const targetOwner = action === DiplomatAction.BRIBE_UNIT ? targetUnit?.playerId : city?.playerId;
+    if (targetOwner && action !== DiplomatAction.ESTABLISH_EMBASSY &&
+      options.some(o => o.action === action && o.available) && !this.enterWar(unit.playerId, targetOwner)) {
+      SoundEffects.playInvalidActionSound();
+      return null;
     }
 
-    // Get unit stats to determine category
-    const unitStats = getUnitStats(unit.type);
-    const targetTerrain = tile.terrain;
+    let result: DiplomatActionResult | null = null;
+    if (city && action !== DiplomatAction.BRIBE_UNIT) {
+      result = DiplomatSystem.performCityAction(this.gameState, unit, city, action);
+    } else if (targetUnit && action === DiplomatAction.BRIBE_UNIT) {
+      result = DiplomatSystem.bribeUnit(this.gameState, unit, targetUnit);
+    }
+    if (!result || !result.success) {
+      SoundEffects.playInvalidActionSound();
+      return result;
+    }
 
-    // Naval units can move freely in ocean
-    if (unitStats.category === UnitCategory.NAVAL) {
-      return true;
+    this.clearGoto(unit);
+    this.removeUnitFromQueue(unit.id);
+    VisibilitySystem.updateVisibility(this.gameState, unit.playerId);
+    this.emit('diplomatActionPerformed', result);
+    if (this.gameState.gamePhase !== GamePhase.PLAYING) {
+      this.emit('gamePhaseChanged', this.gameState.gamePhase);
     }
+    return result;
+  }
 
-    // Air units can move over any terrain
-    if (unitStats.category === UnitCategory.AIR) {
-      return true;
+  // Ask the player what a caravan should do in a city; only asks if the caravan can do something there
+  private requestCaravanAction(unit: Unit, city: City): boolean {
+    const actions = TradeRouteSystem.getCaravanActions(this.gameState, unit, city);
+    if (!actions.some(a => a.available)) return false;
+
+    this.emit('caravanActionRequired', { unit, city, actions });
+    return true;
+  }
+
+  // Use a caravan in the city it stands in, or in the foreign city next to it
+  public performCaravanAction(unitId: string, cityId: string, action: CaravanAction): CaravanActionResult | null {
+    const unit = this.gameState.units.find(u => u.id === unitId);
+    const city = this.gameState.cities.find(c => c.id === cityId);
+    if (!unit || !city) return null;
+
+    const distance = PathFinder.getDistance(this.gameState, unit.position, city.position);
+    const inCity = distance === 0 && city.playerId === unit.playerId;
+    const atForeignGates = distance === 1 && city.playerId !== unit.playerId && unit.movementPoints > 0;
+    if (!inCity && !atForeignGates) return null;
+
+    const result = TradeRouteSystem.performCaravanAction(this.gameState, unit, city, action);
+    if (!result.success) {
+      SoundEffects.playInvalidActionSound();
+      return result;
     }
 
-    // Check if target is ocean
-    if (targetTerrain === TerrainType.OCEAN) {
-      // Non-naval units cannot move to ocean unless there's a transport ship
-      return this.hasAvailableTransport(position, unit);
+    this.clearGoto(unit);
+    this.removeUnitFromQueue(unit.id);
+    this.emit('caravanActionPerformed', result);
+    return result;
+  }
+
+  // Make sure a player is at war with another before attacking, declaring war if needed
+  private enterWar(playerId: string, targetId: string): boolean {
+    if (DiplomacySystem.isAtWar(this.gameState, playerId, targetId)) return true;
+
+    const blocker = DiplomacySystem.getAttackBlocker(this.gameState, playerId, targetId);
+    if (blocker) {
+      this.emit('senateBlocked', { playerId, targetId, message: blocker });
+      return false;
     }
 
-    // For other terrain types, use TerrainManager
-    return TerrainManager.isPassable(targetTerrain);
+    DiplomacySystem.declareWar(this.gameState, playerId, targetId);
+    this.emit('diplomacyChanged', { playerId, targetId });
+    return true;
   }
 
-  // Check if there's an available transport ship at the given position
-  private hasAvailableTransport(position: Position, unitToTransport: Unit): boolean {
-    // Find naval units at the target position
-    const navalUnitsAtPosition = this.gameState.units.filter(u => 
-      u.position.x === position.x && 
-      u.position.y === position.y &&
-      u.playerId === unitToTransport.playerId && // Same player
-      getUnitStats(u.type).category === UnitCategory.NAVAL &&
-      getUnitStats(u.type).canCarryUnits && // Has transport capacity
-      getUnitStats(u.type).canCarryUnits! > 0
+  // Declare war on another civilization; the senate of a Republic or Democracy may refuse
+  public declareWar(playerId: string, targetId: string): boolean {
+    if (!DiplomacySystem.declareWar(this.gameState, playerId, targetId)) {
+      const blocker = DiplomacySystem.getAttackBlocker(this.gameState, playerId, targetId);
+      if (blocker) {
+        this.emit('senateBlocked', { playerId, targetId, message: blocker });
+      }
+      return false;
+    }
+
+    this.emit('diplomacyChanged', { playerId, targetId });
+    return true;
+  }
+
+  // Put a parley proposal to a computer player, who accepts or rejects it at once
+  public proposeDeal(proposal: DiplomaticProposal): ProposalResponse {
+    const response = DiplomacySystem.negotiate(this.gameState, proposal);
+    if (response.accepted) {
+      this.emit('diplomacyChanged', { playerId: proposal.fromPlayerId, targetId: proposal.toPlayerId });
+    }
+    return response;
+  }
+
+  // Answer a proposal a computer player made to the human player; refusing tribute means war
+  public respondToProposal(proposal: DiplomaticProposal, accept: boolean): ProposalResponse {
+    const invalid = DiplomacySystem.validateProposal(this.gameState, proposal);
+    if (invalid) {
+      return { accepted: false, forcedBySenate: false, message: invalid };
+    }
+
+    if (accept || DiplomacySystem.isForcedBySenate(this.gameState, proposal)) {
+      const message = DiplomacySystem.executeProposal(this.gameState, proposal);
+      this.emit('diplomacyChanged', { playerId: proposal.fromPlayerId, targetId: proposal.toPlayerId });
+      return { accepted: true, forcedBySenate: !accept, message };
+    }
+
+    if (DiplomacySystem.isTributeDemand(proposal)) {
+      this.declareWar(proposal.fromPlayerId, proposal.toPlayerId);
+    }
+    return { accepted: false, forcedBySenate: false, message: 'Proposal rejected.' };
+  }
+
+  // Let a computer player make its offers and demands to the other civilizations
+  private conductAIDiplomacy(playerId: string): void {
+    DiplomacySystem.getAIProposals(this.gameState, playerId).forEach(proposal => {
+      const recipient = this.gameState.players.find(p => p.id === proposal.toPlayerId);
+      if (recipient?.isHuman) {
+        // The senate accepts peace offers without asking
+        if (DiplomacySystem.isForcedBySenate(this.gameState, proposal)) {
+          this.respondToProposal(proposal, true);
+        } else {
+          this.emit('diplomaticProposal', proposal);
+        }
+        return;
+      }
+
+      const response = DiplomacySystem.negotiate(this.gameState, proposal);
+      if (!response.accepted && DiplomacySystem.isTributeDemand(proposal)) {
+        DiplomacySystem.declareWar(this.gameState, proposal.fromPlayerId, proposal.toPlayerId);
+      }
+    });
+  }
+
+  // Get the odds of a unit attacking a tile, against the defender that would face it
+  public getAttackOdds(unitId: string, target: Position): (CombatOdds & { defender: Unit }) | null {
+    const unit = this.gameState.units.find(u => u.id === unitId);
+    if (!unit || !getUnitStats(unit.type).canAttack) return null;
+
+    const position = this.normalizePosition(target);
+    const defenders = this.gameState.units.filter(u =>
+      u.playerId !== unit.playerId && u.position.x === position.x && u.position.y === position.y
     );
+    if (defenders.length === 0) return null;
 
-    // Check if any naval unit has available capacity
-    for (const navalUnit of navalUnitsAtPosition) {
-      const stats = getUnitStats(navalUnit.type);
-      const maxCapacity = stats.canCarryUnits || 0;
-      
-      // Count currently carried units (we'd need to track this in the naval unit)
-      // For now, assume naval units are available if they have transport capacity
-      const currentlyCarried = 0; // TODO: Implement proper tracking of carried units
-      
-      if (currentlyCarried < maxCapacity) {
-        return true;
+    const defender = this.getBestDefender(unit, defenders);
+    const context = this.combatSystem.getDefenseContext(this.gameState, defender);
+    return { ...this.combatSystem.getCombatOdds(unit, defender, context), defender };
+  }
+
+  // The unit with the highest defense against this attacker defends its tile; cargo cannot defend its ship
+  // and only interceptors can engage bombers. On a tile shared by several civilizations only one of them
+  // defends: one already at war with the attacker if there is one, so a neighbour at peace is not dragged in
+  private getBestDefender(attacker: Unit, units: Unit[]): Unit {
+    const owner = (units.find(u => DiplomacySystem.isAtWar(this.gameState, attacker.playerId, u.playerId)) ?? units[0]).playerId;
+    const defenders = units.filter(u => u.playerId === owner);
+    const strength = (d: Unit) => this.combatSystem.getEffectiveDefenseStrength(
+      d as BaseUnit, attacker, this.combatSystem.getDefenseContext(this.gameState, d)
+    );
+    const candidates = defenders.filter(d => !d.transportId && this.combatSystem.canTarget(attacker, d));
+    return (candidates.length > 0 ? candidates : defenders).reduce((best, d) => strength(d) > strength(best) ? d : best);
+  }
+
+  // Give a unit a Go To order and start moving it along the path right away
+  public setUnitGoto(unitId: string, target: Position): boolean {
+    const unit = this.gameState.units.find((u: Unit) => u.id === unitId);
+    if (!unit) return false;
+
+    const destination = this.normalizePosition(target);
+    const path = PathFinder.findPath(this.gameState, unit, destination);
+    if (!path || path.length === 0) {
+      SoundEffects.playInvalidActionSound();
+      return false;
+    }
+
+    unit.gotoTarget = destination;
+    unit.gotoPath = path;
+    unit.sleeping = false;
+    unit.fortified = false;
+    unit.fortifying = false;
+    this.emit('unitGotoSet', { unit, target: destination, path });
+
+    this.continueGoto(unit);
+
+    // A unit still travelling waits for next turn
+    if (unit.gotoTarget) {
+      this.removeUnitFromQueue(unit.id);
+    }
+    return true;
+  }
+
+  // Cancel a unit's Go To order
+  public cancelUnitGoto(unitId: string): boolean {
+    const unit = this.gameState.units.find((u: Unit) => u.id === unitId);
+    if (!unit || !unit.gotoTarget) return false;
+
+    this.clearGoto(unit);
+    return true;
+  }
+
+  // Move every unit of a player that has a Go To order
+  private executeGotoOrders(playerId: string): void {
+    this.gameState.units
+      .filter(unit => unit.playerId === playerId && unit.gotoTarget)
+      .forEach(unit => this.continueGoto(unit));
+  }
+
+  // Move a unit along its Go To path until it arrives or runs out of movement
+  private continueGoto(unit: Unit): void {
+    if (!unit.gotoTarget) return;
+
+    // Re-plan each time since units, cities and roads may have changed
+    const path = PathFinder.findPath(this.gameState, unit, unit.gotoTarget);
+    if (!path || path.length === 0) {
+      this.clearGoto(unit);
+      return;
+    }
+    unit.gotoPath = path;
+
+    while (unit.movementPoints > 0 && unit.gotoPath.length > 0) {
+      if (!this.moveUnit(unit.id, unit.gotoPath[0])) {
+        this.clearGoto(unit);
+        return;
       }
+      unit.gotoPath.shift();
     }
 
+    if (unit.gotoPath.length === 0) {
+      this.clearGoto(unit);
+    }
+  }
+
+  // A human player's move that would leave a trireme out of sight of land with no moves left
+  // first warns that it may be lost; moving onto the same tile again confirms it
+  private confirmMoveAtRiskAtSea(unit: Unit, position: Position, movementCost: number): boolean {
+    const player = this.gameState.players.find(p => p.id === unit.playerId);
+    const atRisk = !!player?.isHuman && movementCost >= unit.movementPoints &&
+      TurnManager.isAtRiskOfLossAtSea(this.gameState, { ...unit, position });
+    if (!atRisk) {
+      this.pendingMoveAtRisk = null;
+      return true;
+    }
+
+    const pending = this.pendingMoveAtRisk;
+    if (pending && pending.unitId === unit.id && pending.position.x === position.x && pending.position.y === position.y) {
+      this.pendingMoveAtRisk = null;
+      return true;
+    }
+
+    this.pendingMoveAtRisk = { unitId: unit.id, position: { ...position } };
+    this.emit('unitAtRiskAtSea', { unit, position });
     return false;
   }
 
+  private clearGoto(unit: Unit): void {
+    unit.gotoTarget = undefined;
+    unit.gotoPath = undefined;
+  }
+
+  // Calculate movement cost including terrain and roads
+  private calculateMovementCost(unit: Unit, fromPosition: Position, toPosition: Position): number {
+    if (PathFinder.getDistance(this.gameState, fromPosition, toPosition) <= 1) {
+      return PathFinder.getStepCost(this.gameState, unit, fromPosition, toPosition);
+    }
+
+    // Non-adjacent moves cost the sum of the steps along the cheapest path
+    const path = PathFinder.findPath(this.gameState, { ...unit, position: fromPosition }, toPosition);
+    if (!path) return Infinity;
+
+    let cost = 0;
+    let previous = fromPosition;
+    path.forEach(step => {
+      cost += PathFinder.getStepCost(this.gameState, unit, previous, step);
+      previous = step;
+    });
+    return cost;
+  }
+
+  // Check if unit can move to a specific terrain type (land units need land or a transport, ships need ocean)
+  private canUnitMoveToTerrain(unit: Unit, position: Position): boolean {
+    return PathFinder.canUnitEnterTerrain(this.gameState, unit, position);
+  }
+
   // Normalize position coordinates with horizontal wrapping
   private normalizePosition(position: Position): Position {
     const mapWidth = this.gameState.worldMap[0]?.length || 80;
@@ -753,7 +1160,7 @@ export class Game {
     this.gameState.cities.push(city);
     
     // Set initial production to the best defensive unit
-    const bestDefensiveUnit = this.getBestDefensiveUnit(unit.playerId);
+    const bestDefensiveUnit = this.getBestDefensiveUnit(city);
     if (bestDefensiveUnit) {
       city.production = {
         type: 'unit',
@@ -768,6 +1175,9 @@ export class Game {
     // Remove the settler unit from the queue system as well
     this.removeUnitFromQueue(unitId);
 
+    // The new city sees its surrounding work area
+    VisibilitySystem.updateVisibility(this.gameState, city.playerId);
+
     // Play city founding sound effect
     SoundEffects.playCityFoundingSound();
 
@@ -814,8 +1224,9 @@ export class Game {
     const availableOptions = ProductionManager.getAvailableProduction(
       player.technologies,
       existingBuildings,
-      2,
-      city.production_points
+      CityEconomy.calculateCityYields(this.gameState, city).production,
+      city.production_points,
+      getAvailableWonders(this.gameState, player)
     );
 
     // Find the selected option
@@ -845,6 +1256,37 @@ export class Game {
     return true;
   }
 
+  // Get the gold price to finish a city's current production (null if there is nothing to buy)
+  public getCityBuyCost(cityId: string): number | null {
+    const city = this.gameState.cities.find(c => c.id === cityId);
+    if (!city || !city.production) return null;
+
+    const cost = ProductionManager.getProductionCost(city.production.type, city.production.item as string);
+    if (cost <= 0 || city.production_points >= cost) return null;
+
+    return ProductionManager.getBuyCost(city.production.type, cost, city.production_points);
+  }
+
+  // Buy a city's current production with gold; the item completes at the next turn processing
+  public buyCityProduction(cityId: string): boolean {
+    const city = this.gameState.cities.find(c => c.id === cityId);
+    if (!city || !city.production) return false;
+
+    const player = this.gameState.players.find(p => p.id === city.playerId);
+    const price = this.getCityBuyCost(cityId);
+    if (!player || price === null || player.gold < price) {
+      SoundEffects.playInvalidActionSound();
+      return false;
+    }
+
+    player.gold -= price;
+    city.production_points = ProductionManager.getProductionCost(city.production.type, city.production.item as string);
+    city.production.turnsRemaining = 1;
+
+    this.emit('productionBought', { city, production: city.production, price });
+    return true;
+  }
+
   // Get production time for an item
   private getProductionTime(item: string): number {
     const productionTimes: { [key: string]: number } = {
@@ -869,20 +1311,41 @@ export class Game {
     const defender = this.gameState.units.find(u => u.id === defenderUnitId);
 
     if (!attacker || !defender) return null;
+    if (!this.combatSystem.canAttack(this.gameState, attacker, defender)) return null;
 
-    // Check if defender is on a fortress tile
-    const defenderTile = this.gameState.worldMap[defender.position.y]?.[defender.position.x];
-    const defenderHasFortress = defenderTile?.improvements?.some(imp => imp.type === ImprovementType.FORTRESS) || false;
+    // Attacking a civilization we have a treaty with breaks it, unless the senate forbids it
+    if (!this.enterWar(attacker.playerId, defender.playerId)) return null;
 
-    const result = this.combatSystem.executeAttack(attacker, defender, defenderHasFortress);
+    // Terrain, fortress, city and walls bonuses for the defender's position
+    const context = this.combatSystem.getDefenseContext(this.gameState, defender);
+
+    const result = this.combatSystem.executeAttack(this.gameState, attacker, defender, context);
     
     if (result) {
-      // Remove destroyed units
+      // Remove destroyed units; ships go down with their cargo
       if (!result.attackerSurvived) {
-        this.gameState.units = this.gameState.units.filter(u => u.id !== attackerUnitId);
+        TransportSystem.removeUnits(this.gameState, [attacker]);
       }
       if (!result.defenderSurvived) {
-        this.gameState.units = this.gameState.units.filter(u => u.id !== defenderUnitId);
+        TransportSystem.removeUnits(this.gameState, [defender]);
+
+        // Outside a city or fortress the whole stack is lost with its defender
+        if (this.combatSystem.destroysStack(context)) {
+          result.stackDestroyed = this.gameState.units.filter(u =>
+            u.playerId === defender.playerId &&
+            u.position.x === defender.position.x &&
+            u.position.y === defender.position.y
+          );
+          this.gameState.units = this.gameState.units.filter(u => !result.stackDestroyed!.includes(u));
+        }
+
+        // Losing the last settlers may eliminate a civilization without cities
+        const defendingPlayer = this.gameState.players.find(p => p.id === defender.playerId);
+        if (defendingPlayer && ConquestSystem.checkElimination(this.gameState, defendingPlayer)) {
+          if (this.gameState.gamePhase !== GamePhase.PLAYING) {
+            this.emit('gamePhaseChanged', this.gameState.gamePhase);
+          }
+        }
       }
 
       this.emit('combatResolved', result);
@@ -1070,6 +1533,7 @@ export class Game {
     );
 
     this.gameState.units.push(unit);
+    VisibilitySystem.updateVisibility(this.gameState, playerId);
     this.emit('unitCreated', unit);
     return unit;
   }
@@ -1095,6 +1559,44 @@ export class Game {
     return { ...this.gameState };
   }
 
+  // Serialize the current game to a versioned JSON save document
+  public saveGame(): string {
+    const currentUnit = this.getCurrentUnit();
+    return GameSerializer.serialize(this.gameState, {
+      selectedUnitId: currentUnit?.id
+    });
+  }
+
+  // Replace the current game with one restored from a save document
+  // Throws if the document is not a valid save game
+  public loadGame(json: string): void {
+    const { state, session } = GameSerializer.deserialize(json);
+
+    // Stop any selection from the previous game before swapping state
+    this.stopUnitBlinking();
+    this.unitQueue = [];
+    this.currentUnitIndex = 0;
+
+    this.gameState = state;
+
+    // Older saves have no exploration memory yet - rebuild it from what is visible now
+    VisibilitySystem.updateAllVisibility(this.gameState);
+
+    this.emit('gameLoaded', this.gameState);
+
+    // Rebuild the unit queue and restore the previously selected unit
+    this.buildUnitQueue();
+    if (session.selectedUnitId) {
+      const selectedIndex = this.unitQueue.findIndex(u => u.id === session.selectedUnitId);
+      if (selectedIndex >= 0) {
+        this.currentUnitIndex = selectedIndex;
+      }
+    }
+    if (this.unitQueue.length > 0) {
+      this.selectCurrentUnit();
+    }
+  }
+
   // Pause/unpause game
   public togglePause(): void {
     this.gameState.gamePhase = this.gameState.gamePhase === GamePhase.PAUSED 
@@ -1115,6 +1617,11 @@ export class Game {
     // Start anarchy period (2-5 turns based on Civilization mechanics)
     player.government = GovernmentType.ANARCHY;
     player.revolutionTurns = Math.floor(Math.random() * 4) + 2; // 2-5 turns
+    // The Pyramids let the new government be chosen right away
+    if (getPlayerWonderEffects(this.gameState, playerId).noAnarchy) {
+      player.revolutionTurns = 0;
+    }
+    this.applyTaxRates(player, CityEconomy.clampTaxRates(CityEconomy.getTaxRates(player), player.government));
 
     this.emit('revolutionStarted', { playerId, turnsRemaining: player.revolutionTurns });
     return true;
@@ -1135,11 +1642,31 @@ export class Game {
     // Change government
     player.government = newGovernment;
     player.revolutionTurns = undefined;
+    this.applyTaxRates(player, CityEconomy.clampTaxRates(CityEconomy.getTaxRates(player), player.government));
 
     this.emit('governmentChanged', { playerId, newGovernment });
     return true;
   }
 
+  // Set a player's tax, luxury and science rates (10% steps, within the government's maximum)
+  public setTaxRates(playerId: string, tax: number, luxury: number, science: number): boolean {
+    const player = this.gameState.players.find((p: Player) => p.id === playerId);
+    if (!player) return false;
+
+    const rates = { tax, luxury, science };
+    if (!CityEconomy.isValidTaxRates(rates, player.government)) return false;
+
+    this.applyTaxRates(player, rates);
+    this.emit('taxRatesChanged', { playerId, ...rates });
+    return true;
+  }
+
+  private applyTaxRates(player: Player, rates: TaxRates): void {
+    player.taxRate = rates.tax;
+    player.luxuryRate = rates.luxury;
+    player.scienceRate = rates.science;
+  }
+
   // Get available governments for a player
   public getAvailableGovernments(playerId: string): GovernmentType[] {
     const player = this.gameState.players.find((p: Player) => p.id === playerId);
@@ -1319,8 +1846,8 @@ export class Game {
   }
 
   // Get the best defensive unit available to a player
-  private getBestDefensiveUnit(playerId: string): { type: string; turns: number } | null {
-    const player = this.gameState.players.find(p => p.id === playerId);
+  private getBestDefensiveUnit(city: City): { type: string; turns: number } | null {
+    const player = this.gameState.players.find(p => p.id === city.playerId);
     if (!player) return null;
 
     // Defensive units in order of preference (best to worst)
@@ -1334,9 +1861,10 @@ export class Game {
     // Find the best unit the player can build
     for (const unitType of defensiveUnits) {
       if (ProductionManager.canProduce('unit', unitType, player.technologies, [])) {
-        // Calculate production turns (simplified - using base production of 1)
+        // Calculate production turns from the city's shield output
         const cost = ProductionManager.getProductionCost('unit', unitType);
-        const turns = Math.ceil(cost / 1); // Base production capacity
+        const shieldsPerTurn = CityEconomy.calculateCityYields(this.gameState, city).production;
+        const turns = ProductionManager.getTurnsToComplete(cost, city.production_points, shieldsPerTurn);
         
         return {
           type: unitType,
@@ -1634,41 +2162,7 @@ export class Game {
       return { food: 0, production: 0, trade: 0 };
     }
 
-    // Get base yields
-    const baseYields = TerrainManager.getTerrainYields(tile.terrain);
-    let yields = { ...baseYields };
-
-    // Apply improvement bonuses
-    if (tile.improvements) {
-      for (const improvement of tile.improvements) {
-        switch (improvement.type) {
-          case ImprovementType.IRRIGATION:
-            yields.food += 1;
-            break;
-
-          case ImprovementType.MINE:
-            if (tile.terrain === TerrainType.DESERT) {
-              yields.production += 1;
-            } else if (tile.terrain === TerrainType.HILLS) {
-              yields.production += 3;
-            } else if (tile.terrain === TerrainType.MOUNTAINS) {
-              yields.production += 1;
-            }
-            break;
-
-          case ImprovementType.ROAD:
-            // Roads increase trade for specific terrains
-            if (tile.terrain === TerrainType.GRASSLAND || 
-                tile.terrain === TerrainType.PLAINS ||
-                tile.terrain === TerrainType.DESERT) {
-              yields.trade += 1;
-            }
-            break;
-        }
-      }
-    }
-
-    return yields;
+    return CityEconomy.getTileYields(this.gameState, tile);
   }
 
   // Get the number of turns required to build a road on a terrain type
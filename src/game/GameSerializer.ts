@@ -0,0 +1,169 @@
+import type { GameState, Tile, Unit, City, Player } from '../types/game';
+import { createUnit } from './Units';
+import { UNIT_DEFINITIONS } from './UnitDefinitions';
+
+/**
+ * Current version of the save game format.
+ * Bump this whenever the shape of the serialized state changes and
+ * register a migration from the previous version in SAVE_MIGRATIONS.
+ */
+export const SAVE_FORMAT_VERSION = 1;
+
+/**
+ * Session information that is not part of GameState but is needed
+ * to restore the game exactly as it was (e.g. the selected unit)
+ */
+export interface SavedSession {
+  selectedUnitId?: string;
+}
+
+/**
+ * Versioned save game document
+ */
+export interface SavedGame {
+  format: 'civwinweb-save';
+  version: number;
+  savedAt: string; // ISO timestamp
+  state: GameState;
+  session: SavedSession;
+}
+
+/**
+ * A save document as parsed from JSON, before it has been migrated to the current version
+ */
+export type SaveDocument = Record<string, unknown>;
+
+/**
+ * A migration upgrades a save document from version N to version N + 1
+ */
+export type SaveMigration = (document: SaveDocument) => SaveDocument;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Example: SAVE_MIGRATIONS[1] upgrades a version 1 document to version 2.
+ */
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {};
+
+/**
+ * Serializes and restores the full game state to and from a versioned JSON document
+ */
+export class GameSerializer {
+
+  /**
+   * Serialize the game state to a JSON string
+   */
+  public static serialize(gameState: GameState, session: SavedSession = {}): string {
+    const document: SavedGame = {
+      format: 'civwinweb-save',
+      version: SAVE_FORMAT_VERSION,
+      savedAt: new Date().toISOString(),
+      state: this.toPlainState(gameState),
+      session
+    };
+
+    return JSON.stringify(document);
+  }
+
+  /**
+   * Parse a JSON save document, migrate it to the current version and
+   * rebuild a live game state from it
+   */
+  public static deserialize(json: string): { state: GameState; session: SavedSession; savedAt: string } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Save file is not valid JSON');
+    }
+
+    const document = this.migrate(parsed);
+
+    return {
+      state: this.fromPlainState(document.state),
+      session: document.session || {},
+      savedAt: document.savedAt
+    };
+  }
+
+  /**
+   * Upgrade a save document to the current format version
+   */
+  public static migrate(data: unknown): SavedGame {
+    const document = typeof data === 'object' && data !== null ? data as SaveDocument : undefined;
+    if (!document || document.format !== 'civwinweb-save' || typeof document.version !== 'number') {
+      throw new Error('File is not a CivWin save game');
+    }
+
+    let version = document.version;
+    if (version > SAVE_FORMAT_VERSION) {
+      throw new Error(`Save game version ${version} is newer than supported version ${SAVE_FORMAT_VERSION}`);
+    }
+
+    let migrated = document;
+    while (version < SAVE_FORMAT_VERSION) {
+      const migration = SAVE_MIGRATIONS[version];
+      if (!migration) {
+        throw new Error(`No migration available from save game version ${version}`);
+      }
+      version++;
+      migrated = { ...migration(migrated), version };
+    }
+
+    return migrated as unknown as SavedGame;
+  }
+
+  /**
+   * Convert live game state into a plain, JSON-safe object.
+   * Tile back-references to units and cities are dropped since they are derived data.
+   */
+  private static toPlainState(gameState: GameState): GameState {
+    const worldMap = gameState.worldMap.map(row =>
+      row.map(tile => {
+        const { unit: _unit, city: _city, ...rest } = tile;
+        return rest as Tile;
+      })
+    );
+
+    return JSON.parse(JSON.stringify({
+      ...gameState,
+      worldMap,
+      events: []
+    }));
+  }
+
+  /**
+   * Rebuild live game state from a plain object, restoring unit class instances
+   */
+  private static fromPlainState(state: GameState): GameState {
+    if (!Array.isArray(state?.worldMap) || !Array.isArray(state?.players)) {
+      throw new Error('Save game is missing required state');
+    }
+
+    const units: Unit[] = (state.units || [])
+      .filter((saved: Unit) => UNIT_DEFINITIONS[saved.type])
+      .map((saved: Unit) => {
+        const unit = createUnit(saved.id, saved.type, saved.position, saved.playerId);
+        return Object.assign(unit, saved);
+      });
+
+    const cities: City[] = (state.cities || []).map((city: City) => ({
+      ...city,
+      buildings: city.buildings || [],
+      workedTiles: city.workedTiles ? [...city.workedTiles] : undefined
+    }));
+
+    const players: Player[] = state.players.map((player: Player) => ({
+      ...player,
+      technologies: player.technologies || [],
+      usedCityNames: player.usedCityNames || []
+    }));
+
+    return {
+      ...state,
+      players,
+      units,
+      cities,
+      events: []
+    };
+  }
+}
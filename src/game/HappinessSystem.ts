@@ -0,0 +1,151 @@
+import type { City, GameState, Unit } from '../types/game';
+import { DifficultyLevel, GOVERNMENTS } from '../types/game';
+import { BUILDING_DEFINITIONS } from './BuildingDefinitions';
+import { canUnitAttack } from './UnitDefinitions';
+import { CityEconomy } from './CityEconomy';
+import { getCityWonderEffects, getPlayerWonderEffects } from './WonderDefinitions';
+
+export interface CityHappiness {
+  happy: number;
+  content: number;
+  unhappy: number;
+  inDisorder: boolean;
+}
+
+/**
+ * Civilization I citizen happiness.
+ * Citizens start content up to the difficulty's base and unhappy beyond it, then are
+ * adjusted in order by luxuries, buildings and military units. A city falls into civil
+ * disorder when its unhappy citizens outnumber its happy ones.
+ */
+export class HappinessSystem {
+  // Citizens born content in each city before the rest are unhappy
+  public static readonly CONTENT_BASE: Record<DifficultyLevel, number> = {
+    [DifficultyLevel.CHIEFTAIN]: 6,
+    [DifficultyLevel.WARLORD]: 5,
+    [DifficultyLevel.PRINCE]: 4,
+    [DifficultyLevel.KING]: 3,
+    [DifficultyLevel.EMPEROR]: 2
+  };
+
+  // Luxuries needed to make one citizen happier
+  public static readonly LUXURIES_PER_CITIZEN = 2;
+
+  // Most military units that can impose martial law in one city
+  public static readonly MAX_MARTIAL_LAW_UNITS = 3;
+
+  /**
+   * Calculate how many of a city's citizens are happy, content and unhappy
+   */
+  public static calculateHappiness(gameState: GameState, city: City): CityHappiness {
+    const citizens = { happy: 0, content: 0, unhappy: 0 };
+    const contentBase = this.CONTENT_BASE[gameState.difficulty || DifficultyLevel.PRINCE];
+    citizens.content = Math.min(city.population, contentBase);
+    citizens.unhappy = city.population - citizens.content;
+
+    // Luxuries: each step makes a content citizen happy, or an unhappy one content
+    const trade = CityEconomy.calculateCityYields(gameState, city).trade;
+    const luxuries = CityEconomy.splitTrade(gameState, city, trade).luxuries;
+    for (let steps = Math.floor(luxuries / this.LUXURIES_PER_CITIZEN); steps > 0; steps--) {
+      if (citizens.content > 0) {
+        citizens.content--;
+        citizens.happy++;
+      } else if (citizens.unhappy > 0) {
+        citizens.unhappy--;
+        citizens.content++;
+      } else {
+        break;
+      }
+    }
+
+    // Temples, colosseums and cathedrals make unhappy citizens content
+    const happyFaces = city.buildings.reduce((total, building) => {
+      return total + (BUILDING_DEFINITIONS[building.type]?.effects.happyFaces || 0);
+    }, 0);
+    this.makeContent(citizens, happyFaces);
+
+    // Wonders such as the Hanging Gardens and Michelangelo's Chapel work in every city
+    const wonders = getPlayerWonderEffects(gameState, city.playerId);
+    this.makeContent(citizens, (wonders.contentAllCities || 0) + (wonders.happyFacesAllCities || 0));
+
+    const player = gameState.players.find(p => p.id === city.playerId);
+    const effects = player ? GOVERNMENTS[player.government]?.effects : undefined;
+
+    // Martial law: each military unit in the city makes one unhappy citizen content
+    if (effects?.martialLawAvailable) {
+      const garrison = this.getMilitaryUnitsInCity(gameState, city).length;
+      this.makeContent(citizens, Math.min(garrison, this.MAX_MARTIAL_LAW_UNITS));
+    }
+
+    // Military units away from home make citizens unhappy under representative governments
+    if (effects && effects.unhappinessFromMilitary > 0) {
+      const abroad = this.getMilitaryUnitsAbroad(gameState, city).length;
+      const perUnit = Math.max(0, effects.unhappinessFromMilitary - (wonders.militaryUnhappinessReduction || 0));
+      this.makeUnhappy(citizens, abroad * perUnit);
+    }
+
+    // Shakespeare's Theatre: no citizen in its city is unhappy
+    if (getCityWonderEffects(gameState, city).noUnhappyCitizens) {
+      this.makeContent(citizens, citizens.unhappy);
+    }
+
+    return { ...citizens, inDisorder: citizens.unhappy > citizens.happy };
+  }
+
+  /**
+   * Check whether a city is in civil disorder
+   */
+  public static isInDisorder(gameState: GameState, city: City): boolean {
+    return this.calculateHappiness(gameState, city).inDisorder;
+  }
+
+  /**
+   * Get the military units of a city's owner standing in the city
+   */
+  public static getMilitaryUnitsInCity(gameState: GameState, city: City): Unit[] {
+    return gameState.units.filter(unit =>
+      unit.playerId === city.playerId &&
+      unit.position.x === city.position.x &&
+      unit.position.y === city.position.y &&
+      canUnitAttack(unit.type)
+    );
+  }
+
+  /**
+   * Get the military units supported by a city that are outside their owner's territory
+   * (not within the work radius of any of the owner's cities)
+   */
+  public static getMilitaryUnitsAbroad(gameState: GameState, city: City): Unit[] {
+    const ownCities = gameState.cities.filter(c => c.playerId === city.playerId);
+
+    return gameState.units.filter(unit =>
+      unit.homeCityId === city.id &&
+      canUnitAttack(unit.type) &&
+      !ownCities.some(ownCity => this.isWithinCityRadius(gameState, ownCity, unit))
+    );
+  }
+
+  private static makeContent(citizens: { content: number; unhappy: number }, count: number): void {
+    const converted = Math.min(count, citizens.unhappy);
+    citizens.unhappy -= converted;
+    citizens.content += converted;
+  }
+
+  // Content citizens turn unhappy first, then happy ones
+  private static makeUnhappy(citizens: { happy: number; content: number; unhappy: number }, count: number): void {
+    const fromContent = Math.min(count, citizens.content);
+    citizens.content -= fromContent;
+    const fromHappy = Math.min(count - fromContent, citizens.happy);
+    citizens.happy -= fromHappy;
+    citizens.unhappy += fromContent + fromHappy;
+  }
+
+  private static isWithinCityRadius(gameState: GameState, city: City, unit: Unit): boolean {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    let dx = Math.abs(unit.position.x - city.position.x);
+    dx = Math.min(dx, mapWidth - dx); // Horizontal wrapping
+    const dy = Math.abs(unit.position.y - city.position.y);
+
+    return dx <= 2 && dy <= 2 && !(dx === 2 && dy === 2);
+  }
+}
@@ -0,0 +1,289 @@
+import type { GameState, Position, Unit } from '../types/game';
+import { ImprovementType, TerrainType, UnitCategory } from '../types/game';
+import { TerrainManager } from '../terrain/index';
+import { getUnitStats } from './UnitDefinitions';
+import { TransportSystem } from './TransportSystem';
+
+export interface PathOptions {
+  // Allow the final step onto a tile held by an enemy unit or city (to attack it)
+  allowEnemyTarget?: boolean;
+  // Give up after expanding this many tiles
+  maxNodes?: number;
+}
+
+interface PathNode {
+  key: string;
+  position: Position;
+  cost: number; // Movement cost from the start
+  estimate: number; // Cost plus heuristic
+}
+
+/**
+ * A* pathfinding over the wrapped world map.
+ * Step costs come from terrain movement costs (1/3 along roads); land units keep to land,
+ * naval units keep to the ocean, tiles held by other players are avoided and land units
+ * respect enemy zones of control.
+ */
+export class PathFinder {
+  // Movement cost of a step along a road
+  public static readonly ROAD_COST = 1 / 3;
+
+  private static readonly DEFAULT_MAX_NODES = 4000;
+
+  private static readonly DIRECTIONS: Array<[number, number]> = [
+    [-1, -1], [0, -1], [1, -1],
+    [-1, 0], [1, 0],
+    [-1, 1], [0, 1], [1, 1]
+  ];
+
+  /**
+   * Find the cheapest path for a unit to a target.
+   * Returns the steps to take (excluding the unit's own tile), an empty array if the
+   * unit is already there, or null if the target cannot be reached.
+   */
+  public static findPath(gameState: GameState, unit: Unit, target: Position, options: PathOptions = {}): Position[] | null {
+    const goal = this.normalizePosition(gameState, target);
+    if (!this.isOnMap(gameState, goal)) return null;
+
+    const start = this.normalizePosition(gameState, unit.position);
+    const startKey = this.getKey(start);
+    const goalKey = this.getKey(goal);
+    if (startKey === goalKey) return [];
+
+    const maxNodes = options.maxNodes ?? this.DEFAULT_MAX_NODES;
+    const open: PathNode[] = [{ key: startKey, position: start, cost: 0, estimate: this.heuristic(gameState, start, goal) }];
+    const bestCost = new Map<string, number>([[startKey, 0]]);
+    const cameFrom = new Map<string, PathNode>();
+    const closed = new Set<string>();
+    const zoneOfControl = this.getZoneOfControl(gameState, unit);
+
+    while (open.length > 0 && closed.size < maxNodes) {
+      const current = this.popLowest(open);
+      if (closed.has(current.key)) continue;
+      closed.add(current.key);
+
+      if (current.key === goalKey) {
+        return this.reconstructPath(cameFrom, current);
+      }
+
+      for (const next of this.getNeighbors(gameState, current.position)) {
+        const nextKey = this.getKey(next);
+        if (closed.has(nextKey)) continue;
+
+        const isGoal = nextKey === goalKey;
+        if (!this.canEnter(gameState, unit, next, isGoal && !!options.allowEnemyTarget)) continue;
+        if (zoneOfControl && this.isBlockedByZone(gameState, unit, zoneOfControl, current.position, next)) continue;
+
+        const cost = current.cost + this.getStepCost(gameState, unit, current.position, next);
+        if (cost >= (bestCost.get(nextKey) ?? Infinity)) continue;
+
+        bestCost.set(nextKey, cost);
+        const node = { key: nextKey, position: next, cost, estimate: cost + this.heuristic(gameState, next, goal) };
+        cameFrom.set(nextKey, current);
+        this.pushNode(open, node);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the movement cost for a unit to step between two adjacent tiles
+   */
+  public static getStepCost(gameState: GameState, unit: Unit, from: Position, to: Position): number {
+    const category = getUnitStats(unit.type).category;
+    // Ships and aircraft spend one point per tile whatever the terrain
+    if (category === UnitCategory.NAVAL || category === UnitCategory.AIR) {
+      return 1;
+    }
+
+    const fromTile = gameState.worldMap[from.y]?.[from.x];
+    const toTile = gameState.worldMap[to.y]?.[to.x];
+    if (!fromTile || !toTile) return Infinity;
+
+    // Boarding a ship takes one move
+    if (toTile.terrain === TerrainType.OCEAN) {
+      return 1;
+    }
+
+    const fromHasRoad = fromTile.improvements?.some(imp => imp.type === ImprovementType.ROAD);
+    const toHasRoad = toTile.improvements?.some(imp => imp.type === ImprovementType.ROAD);
+    if (fromHasRoad && toHasRoad) {
+      return this.ROAD_COST;
+    }
+
+    return TerrainManager.getMovementCost(toTile.terrain);
+  }
+
+  /**
+   * Check whether a unit's category allows it onto a tile, ignoring other units.
+   * Land units need land (or a ship with room for them), ships need ocean; both may enter friendly cities.
+   */
+  public static canUnitEnterTerrain(gameState: GameState, unit: Unit, position: Position): boolean {
+    const tile = gameState.worldMap[position.y]?.[position.x];
+    if (!tile) return false;
+
+    const city = gameState.cities.find(c => c.position.x === position.x && c.position.y === position.y);
+    if (city && city.playerId === unit.playerId) {
+      return true;
+    }
+
+    const stats = getUnitStats(unit.type);
+    if (stats.category === UnitCategory.AIR) {
+      return true;
+    }
+    if (stats.category === UnitCategory.NAVAL) {
+      return tile.terrain === TerrainType.OCEAN;
+    }
+    if (tile.terrain === TerrainType.OCEAN) {
+      return !!TransportSystem.findTransport(gameState, unit, position);
+    }
+
+    return TerrainManager.isPassable(tile.terrain);
+  }
+
+  /**
+   * Check whether a step breaks zone of control (Civilization I): a land unit may not move
+   * from a tile next to an enemy unit to another tile next to an enemy unit, unless the
+   * destination holds a friendly unit or city. Attacking is not movement and is always allowed.
+   */
+  public static violatesZoneOfControl(gameState: GameState, unit: Unit, from: Position, to: Position): boolean {
+    const zone = this.getZoneOfControl(gameState, unit);
+    return !!zone && this.isBlockedByZone(gameState, unit, zone, from, to);
+  }
+
+  /**
+   * Get the number of tiles between two positions, counting diagonal steps as one
+   * and taking the shorter way around the horizontal wrap
+   */
+  public static getDistance(gameState: GameState, a: Position, b: Position): number {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    const directDx = Math.abs(a.x - b.x);
+    const dx = Math.min(directDx, mapWidth - directDx);
+    return Math.max(dx, Math.abs(a.y - b.y));
+  }
+
+  /**
+   * Check whether a tile is free of other players' units and cities
+   */
+  private static canEnter(gameState: GameState, unit: Unit, position: Position, allowEnemy: boolean): boolean {
+    // Transports move, so land paths never rely on them to cross water
+    const tile = gameState.worldMap[position.y]?.[position.x];
+    const category = getUnitStats(unit.type).category;
+    const isShipOrAircraft = category === UnitCategory.NAVAL || category === UnitCategory.AIR;
+    if (tile?.terrain === TerrainType.OCEAN && !isShipOrAircraft) {
+      return false;
+    }
+
+    if (!this.canUnitEnterTerrain(gameState, unit, position)) {
+      return false;
+    }
+
+    const enemyPresent =
+      gameState.units.some(u => u.playerId !== unit.playerId && u.position.x === position.x && u.position.y === position.y) ||
+      gameState.cities.some(c => c.playerId !== unit.playerId && c.position.x === position.x && c.position.y === position.y);
+
+    return !enemyPresent || allowEnemy;
+  }
+
+  /**
+   * Get the keys of tiles next to enemy units, or null if the unit ignores zones of control
+   */
+  private static getZoneOfControl(gameState: GameState, unit: Unit): Set<string> | null {
+    const stats = getUnitStats(unit.type);
+    if (stats.category === UnitCategory.NAVAL || stats.category === UnitCategory.AIR) return null;
+    if (stats.specialAbilities?.includes('ignore_zone_of_control')) return null;
+
+    const zone = new Set<string>();
+    gameState.units
+      .filter(u => u.playerId !== unit.playerId)
+      .forEach(enemy => {
+        this.getNeighbors(gameState, enemy.position).forEach(position => zone.add(this.getKey(position)));
+      });
+    return zone;
+  }
+
+  private static isBlockedByZone(gameState: GameState, unit: Unit, zone: Set<string>, from: Position, to: Position): boolean {
+    const origin = this.normalizePosition(gameState, from);
+    const destination = this.normalizePosition(gameState, to);
+    if (!zone.has(this.getKey(origin)) || !zone.has(this.getKey(destination))) return false;
+
+    const isAt = (position: Position) => position.x === destination.x && position.y === destination.y;
+    const hasEnemy = gameState.units.some(u => u.playerId !== unit.playerId && isAt(u.position));
+    const hasFriend = gameState.units.some(u => u.playerId === unit.playerId && u.id !== unit.id && isAt(u.position)) ||
+      gameState.cities.some(c => c.playerId === unit.playerId && isAt(c.position));
+
+    return !hasEnemy && !hasFriend;
+  }
+
+  private static getNeighbors(gameState: GameState, position: Position): Position[] {
+    const neighbors: Position[] = [];
+    for (const [dx, dy] of this.DIRECTIONS) {
+      const next = this.normalizePosition(gameState, { x: position.x + dx, y: position.y + dy });
+      if (this.isOnMap(gameState, next)) {
+        neighbors.push(next);
+      }
+    }
+    return neighbors;
+  }
+
+  // Cheapest possible cost to the goal: every step along a road
+  private static heuristic(gameState: GameState, from: Position, to: Position): number {
+    return this.getDistance(gameState, from, to) * this.ROAD_COST;
+  }
+
+  // The open list is a binary min-heap ordered by estimate
+  private static pushNode(open: PathNode[], node: PathNode): void {
+    open.push(node);
+    let i = open.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (open[parent].estimate <= open[i].estimate) break;
+      [open[parent], open[i]] = [open[i], open[parent]];
+      i = parent;
+    }
+  }
+
+  private static popLowest(open: PathNode[]): PathNode {
+    const lowest = open[0];
+    const last = open.pop()!;
+    if (open.length > 0) {
+      open[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < open.length && open[left].estimate < open[smallest].estimate) smallest = left;
+        if (right < open.length && open[right].estimate < open[smallest].estimate) smallest = right;
+        if (smallest === i) break;
+        [open[smallest], open[i]] = [open[i], open[smallest]];
+        i = smallest;
+      }
+    }
+    return lowest;
+  }
+
+  private static reconstructPath(cameFrom: Map<string, PathNode>, end: PathNode): Position[] {
+    const path: Position[] = [];
+    let node: PathNode | undefined = end;
+    while (node && cameFrom.has(node.key)) {
+      path.unshift(node.position);
+      node = cameFrom.get(node.key);
+    }
+    return path;
+  }
+
+  private static normalizePosition(gameState: GameState, position: Position): Position {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    return { x: ((position.x % mapWidth) + mapWidth) % mapWidth, y: position.y };
+  }
+
+  private static isOnMap(gameState: GameState, position: Position): boolean {
+    return position.y >= 0 && position.y < gameState.worldMap.length;
+  }
+
+  private static getKey(position: Position): string {
+    return `${position.x},${position.y}`;
+  }
+}
@@ -1,7 +1,8 @@
-import { UnitType, UnitStats, BuildingType } from '../types/game';
+import { UnitType, UnitStats, BuildingType, WonderType } from '../types/game';
 import { BuildingStats, BUILDING_DEFINITIONS } from './BuildingDefinitions';
 import { TechnologyType } from './TechnologyDefinitions';
 import { UNIT_DEFINITIONS } from './UnitDefinitions';
+import { WONDER_DEFINITIONS } from './WonderDefinitions';
 
 export interface ProductionOption {
   type: 'unit' | 'building' | 'wonder';
@@ -15,13 +16,16 @@ export interface ProductionOption {
 
 export class ProductionManager {
   /**
-   * Get all available production options for a city based on known technologies
+   * Get all available production options for a city based on known technologies.
+   * Wonders are listed after units and buildings; pass the wonders still open to the
+   * player (see getAvailableWonders) since they depend on the rest of the world.
    */
   public static getAvailableProduction(
     knownTechnologies: TechnologyType[],
     existingBuildings: BuildingType[],
     cityProductionCapacity: number = 1,
-    currentProductionPoints: number = 0
+    currentProductionPoints: number = 0,
+    availableWonders: WonderType[] = []
   ): ProductionOption[] {
     const options: ProductionOption[] = [];
     
@@ -29,8 +33,7 @@ export class ProductionManager {
     const availableUnits = this.getAvailableUnits(knownTechnologies);
     availableUnits.forEach(unitType => {
       const stats = UNIT_DEFINITIONS[unitType];
-      const remainingCost = Math.max(0, stats.productionCost - currentProductionPoints);
-      const turns = remainingCost > 0 ? Math.ceil(remainingCost / cityProductionCapacity) : 1;
+      const turns = this.getTurnsToComplete(stats.productionCost, currentProductionPoints, cityProductionCapacity);
       
       options.push({
         type: 'unit',
@@ -47,8 +50,7 @@ export class ProductionManager {
     const availableBuildings = this.getAvailableBuildings(knownTechnologies, existingBuildings);
     availableBuildings.forEach(buildingType => {
       const stats = BUILDING_DEFINITIONS[buildingType];
-      const remainingCost = Math.max(0, stats.productionCost - currentProductionPoints);
-      const turns = remainingCost > 0 ? Math.ceil(remainingCost / cityProductionCapacity) : 1;
+      const turns = this.getTurnsToComplete(stats.productionCost, currentProductionPoints, cityProductionCapacity);
       
       options.push({
         type: 'building',
@@ -70,6 +72,23 @@ export class ProductionManager {
       // For all other items, sort by cost
       return a.cost - b.cost;
     });
+
+    // Add available wonders
+    availableWonders.forEach(wonderType => {
+      const stats = WONDER_DEFINITIONS[wonderType];
+      if (!stats) return;
+      const turns = this.getTurnsToComplete(stats.productionCost, currentProductionPoints, cityProductionCapacity);
+
+      options.push({
+        type: 'wonder',
+        id: wonderType,
+        name: stats.name,
+        cost: stats.productionCost,
+        turns: turns,
+        description: stats.description,
+        requiredTechnology: stats.requiredTechnology
+      });
+    });
     
     return options;
   }
@@ -165,7 +184,7 @@ export class ProductionManager {
    * Check if a specific production option is available
    */
   public static canProduce(
-    type: 'unit' | 'building',
+    type: 'unit' | 'building' | 'wonder',
     id: string,
     knownTechnologies: TechnologyType[],
     existingBuildings: BuildingType[] = []
@@ -195,21 +214,58 @@ export class ProductionManager {
       }
       
       return true;
+    } else if (type === 'wonder') {
+      // Whether another civilization has finished it is checked against the game state
+      const stats = WONDER_DEFINITIONS[id as WonderType];
+      if (!stats) return false;
+
+      return knownTechnologies.includes(stats.requiredTechnology);
     }
     
     return false;
   }
   
+  /**
+   * Get the number of turns needed to finish an item from the shields already stored
+   */
+  public static getTurnsToComplete(cost: number, storedShields: number, shieldsPerTurn: number): number {
+    const remainingCost = Math.max(0, cost - storedShields);
+    if (remainingCost === 0) return 1;
+    return Math.ceil(remainingCost / Math.max(1, shieldsPerTurn));
+  }
+
+  /**
+   * Get the gold price to finish an item immediately (Civilization I formula):
+   * 2 gold per remaining shield plus remaining²/20, doubled for units and wonders,
+   * and quadrupled if no shields have been put toward it yet
+   */
+  public static getBuyCost(type: 'unit' | 'building' | 'wonder', cost: number, storedShields: number): number {
+    const remaining = Math.max(0, cost - storedShields);
+    if (remaining === 0) return 0;
+
+    let price = 2 * remaining + Math.floor((remaining * remaining) / 20);
+    if (type === 'unit' || type === 'wonder') {
+      price *= 2;
+    }
+    if (storedShields <= 0) {
+      price *= 4;
+    }
+    return price;
+  }
+
   /**
    * Get production cost for an item
    */
-  public static getProductionCost(type: 'unit' | 'building', id: string): number {
+  public static getProductionCost(type: 'unit' | 'building' | 'wonder', id: string): number {
     if (type === 'unit') {
       const stats = UNIT_DEFINITIONS[id as UnitType];
       return stats?.productionCost || 0;
     } else if (type === 'building') {
       const stats = BUILDING_DEFINITIONS[id as BuildingType];
       return stats?.productionCost || 0;
+    } else if (type === 'wonder') {
+      const stats = WONDER_DEFINITIONS[id as WonderType];
+      return stats?.productionCost || 0;
     }
     
     return 0;
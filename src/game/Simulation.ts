@@ -0,0 +1,163 @@
+import type { GameState, MapScenario, Player } from '../types/game';
+import { GamePhase } from '../types/game';
+import { Game } from './Game';
+import { getCivilization } from './CivilizationDefinitions';
+import { HappinessSystem } from './HappinessSystem';
+import { canUnitAttack } from './UnitDefinitions';
+import { VisibilitySystem } from './VisibilitySystem';
+import { getPlayerWonders } from './WonderDefinitions';
+import { createSeededRandom } from '../utils/Random';
+
+export interface SimulationOptions {
+  players: number;
+  turns: number;
+  seed: number;
+  scenario?: MapScenario;
+  quiet?: boolean; // Silence the game's console logging while it runs
+}
+
+export interface PlayerTurnStats {
+  turn: number;
+  playerId: string;
+  civilization: string;
+  cities: number;
+  population: number;
+  technologies: number;
+  military: number;
+  score: number;
+}
+
+export interface SimulationResult {
+  seed: number;
+  scenario: MapScenario;
+  turnsPlayed: number;
+  stats: PlayerTurnStats[];
+}
+
+/**
+ * Headless AI-vs-AI games for balance testing.
+ * Every civilization is played by the computer through the game's own rules, with no
+ * browser, and each player's standing is recorded at the end of every turn. The same
+ * seed and options always play out the same game.
+ */
+export class Simulation {
+  // Columns of the CSV export, in order
+  public static readonly CSV_COLUMNS: (keyof PlayerTurnStats)[] = [
+    'turn', 'playerId', 'civilization', 'cities', 'population', 'technologies', 'military', 'score'
+  ];
+
+  // Score for each wonder a civilization owns
+  public static readonly WONDER_SCORE = 20;
+
+  /**
+   * Play a game between computer players and collect per-turn stats for each of them.
+   * Stops early if the game ends before the last turn.
+   */
+  public static async run(options: SimulationOptions): Promise<SimulationResult> {
+    const scenario = options.scenario ?? 'earth';
+    const stats: PlayerTurnStats[] = [];
+    let turnsPlayed = 0;
+
+    // Map generation, combat and the computer players all draw on Math.random,
+    // so seeding it for the length of the run makes the whole game reproducible
+    const random = Math.random;
+    const log = { log: console.log, info: console.info, warn: console.warn };
+    try {
+      Math.random = createSeededRandom(options.seed);
+      if (options.quiet) {
+        console.log = console.info = console.warn = () => {};
+      }
+
+      const game = new Game({ headless: true });
+      const names = Array.from({ length: options.players }, (_, index) => `Computer ${index + 1}`);
+      game.initializeGame(names, scenario);
+
+      while (turnsPlayed < options.turns && game.getGameState().gamePhase === GamePhase.PLAYING) {
+        await this.playTurn(game);
+        turnsPlayed++;
+
+        const gameState = game.getGameState();
+        gameState.players.forEach(player => stats.push(this.getPlayerStats(gameState, player, turnsPlayed)));
+      }
+    } finally {
+      Math.random = random;
+      Object.assign(console, log);
+    }
+
+    return { seed: options.seed, scenario, turnsPlayed, stats };
+  }
+
+  /**
+   * A player's standing: cities, citizens, technologies, military units and score
+   */
+  public static getPlayerStats(gameState: GameState, player: Player, turn: number): PlayerTurnStats {
+    const cities = gameState.cities.filter(c => c.playerId === player.id);
+    return {
+      turn,
+      playerId: player.id,
+      civilization: getCivilization(player.civilizationType).name,
+      cities: cities.length,
+      population: cities.reduce((total, city) => total + city.population, 0),
+      technologies: player.technologies.length,
+      military: gameState.units.filter(u => u.playerId === player.id && canUnitAttack(u.type)).length,
+      score: this.getScore(gameState, player.id)
+    };
+  }
+
+  /**
+   * Civilization score: two points per happy citizen, one per content citizen
+   * and twenty per wonder
+   */
+  public static getScore(gameState: GameState, playerId: string): number {
+    const citizens = gameState.cities
+      .filter(c => c.playerId === playerId)
+      .reduce((total, city) => {
+        const happiness = HappinessSystem.calculateHappiness(gameState, city);
+        return total + happiness.happy * 2 + happiness.content;
+      }, 0);
+    return citizens + getPlayerWonders(gameState, playerId).length * this.WONDER_SCORE;
+  }
+
+  /**
+   * Stats as CSV, one row per player per turn
+   */
+  public static toCSV(result: SimulationResult): string {
+    const rows = result.stats.map(row => this.CSV_COLUMNS.map(column => this.formatCSVValue(row[column])).join(','));
+    return [this.CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * The whole result as JSON
+   */
+  public static toJSON(result: SimulationResult): string {
+    return JSON.stringify(result, null, 2) + '\n';
+  }
+
+  // Play every civilization's move for the current turn, as ending a turn does in the browser
+  private static async playTurn(game: Game): Promise<void> {
+    const turn = game.getGameState().turn;
+    while (game.getGameState().turn === turn && game.getGameState().gamePhase === GamePhase.PLAYING) {
+      await game.playAITurn();
+    }
+    VisibilitySystem.updateAllVisibility(game.getGameState());
+    this.processEvents(game);
+  }
+
+  // Act on the turn's events as the browser does once it has shown them: completed
+  // research is discovered, and the events are cleared
+  private static processEvents(game: Game): void {
+    const events = game.getGameState().events ?? [];
+    events.forEach(event => {
+      if (event.type === 'technologyCompleted' && event.technologyType) {
+        game.researchTechnology(event.playerId, event.technologyType);
+      }
+    });
+    events.length = 0;
+  }
+
+  // Quote text containing separators, quotes or line breaks
+  private static formatCSVValue(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
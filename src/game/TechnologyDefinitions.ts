@@ -295,7 +295,7 @@ export const TECHNOLOGY_DEFINITIONS: Record<TechnologyType, Technology> = {
     era: TechnologyEra.ANCIENT,
     description: 'Spiritual beliefs and religious practices',
     unlocks: {
-      buildings: ['oracle']
+      wonders: ['oracle']
     }
   },
 
@@ -407,7 +407,9 @@ export const TECHNOLOGY_DEFINITIONS: Record<TechnologyType, Technology> = {
     prerequisites: [TechnologyType.THE_WHEEL, TechnologyType.CONSTRUCTION],
     era: TechnologyEra.CLASSICAL,
     description: 'Advanced construction and mechanical principles',
-    unlocks: {}
+    unlocks: {
+      wonders: ['king_richards_crusade']
+    }
   },
 
   [TechnologyType.ASTRONOMY]: {
@@ -0,0 +1,227 @@
+import type { City, GameState, Player, Position, Tile, Unit } from '../types/game';
+import { CaravanAction, TerrainType } from '../types/game';
+import { getUnitStats } from './UnitDefinitions';
+import { PathFinder } from './PathFinder';
+
+export interface CaravanActionOption {
+  action: CaravanAction;
+  available: boolean;
+  reason?: string; // Why the action cannot be taken
+}
+
+export interface CaravanActionResult {
+  action: CaravanAction;
+  success: boolean;
+  message: string;
+  city: City;
+  homeCity?: City;
+  routeTrade?: number; // Trade the new route adds to each city every turn
+  deliveryBonus?: number; // One-time gold and science for the delivery
+  shields?: number; // Shields added to a wonder
+}
+
+// Land masses keyed by "x,y", cached per map since terrain does not change
+const continentCache = new WeakMap<Tile[][], Map<string, number>>();
+
+/**
+ * Caravan trade routes and wonder help (Civilization I).
+ * A caravan entering a foreign city, or one of its owner's cities at least ten tiles from
+ * its home city, sets up a permanent trade route between the two (at most three per city)
+ * and pays a one-time delivery bonus in gold and toward the current research. Route trade grows with distance
+ * and city sizes, is halved within a civilization and doubled across continents.
+ * A caravan may instead add its shields to a wonder being built in one of its owner's cities.
+ */
+export class TradeRouteSystem {
+  public static readonly MAX_ROUTES_PER_CITY = 3;
+  // Minimum distance between two of a player's own cities for a route
+  public static readonly MIN_DOMESTIC_DISTANCE = 10;
+
+  /**
+   * Get what a caravan may do in a city
+   */
+  public static getCaravanActions(gameState: GameState, caravan: Unit, city: City): CaravanActionOption[] {
+    const abilities = getUnitStats(caravan.type).specialAbilities || [];
+    const options: CaravanActionOption[] = [];
+
+    if (abilities.includes(CaravanAction.ESTABLISH_TRADE_ROUTE)) {
+      const reason = this.getRouteBlocker(gameState, caravan, city);
+      options.push({ action: CaravanAction.ESTABLISH_TRADE_ROUTE, available: !reason, reason });
+    }
+
+    if (abilities.includes(CaravanAction.HELP_WONDER) && city.playerId === caravan.playerId) {
+      const buildingWonder = city.production?.type === 'wonder';
+      options.push({
+        action: CaravanAction.HELP_WONDER,
+        available: buildingWonder,
+        reason: buildingWonder ? undefined : 'City is not building a wonder'
+      });
+    }
+
+    return options;
+  }
+
+  /**
+   * Trade a route between two cities yields each of them every turn:
+   * (distance + 10) x (combined size) / 24, halved between cities of one civilization
+   * and doubled between continents
+   */
+  public static getRouteTrade(gameState: GameState, city: City, partner: City): number {
+    return Math.max(1, Math.floor(this.getRouteValue(gameState, city, partner) / 24));
+  }
+
+  /**
+   * Total trade a city earns from its routes
+   */
+  public static getRoutesTrade(gameState: GameState, city: City): number {
+    return this.getPartners(gameState, city)
+      .reduce((total, partner) => total + this.getRouteTrade(gameState, city, partner), 0);
+  }
+
+  /**
+   * Get the cities a city trades with
+   */
+  public static getPartners(gameState: GameState, city: City): City[] {
+    return (city.tradeRoutes || [])
+      .map(id => gameState.cities.find(c => c.id === id))
+      .filter((c): c is City => !!c);
+  }
+
+  /**
+   * One-time gold and science for delivering a caravan: (distance + 10) x (combined size) / 8,
+   * with the same domestic and continent modifiers as route trade
+   */
+  public static getDeliveryBonus(gameState: GameState, homeCity: City, city: City): number {
+    return Math.floor(this.getRouteValue(gameState, homeCity, city) / 8);
+  }
+
+  /**
+   * Carry out a caravan action in a city. The caravan is used up.
+   */
+  public static performCaravanAction(gameState: GameState, caravan: Unit, city: City, action: CaravanAction): CaravanActionResult {
+    const option = this.getCaravanActions(gameState, caravan, city).find(o => o.action === action);
+    if (!option || !option.available) {
+      return { action, success: false, city, message: option?.reason || 'The caravan cannot do that.' };
+    }
+
+    const player = gameState.players.find(p => p.id === caravan.playerId)!;
+    const result = action === CaravanAction.ESTABLISH_TRADE_ROUTE
+      ? this.establishRoute(gameState, caravan, city, player)
+      : this.helpBuildWonder(caravan, city);
+
+    gameState.units = gameState.units.filter(u => u.id !== caravan.id);
+    return result;
+  }
+
+  /**
+   * Get the land mass a tile belongs to, or -1 for ocean
+   */
+  public static getContinentId(gameState: GameState, position: Position): number {
+    let continents = continentCache.get(gameState.worldMap);
+    if (!continents) {
+      continents = this.labelContinents(gameState);
+      continentCache.set(gameState.worldMap, continents);
+    }
+    return continents.get(`${position.x},${position.y}`) ?? -1;
+  }
+
+  private static establishRoute(gameState: GameState, caravan: Unit, city: City, player: Player): CaravanActionResult {
+    const homeCity = gameState.cities.find(c => c.id === caravan.homeCityId)!;
+    homeCity.tradeRoutes = [...(homeCity.tradeRoutes || []), city.id];
+    city.tradeRoutes = [...(city.tradeRoutes || []), homeCity.id];
+
+    const routeTrade = this.getRouteTrade(gameState, homeCity, city);
+    const deliveryBonus = this.getDeliveryBonus(gameState, homeCity, city);
+    player.gold += deliveryBonus;
+    // The science goes toward the current research, so there is none without one
+    const science = player.currentResearch ? deliveryBonus : 0;
+    player.currentResearchProgress = (player.currentResearchProgress || 0) + science;
+
+    const message = `Trade route established between ${homeCity.name} and ${city.name} (+${routeTrade} trade). ` +
+      `Delivery earns ${deliveryBonus} gold${science ? ` and ${science} science` : ''}.`;
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: 'tradeRouteEstablished',
+      playerId: player.id,
+      player,
+      cityId: city.id,
+      targetPlayerId: city.playerId,
+      message
+    });
+
+    return { action: CaravanAction.ESTABLISH_TRADE_ROUTE, success: true, message, city, homeCity, routeTrade, deliveryBonus };
+  }
+
+  private static helpBuildWonder(caravan: Unit, city: City): CaravanActionResult {
+    const shields = getUnitStats(caravan.type).productionCost;
+    city.production_points += shields;
+    return {
+      action: CaravanAction.HELP_WONDER,
+      success: true,
+      message: `Caravan adds ${shields} shields to the wonder in ${city.name}.`,
+      city,
+      shields
+    };
+  }
+
+  // (distance + 10) x combined size, with the domestic and continent modifiers
+  private static getRouteValue(gameState: GameState, city: City, partner: City): number {
+    const distance = PathFinder.getDistance(gameState, city.position, partner.position);
+    let value = (distance + 10) * (city.population + partner.population);
+    if (city.playerId === partner.playerId) {
+      value /= 2;
+    }
+    if (this.getContinentId(gameState, city.position) !== this.getContinentId(gameState, partner.position)) {
+      value *= 2;
+    }
+    return value;
+  }
+
+  // Why a caravan cannot open a route to a city, if it cannot
+  private static getRouteBlocker(gameState: GameState, caravan: Unit, city: City): string | undefined {
+    const homeCity = gameState.cities.find(c => c.id === caravan.homeCityId);
+    if (!homeCity || homeCity.playerId !== caravan.playerId) return 'Caravan has no home city';
+    if (homeCity.id === city.id) return 'Cannot trade with its own home city';
+    if (homeCity.tradeRoutes?.includes(city.id)) return `${homeCity.name} already trades with ${city.name}`;
+    if ((homeCity.tradeRoutes || []).length >= this.MAX_ROUTES_PER_CITY) return `${homeCity.name} has no room for more routes`;
+    if ((city.tradeRoutes || []).length >= this.MAX_ROUTES_PER_CITY) return `${city.name} has no room for more routes`;
+    if (city.playerId === caravan.playerId &&
+        PathFinder.getDistance(gameState, homeCity.position, city.position) < this.MIN_DOMESTIC_DISTANCE) {
+      return `${city.name} is too close to ${homeCity.name}`;
+    }
+    return undefined;
+  }
+
+  // Flood fill land tiles (wrapping east-west) into numbered continents
+  private static labelContinents(gameState: GameState): Map<string, number> {
+    const labels = new Map<string, number>();
+    const height = gameState.worldMap.length;
+    const width = gameState.worldMap[0]?.length || 0;
+    let next = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (gameState.worldMap[y][x].terrain === TerrainType.OCEAN || labels.has(`${x},${y}`)) continue;
+
+        const id = next++;
+        const stack: Position[] = [{ x, y }];
+        labels.set(`${x},${y}`, id);
+        while (stack.length > 0) {
+          const current = stack.pop()!;
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const ny = current.y + dy;
+              const nx = ((current.x + dx) % width + width) % width;
+              const key = `${nx},${ny}`;
+              if (ny < 0 || ny >= height || labels.has(key)) continue;
+              if (gameState.worldMap[ny][nx].terrain === TerrainType.OCEAN) continue;
+              labels.set(key, id);
+              stack.push({ x: nx, y: ny });
+            }
+          }
+        }
+      }
+    }
+
+    return labels;
+  }
+}
@@ -0,0 +1,96 @@
+import type { GameState, Position, Unit } from '../types/game';
+import { UnitCategory } from '../types/game';
+import { getUnitStats } from './UnitDefinitions';
+
+/**
+ * Ships carrying units across the ocean.
+ * A land unit that moves onto an ocean tile holding one of its owner's ships boards it,
+ * travels with it, and disembarks by moving onto adjacent land. Carriers take aircraft
+ * instead of land units. Cargo goes down with its ship.
+ */
+export class TransportSystem {
+  /**
+   * Get how many units of this kind a ship can carry
+   */
+  public static getCapacity(ship: Unit, unit: Unit): number {
+    const shipStats = getUnitStats(ship.type);
+    if (shipStats.category !== UnitCategory.NAVAL || !shipStats.canCarryUnits) return 0;
+
+    const category = getUnitStats(unit.type).category;
+    const carriesAircraft = !!shipStats.specialAbilities?.includes('air_base');
+    if (category === UnitCategory.AIR) {
+      return carriesAircraft ? shipStats.canCarryUnits : 0;
+    }
+    if (category === UnitCategory.LAND || category === UnitCategory.SPECIAL) {
+      return carriesAircraft ? 0 : shipStats.canCarryUnits;
+    }
+    return 0;
+  }
+
+  /**
+   * Get the units aboard a ship
+   */
+  public static getCargo(gameState: GameState, ship: Unit): Unit[] {
+    return gameState.units.filter(u => u.transportId === ship.id);
+  }
+
+  /**
+   * Check whether a ship belongs to the unit's owner and has room for it
+   */
+  public static canBoard(gameState: GameState, unit: Unit, ship: Unit): boolean {
+    if (ship.playerId !== unit.playerId || ship.id === unit.id) return false;
+    if (unit.transportId === ship.id) return true;
+
+    return this.getCargo(gameState, ship).length < this.getCapacity(ship, unit);
+  }
+
+  /**
+   * Find a ship with room for the unit on a tile
+   */
+  public static findTransport(gameState: GameState, unit: Unit, position: Position): Unit | undefined {
+    return gameState.units.find(u =>
+      u.position.x === position.x &&
+      u.position.y === position.y &&
+      this.canBoard(gameState, unit, u)
+    );
+  }
+
+  /**
+   * Put a unit aboard a ship on the ship's tile
+   */
+  public static board(unit: Unit, ship: Unit): void {
+    unit.transportId = ship.id;
+    unit.position = { ...ship.position };
+    unit.fortified = false;
+    unit.fortifying = false;
+  }
+
+  /**
+   * Take a unit off its ship
+   */
+  public static disembark(unit: Unit): void {
+    unit.transportId = undefined;
+  }
+
+  /**
+   * Keep a ship's cargo on the ship's tile after it moves
+   */
+  public static moveCargo(gameState: GameState, ship: Unit): void {
+    this.getCargo(gameState, ship).forEach(cargo => {
+      cargo.position = { ...ship.position };
+    });
+  }
+
+  /**
+   * Remove units from the game along with any cargo they carry.
+   * Returns every unit removed.
+   */
+  public static removeUnits(gameState: GameState, units: Unit[]): Unit[] {
+    const removedIds = new Set(units.map(u => u.id));
+    const cargo = gameState.units.filter(u => u.transportId && removedIds.has(u.transportId) && !removedIds.has(u.id));
+    cargo.forEach(u => removedIds.add(u.id));
+
+    gameState.units = gameState.units.filter(u => !removedIds.has(u.id));
+    return [...units, ...cargo];
+  }
+}
@@ -1,15 +1,65 @@
-import type { GameState, Unit, City, UnitType } from '../types/game';
+import type { GameState, Unit, City, UnitType, Player, WonderType } from '../types/game';
+import { GOVERNMENTS, GovernmentType, TerrainType, UnitCategory } from '../types/game';
 import { createUnit } from './Units';
-import { getUnitStats } from './UnitDefinitions';
-import { getResearchCost } from './TechnologyDefinitions';
+import { getUnitStats, getUnitName } from './UnitDefinitions';
+import { TechnologyType, canResearch, getResearchCost } from './TechnologyDefinitions';
 import { ProductionManager } from './ProductionManager';
 import { UNIT_DEFINITIONS } from './UnitDefinitions';
 import { CityGrowthSystem } from './CityGrowthSystem';
+import { CityEconomy } from './CityEconomy';
+import { BUILDING_DEFINITIONS } from './BuildingDefinitions';
+import { HappinessSystem } from './HappinessSystem';
+import { VisibilitySystem } from './VisibilitySystem';
+import { WONDER_DEFINITIONS, getPlayerWonderEffects, isWonderBuilt } from './WonderDefinitions';
+import { TransportSystem } from './TransportSystem';
+import { ConquestSystem } from './ConquestSystem';
+import { DiplomacySystem } from './DiplomacySystem';
 
 export class TurnManager {
+  // Chance that a trireme ending its turn away from land is lost (Civilization I)
+  public static readonly LOST_AT_SEA_CHANCE = 0.5;
+
+  private random: () => number;
+
+  // Pass a seeded random source for reproducible turns
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  // Check whether a unit risks being lost at sea if it ends its turn where it is.
+  // Triremes must stay next to land until their owner learns Navigation or holds the Lighthouse.
+  public static isAtRiskOfLossAtSea(gameState: GameState, unit: Unit): boolean {
+    if (!getUnitStats(unit.type).specialAbilities?.includes('lost_at_sea_risk')) return false;
+
+    const owner = gameState.players.find(p => p.id === unit.playerId);
+    if (owner?.technologies.includes(TechnologyType.NAVIGATION)) return false;
+    if (getPlayerWonderEffects(gameState, unit.playerId).safeTriremes) return false;
+
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const x = ((unit.position.x + dx) % mapWidth + mapWidth) % mapWidth;
+        const tile = gameState.worldMap[unit.position.y + dy]?.[x];
+        if (tile && tile.terrain !== TerrainType.OCEAN) return false;
+      }
+    }
+    return true;
+  }
+
+  // Get the calendar year for a turn (starting from 4000 BC, 20 years per turn)
+  public static getYearLabel(turn: number): string {
+    const year = 4000 - (turn - 1) * 20;
+    return year > 0 ? `${year} BC` : `${Math.abs(year)} AD`;
+  }
   
   // Process end of turn
   public processTurn(gameState: GameState): void {
+    // Triremes ending the turn away from land may sink
+    this.processLossesAtSea(gameState);
+
+    // Aircraft burn fuel away from a city or carrier and crash when it runs out
+    this.processAircraftFuel(gameState);
+
     // Process fortification progression for current player's units
     this.processFortificationProgression(gameState);
     
@@ -21,26 +71,107 @@ export class TurnManager {
     
     // Update player resources
     this.updatePlayerResources(gameState);
+
+    // Ongoing wonder effects that grant technologies
+    this.processGreatLibrary(gameState);
+
+    // Anarchy counts down until the new government can be chosen
+    this.processRevolution(gameState);
     
-    // Move to next player
-    this.nextPlayer(gameState);
-    
-    // If back to first player, increment turn counter
-    if (gameState.currentPlayer === gameState.players[0].id) {
+    // Move to next player; wrapping back around the turn order starts a new turn
+    if (this.nextPlayer(gameState)) {
       gameState.turn++;
+
+      // Ceasefires that were not turned into peace lapse back into war
+      DiplomacySystem.processTurn(gameState);
     }
   }
 
+  // Count down the current player's revolution while in anarchy
+  private processRevolution(gameState: GameState): void {
+    const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+    if (!player || player.government !== GovernmentType.ANARCHY || !player.revolutionTurns) return;
+
+    player.revolutionTurns = Math.max(0, player.revolutionTurns - 1);
+  }
+
+  // Roll for each of the current player's ships at risk on open sea; cargo goes down with them
+  private processLossesAtSea(gameState: GameState): void {
+    const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+    if (!player) return;
+
+    let unitsLost = false;
+    gameState.units
+      .filter(unit => unit.playerId === player.id && TurnManager.isAtRiskOfLossAtSea(gameState, unit))
+      .forEach(ship => {
+        if (this.random() >= TurnManager.LOST_AT_SEA_CHANCE) return;
+
+        const lost = TransportSystem.removeUnits(gameState, [ship]);
+        unitsLost = true;
+        const cargoText = lost.length > 1 ? ` ${lost.length - 1} unit(s) aboard perished.` : '';
+        gameState.events = gameState.events || [];
+        gameState.events.push({
+          type: 'unitDestroyed',
+          playerId: player.id,
+          player,
+          message: `${getUnitName(ship.type)} lost at sea!${cargoText}`
+        });
+      });
+
+    // Settlers lost at sea may leave a player with nothing
+    if (unitsLost) {
+      ConquestSystem.checkElimination(gameState, player);
+    }
+  }
+
+  // Check whether an aircraft is at a friendly city or aboard a carrier, where it refuels
+  public static isAtAirBase(gameState: GameState, unit: Unit): boolean {
+    if (unit.transportId) return true;
+    return gameState.cities.some(c =>
+      c.playerId === unit.playerId && c.position.x === unit.position.x && c.position.y === unit.position.y
+    );
+  }
+
+  // Refuel aircraft at a base and burn a turn of fuel for the rest, losing those that run dry
+  private processAircraftFuel(gameState: GameState): void {
+    const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+    if (!player) return;
+
+    gameState.units
+      .filter(unit => unit.playerId === player.id && getUnitStats(unit.type).fuel)
+      .forEach(aircraft => {
+        const maxFuel = getUnitStats(aircraft.type).fuel!;
+        if (TurnManager.isAtAirBase(gameState, aircraft)) {
+          aircraft.fuel = maxFuel;
+          return;
+        }
+
+        aircraft.fuel = (aircraft.fuel ?? maxFuel) - 1;
+        if (aircraft.fuel > 0) return;
+
+        gameState.units = gameState.units.filter(u => u.id !== aircraft.id);
+        gameState.events = gameState.events || [];
+        gameState.events.push({
+          type: 'unitDestroyed',
+          playerId: player.id,
+          player,
+          message: `${getUnitName(aircraft.type)} ran out of fuel and crashed!`
+        });
+      });
+  }
+
   // Update movement points for all units of current player using new unit system
   private restoreMovementPoints(gameState: GameState): void {
     const currentPlayer = gameState.currentPlayer;
+    const navalBonus = getPlayerWonderEffects(gameState, currentPlayer).navalMovementBonus || 0;
     
     gameState.units
       .filter(unit => unit.playerId === currentPlayer)
       .forEach(unit => {
         const stats = getUnitStats(unit.type);
-        unit.maxMovementPoints = stats.movement;
-        unit.movementPoints = stats.movement;
+        const movement = stats.movement + (stats.category === UnitCategory.NAVAL ? navalBonus : 0);
+        unit.maxMovementPoints = movement;
+        unit.movementPoints = movement;
       });
   }
 
@@ -51,11 +182,34 @@ export class TurnManager {
     gameState.cities
       .filter(city => city.playerId === currentPlayer)
       .forEach(city => {
+        this.processCityHappiness(city, gameState);
         this.processCityGrowth(city, gameState);
-        this.processCityProduction(city, gameState);
+        // Civil disorder halts production
+        if (!city.inDisorder) {
+          this.processCityProduction(city, gameState);
+        }
       });
   }
 
+  // Update a city's civil disorder state, notifying the owner when it starts or ends
+  private processCityHappiness(city: City, gameState: GameState): void {
+    const wasInDisorder = !!city.inDisorder;
+    city.inDisorder = HappinessSystem.isInDisorder(gameState, city);
+    if (city.inDisorder === wasInDisorder) return;
+
+    const player = gameState.players.find(p => p.id === city.playerId);
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: city.inDisorder ? 'civilDisorder' : 'orderRestored',
+      playerId: city.playerId,
+      player,
+      cityId: city.id,
+      message: city.inDisorder
+        ? `Civil disorder in ${city.name}! Production and taxes have halted.`
+        : `Order restored in ${city.name}.`
+    });
+  }
+
   // Process city growth using Civilization I mechanics
   private processCityGrowth(city: City, gameState: GameState): void {
     // Initialize food storage system if not already done
@@ -75,73 +229,43 @@ export class TurnManager {
     }
   }
 
-  // Calculate total food production for a city
+  // Calculate total food production for a city from its center and worked tiles
   private calculateCityFoodProduction(city: City, gameState: GameState): number {
-    // This is a placeholder - in the full implementation, this would calculate
-    // food from worked tiles based on terrain, improvements, and buildings
-    
-    // Base food production (simplified)
-    let foodProduction = 2; // City center always produces at least 2 food
-    
-    // Add food per population (simplified - each citizen working produces some food)
-    foodProduction += Math.floor(city.population * 1.5);
-    
-    // Building bonuses
-    if (city.buildings.some(b => b.type === 'granary')) {
-      foodProduction += 1; // Granary doesn't increase production, but helps with storage
-    }
-    
-    // TODO: Use gameState to calculate yields from worked tiles based on terrain and improvements
-    // For now, just add some basic variation based on map size to acknowledge the parameter
-    const mapSize = gameState.worldMap.length * gameState.worldMap[0].length;
-    const sizeBonus = mapSize > 3000 ? 1 : 0; // Slightly more food on larger maps
-    
-    return foodProduction + sizeBonus;
+    return CityEconomy.calculateCityYields(gameState, city).food;
   }
 
-  // Calculate food production for a city
-  private calculateFoodProduction(city: City): number {
-    // Base food production
-    let food = 2;
-    
-    // Add food from buildings
-    if (city.buildings.some(b => b.type === 'granary')) {
-      food += 1;
-    }
-    
-    return food;
-  }
-
-  // Process city production
+  // Process city production - shields accumulate until they cover the item's cost
   private processCityProduction(city: City, gameState: GameState): void {
     if (!city.production) return;
 
-    const productionPerTurn = this.calculateProductionOutput(city);
+    const productionPerTurn = this.calculateProductionOutput(city, gameState);
     city.production_points += productionPerTurn;
 
     // Check if production is complete
-    city.production.turnsRemaining--;
-    
-    if (city.production.turnsRemaining <= 0) {
-      this.completeProduction(city, gameState);
+    const cost = ProductionManager.getProductionCost(city.production.type, city.production.item as string);
+    if (cost > 0 && city.production_points >= cost) {
+      this.completeProduction(city, gameState, cost);
     }
+
+    // Derive turns remaining from the actual shield surplus
+    this.updateTurnsRemaining(city, productionPerTurn);
   }
 
-  // Calculate production output for a city
-  private calculateProductionOutput(city: City): number {
-    // Base production
-    let production = 1;
-    
-    // Add production from buildings
-    if (city.buildings.some(b => b.type === 'barracks')) {
-      production += 1;
-    }
-    
-    return production;
+  // Recalculate turns remaining for the city's current production item
+  private updateTurnsRemaining(city: City, productionPerTurn: number): void {
+    if (!city.production) return;
+
+    const cost = ProductionManager.getProductionCost(city.production.type, city.production.item as string);
+    city.production.turnsRemaining = ProductionManager.getTurnsToComplete(cost, city.production_points, productionPerTurn);
   }
 
-  // Complete a production item
-  private completeProduction(city: City, gameState: GameState): void {
+  // Calculate production output (shields) for a city from its center and worked tiles
+  private calculateProductionOutput(city: City, gameState: GameState): number {
+    return CityEconomy.calculateCityYields(gameState, city).production;
+  }
+
+  // Complete a production item, carrying any shields beyond its cost over to the next item
+  private completeProduction(city: City, gameState: GameState, cost: number): void {
     if (!city.production) return;
 
     // Get the player to validate they still have the required technologies
@@ -154,7 +278,7 @@ export class TurnManager {
     // Validate that the player can still produce this item
     const existingBuildings = city.buildings.map(b => b.type as any);
     const canStillProduce = ProductionManager.canProduce(
-      productionType as 'unit' | 'building',
+      productionType,
       productionItem as string,
       player.technologies,
       existingBuildings
@@ -180,39 +304,37 @@ export class TurnManager {
         this.createBuilding(city, productionItem as any);
         break;
       case 'wonder':
-        // Handle wonder construction
+        // Another civilization finished it first; keep the shields for something else
+        if (isWonderBuilt(gameState, productionItem as WonderType)) {
+          city.production = null;
+          return;
+        }
+        this.createWonder(city, productionItem as WonderType, gameState);
         break;
     }
 
-    // Implement Civ1 behavior: 
-    // - If unit completed: reset shields and auto-start another land unit
-    // - If building completed: keep shields for next building (the famous "shield bug")
-    if (completedType === 'unit') {
-      // Reset production shields and auto-start another land unit
-      city.production_points = 0;
-      this.autoStartNextLandUnit(city, player);
-    } else if (completedType === 'building') {
-      // Keep accumulated shields for next building (Civ1 "shield bug" feature)
-      // This allows switching to wonders and potentially being close to completion
-      // Only clear production item, keep the shields
-      city.production = null;
-      // Note: city.production_points is NOT reset here - this is the key feature!
+    // Spend the item's cost; the overflow goes toward the next item
+    city.production_points = Math.max(0, city.production_points - cost);
+
+    // Implement Civ1 behavior:
+    // - If a human player's unit completed: auto-start another land unit
+    // - Otherwise: clear the production item so the player (or the AI planner) chooses the next one
+    if (completedType === 'unit' && player.isHuman) {
+      this.autoStartNextLandUnit(city, player, gameState);
     } else {
-      // For wonders and other items, clear everything
       city.production = null;
-      city.production_points = 0;
     }
   }
 
   // Auto-start the next available land unit (Civ1 behavior)
-  private autoStartNextLandUnit(city: City, player: any): void {
+  private autoStartNextLandUnit(city: City, player: any, gameState: GameState): void {
     const existingBuildings = city.buildings.map(b => b.type as any);
     
     // Get available land units
     const availableOptions = ProductionManager.getAvailableProduction(
       player.technologies,
       existingBuildings,
-      this.calculateProductionOutput(city),
+      this.calculateProductionOutput(city, gameState),
       city.production_points
     );
     
@@ -253,10 +375,104 @@ export class TurnManager {
       city.position,
       city.playerId
     );
+    newUnit.homeCityId = city.id;
 
     gameState.units.push(newUnit);
   }
 
+  // Complete a wonder: record it for the world, apply its one-time effects and
+  // stop every other city that was racing to build it
+  private createWonder(city: City, wonderType: WonderType, gameState: GameState): void {
+    const player = gameState.players.find(p => p.id === city.playerId);
+    if (!player) return;
+
+    const stats = WONDER_DEFINITIONS[wonderType];
+    gameState.wonders = gameState.wonders || {};
+    gameState.wonders[wonderType] = { cityId: city.id, playerId: player.id, turnBuilt: gameState.turn };
+
+    const granted: TechnologyType[] = [];
+    for (let i = 0; i < (stats.effects.freeTechnologies || 0); i++) {
+      const technology = player.currentResearch || this.getCheapestResearchable(player);
+      if (!technology) break;
+      this.grantTechnology(player, technology);
+      granted.push(technology);
+    }
+
+    if (stats.effects.revealsAllCities) {
+      const cityPositions = gameState.cities.map(c => c.position);
+      gameState.players.forEach(p => VisibilitySystem.revealTiles(gameState, p.id, cityPositions));
+    }
+
+    gameState.events = gameState.events || [];
+    gameState.events.push({
+      type: 'wonderCompleted',
+      playerId: player.id,
+      player,
+      cityId: city.id,
+      wonderType,
+      technologies: granted,
+      message: `${city.name} completes the ${stats.name}!`
+    });
+
+    gameState.cities
+      .filter(other => other !== city && other.production?.type === 'wonder' && other.production.item === wonderType)
+      .forEach(other => {
+        other.production = null;
+        const owner = gameState.players.find(p => p.id === other.playerId);
+        gameState.events!.push({
+          type: 'wonderUnavailable',
+          playerId: other.playerId,
+          player: owner,
+          cityId: other.id,
+          wonderType,
+          message: `${other.name} can no longer build the ${stats.name}: it has been completed in ${city.name}. Choose new production.`
+        });
+      });
+  }
+
+  // Great Library: learn any technology already known by enough other civilizations
+  private processGreatLibrary(gameState: GameState): void {
+    const player = gameState.players.find(p => p.id === gameState.currentPlayer);
+    if (!player) return;
+
+    const threshold = getPlayerWonderEffects(gameState, player.id).techsKnownByOthers;
+    if (!threshold) return;
+
+    const others = gameState.players.filter(p => p.id !== player.id);
+    Object.values(TechnologyType).forEach(technology => {
+      if (player.technologies.includes(technology)) return;
+      const knownBy = others.filter(p => p.technologies.includes(technology)).length;
+      if (knownBy < threshold) return;
+
+      this.grantTechnology(player, technology);
+      gameState.events = gameState.events || [];
+      gameState.events.push({
+        type: 'technologyAcquired',
+        playerId: player.id,
+        player,
+        technologyType: technology,
+        message: `The Great Library gives your scholars the secret of ${technology.replace(/_/g, ' ')}.`
+      });
+    });
+  }
+
+  // Add a technology outside normal research, dropping it as the research goal if needed
+  private grantTechnology(player: Player, technology: TechnologyType): void {
+    if (player.technologies.includes(technology)) return;
+
+    player.technologies.push(technology);
+    if (player.currentResearch === technology) {
+      player.currentResearch = undefined;
+      player.currentResearchProgress = 0;
+    }
+  }
+
+  private getCheapestResearchable(player: Player): TechnologyType | undefined {
+    return Object.values(TechnologyType)
+      .filter(technology => !player.technologies.includes(technology) && canResearch(technology, player.technologies))
+      .sort((a, b) => getResearchCost(a) - getResearchCost(b))[0];
+  }
+
   // Create a new building
   private createBuilding(city: City, buildingType: string): void {
     city.buildings.push({
@@ -278,14 +494,29 @@ export class TurnManager {
     let cultureIncome = 0;
 
     playerCities.forEach(city => {
-      goldIncome += this.calculateCityGoldIncome(city);
-      scienceIncome += this.calculateCityScienceIncome(city);
       cultureIncome += this.calculateCityCultureIncome(city);
+      // Cities in civil disorder collect no taxes or science
+      if (city.inDisorder) return;
+
+      // Trade split by the player's rates, with library/marketplace/bank/university bonuses
+      const trade = CityEconomy.splitTrade(gameState, city, CityEconomy.calculateCityYields(gameState, city).trade);
+      goldIncome += this.calculateCityGoldIncome(city, trade.tax);
+      scienceIncome += trade.science;
     });
 
+    // Building upkeep is waived while the government collects no maintenance (anarchy)
+    const maintenanceCosts = GOVERNMENTS[currentPlayer.government]?.effects.maintenanceCosts ?? true;
+    const upkeep = maintenanceCosts
+      ? playerCities.reduce((total, city) => total + CityEconomy.calculateBuildingUpkeep(city), 0)
+      : 0;
+
     // Update player resources
-    currentPlayer.gold += goldIncome;
+    currentPlayer.gold += goldIncome - upkeep;
     currentPlayer.culture += cultureIncome;
+
+    if (currentPlayer.gold < 0) {
+      this.sellBuildingsForDebt(currentPlayer, gameState);
+    }
     
     // Science accumulation: if player has current research, accumulate toward it
     if (currentPlayer.currentResearch && scienceIncome > 0) {
@@ -309,25 +540,51 @@ export class TurnManager {
     }
   }
 
-  // Calculate gold income from a city
-  private calculateCityGoldIncome(city: City): number {
-    let income = city.population; // Base income per population
-    
-    // Building bonuses
-    if (city.buildings.some(b => b.type === 'temple')) {
-      income += 2;
+  // Sell buildings until the treasury is no longer in debt, most expensive upkeep first
+  private sellBuildingsForDebt(player: Player, gameState: GameState): void {
+    const playerCities = gameState.cities.filter(c => c.playerId === player.id);
+
+    while (player.gold < 0) {
+      let sale: { city: City; index: number; upkeep: number } | null = null;
+
+      for (const city of playerCities) {
+        for (let index = 0; index < city.buildings.length; index++) {
+          const upkeep = BUILDING_DEFINITIONS[city.buildings[index].type]?.maintenanceCost || 0;
+          if (upkeep > 0 && (!sale || upkeep > sale.upkeep)) {
+            sale = { city, index, upkeep };
+          }
+        }
+      }
+
+      if (!sale) break;
+
+      const { city, index } = sale;
+      const [building] = city.buildings.splice(index, 1);
+      const buildingName = BUILDING_DEFINITIONS[building.type]?.name || building.type;
+      player.gold += BUILDING_DEFINITIONS[building.type]?.productionCost || 0;
+
+      gameState.events = gameState.events || [];
+      gameState.events.push({
+        type: 'buildingSold',
+        playerId: player.id,
+        player,
+        cityId: city.id,
+        buildingType: building.type,
+        message: `${city.name} sells ${buildingName} due to lack of funds.`
+      });
     }
-    
-    return income;
+
+    // Nothing left to sell: the debt is written off
+    player.gold = Math.max(0, player.gold);
   }
 
-  // Calculate science income from a city
-  private calculateCityScienceIncome(city: City): number {
-    let income = Math.floor(city.population / 2);
+  // Calculate gold income from a city
+  private calculateCityGoldIncome(city: City, tax: number): number {
+    let income = tax; // Base income from the city's share of trade
     
     // Building bonuses
-    if (city.buildings.some(b => b.type === 'library')) {
-      income += 3;
+    if (city.buildings.some(b => b.type === 'temple')) {
+      income += 2;
     }
     
     return income;
@@ -362,10 +619,21 @@ export class TurnManager {
       });
   }
 
-  // Move to next player
-  private nextPlayer(gameState: GameState): void {
+  // Advance to the next player still in the game; returns true if the turn order wrapped around
+  private nextPlayer(gameState: GameState): boolean {
+    const count = gameState.players.length;
     const currentIndex = gameState.players.findIndex(p => p.id === gameState.currentPlayer);
-    const nextIndex = (currentIndex + 1) % gameState.players.length;
+
+    let nextIndex = currentIndex;
+    for (let step = 1; step <= count; step++) {
+      const candidate = (currentIndex + step) % count;
+      if (!gameState.players[candidate].eliminated) {
+        nextIndex = candidate;
+        break;
+      }
+    }
+
     gameState.currentPlayer = gameState.players[nextIndex].id;
+    return nextIndex <= currentIndex;
   }
 }
@@ -26,7 +26,7 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitStats> = {
     canAttack: false,
     canFortify: false,
     canMoveOnMountains: true,
-    specialAbilities: ['establish_embassy', 'steal_technology', 'sabotage', 'incite_revolt', 'bribe_units']
+    specialAbilities: ['establish_embassy', 'steal_technology', 'sabotage', 'incite_revolt', 'bribe_units', 'ignore_zone_of_control']
   },
   
   [UnitType.CARAVAN]: {
@@ -39,7 +39,7 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitStats> = {
     canAttack: false,
     canFortify: false,
     canMoveOnMountains: true,
-    specialAbilities: ['establish_trade_route', 'help_wonder_construction']
+    specialAbilities: ['establish_trade_route', 'help_wonder_construction', 'ignore_zone_of_control']
   },
   
   // Ancient military units
@@ -339,6 +339,7 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitStats> = {
     canAttack: true,
     canFortify: false,
     canMoveOnMountains: true,
+    fuel: 1,
     specialAbilities: ['must_return_to_base', 'intercept_bombers']
   },
   
@@ -353,6 +354,7 @@ export const UNIT_DEFINITIONS: Record<UnitType, UnitStats> = {
     canFortify: false,
     canMoveOnMountains: true,
     visibility: 2,
+    fuel: 2,
     specialAbilities: ['must_return_to_base', 'ignore_city_walls', 'cannot_be_attacked_by_ground']
   },
   
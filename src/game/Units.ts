@@ -15,6 +15,12 @@ export abstract class BaseUnit implements Unit {
   fortified: boolean;
   fortifying?: boolean;
   fortificationTurns?: number;
+  sleeping?: boolean;
+  buildingRoad?: boolean;
+  roadBuildingTurns?: number;
+  homeCityId?: string;
+  transportId?: string;
+  fuel?: number;
 
   constructor(
     id: string,
@@ -37,6 +43,9 @@ export abstract class BaseUnit implements Unit {
     const stats = getUnitStats(type);
     this.maxMovementPoints = stats.movement;
     this.movementPoints = stats.movement;
+    if (stats.fuel) {
+      this.fuel = stats.fuel;
+    }
   }
 
   // Abstract methods that must be implemented by subclasses
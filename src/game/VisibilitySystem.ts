@@ -0,0 +1,158 @@
+import type { GameState, Player, Position, TileMemory } from '../types/game';
+import { getUnitStats } from './UnitDefinitions';
+
+/**
+ * Fog of war and per-player exploration memory.
+ * Tiles are "visible" while a unit or city of the player can see them, and
+ * "explored" once they have ever been seen. Explored tiles remember the last
+ * known improvements and city so they can be drawn while out of sight.
+ */
+export class VisibilitySystem {
+  // Default sight radius for units without an explicit visibility stat
+  public static readonly UNIT_SIGHT_RADIUS = 1;
+  // Cities see their whole work area
+  public static readonly CITY_SIGHT_RADIUS = 2;
+
+  /**
+   * Get the key used to index a tile in exploration memory
+   */
+  public static getTileKey(x: number, y: number): string {
+    return `${x},${y}`;
+  }
+
+  /**
+   * Get the set of tile keys currently visible to a player
+   */
+  public static getVisibleTiles(gameState: GameState, playerId: string): Set<string> {
+    const visible = new Set<string>();
+
+    gameState.units
+      .filter(unit => unit.playerId === playerId)
+      .forEach(unit => {
+        const radius = getUnitStats(unit.type)?.visibility || this.UNIT_SIGHT_RADIUS;
+        this.addTilesInRadius(gameState, unit.position, radius, visible);
+      });
+
+    gameState.cities
+      .filter(city => city.playerId === playerId)
+      .forEach(city => this.addTilesInRadius(gameState, city.position, this.CITY_SIGHT_RADIUS, visible));
+
+    return visible;
+  }
+
+  /**
+   * Refresh a player's exploration memory from everything they can currently see.
+   * Returns the set of currently visible tile keys.
+   */
+  public static updateVisibility(gameState: GameState, playerId: string): Set<string> {
+    const player = gameState.players.find(p => p.id === playerId);
+    const visible = this.getVisibleTiles(gameState, playerId);
+    if (!player) return visible;
+
+    const explored = this.getExplored(player);
+    visible.forEach(key => {
+      explored[key] = this.snapshotTile(gameState, key);
+    });
+
+    return visible;
+  }
+
+  /**
+   * Refresh exploration memory for every player
+   */
+  public static updateAllVisibility(gameState: GameState): void {
+    gameState.players.forEach(player => this.updateVisibility(gameState, player.id));
+  }
+
+  /**
+   * Add tiles to a player's exploration memory without needing a unit to see them
+   */
+  public static revealTiles(gameState: GameState, playerId: string, positions: Position[]): void {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player) return;
+
+    const explored = this.getExplored(player);
+    positions.forEach(position => {
+      const key = this.getTileKey(this.wrapX(gameState, position.x), position.y);
+      explored[key] = this.snapshotTile(gameState, key);
+    });
+  }
+
+  /**
+   * Check whether a player can currently see a tile
+   */
+  public static isVisible(gameState: GameState, playerId: string, position: Position): boolean {
+    const key = this.getTileKey(this.wrapX(gameState, position.x), position.y);
+    return this.getVisibleTiles(gameState, playerId).has(key);
+  }
+
+  /**
+   * Check whether a player has ever seen a tile
+   */
+  public static isExplored(player: Player, x: number, y: number): boolean {
+    return !!player.explored && this.getTileKey(x, y) in player.explored;
+  }
+
+  /**
+   * Get the last known state of a tile for a player (undefined if never explored)
+   */
+  public static getTileMemory(player: Player, x: number, y: number): TileMemory | undefined {
+    return player.explored?.[this.getTileKey(x, y)];
+  }
+
+  /**
+   * Get a player's exploration memory, creating it if needed
+   */
+  private static getExplored(player: Player): Record<string, TileMemory> {
+    if (!player.explored) {
+      player.explored = {};
+    }
+    return player.explored;
+  }
+
+  /**
+   * Capture what a player sees on a tile right now
+   */
+  private static snapshotTile(gameState: GameState, key: string): TileMemory {
+    const [x, y] = key.split(',').map(Number);
+    const tile = gameState.worldMap[y]?.[x];
+    const memory: TileMemory = {};
+
+    if (tile?.improvements && tile.improvements.length > 0) {
+      memory.improvements = tile.improvements.map(improvement => improvement.type);
+    }
+
+    const city = gameState.cities.find(c => c.position.x === x && c.position.y === y);
+    if (city) {
+      memory.city = {
+        id: city.id,
+        name: city.name,
+        playerId: city.playerId,
+        population: city.population
+      };
+    }
+
+    return memory;
+  }
+
+  /**
+   * Add all tiles within a square radius of a position (with horizontal wrapping)
+   */
+  private static addTilesInRadius(gameState: GameState, center: Position, radius: number, tiles: Set<string>): void {
+    const mapHeight = gameState.worldMap.length;
+
+    for (let dy = -radius; dy <= radius; dy++) {
+      const y = center.y + dy;
+      if (y < 0 || y >= mapHeight) continue;
+
+      for (let dx = -radius; dx <= radius; dx++) {
+        tiles.add(this.getTileKey(this.wrapX(gameState, center.x + dx), y));
+      }
+    }
+  }
+
+  private static wrapX(gameState: GameState, x: number): number {
+    const mapWidth = gameState.worldMap[0]?.length || 80;
+    return ((x % mapWidth) + mapWidth) % mapWidth;
+  }
+}
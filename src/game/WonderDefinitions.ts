@@ -0,0 +1,370 @@
+import { TechnologyType } from './TechnologyDefinitions';
+import { WonderType } from '../types/game';
+import type { City, GameState, Player } from '../types/game';
+
+export interface WonderStats {
+  name: string;
+  description: string;
+  productionCost: number;
+  requiredTechnology: TechnologyType;
+  obsoletedBy?: TechnologyType; // When the owner discovers this tech, the wonder stops working
+  effects: WonderEffects;
+}
+
+export interface WonderEffects {
+  // Effects on the city holding the wonder
+  oceanTradeBonus?: number; // Extra trade on each worked ocean tile
+  shieldsPerTile?: number; // Extra shields on each worked tile
+  scienceBonus?: number; // Percentage bonus to the city's science
+  noUnhappyCitizens?: boolean; // Every unhappy citizen in the city is content
+
+  // Effects on every city of the owner
+  contentAllCities?: number; // Unhappy citizens made content in each city
+  happyFacesAllCities?: number; // Unhappy citizens made content in each city (acts as a Cathedral)
+  scienceBonusAllCities?: number; // Percentage bonus to science in each city
+  productionBonusAllCities?: number; // Percentage bonus to shields in each city
+  militaryUnhappinessReduction?: number; // Fewer unhappy citizens per military unit abroad
+  navalMovementBonus?: number; // Extra movement points for ships
+  techsKnownByOthers?: number; // Gain any technology known by this many other civilizations
+  noAnarchy?: boolean; // Governments change without a period of anarchy
+  safeTriremes?: boolean; // Triremes are never lost at sea
+  actsAsCityWalls?: boolean; // Every city defends as if it had City Walls
+
+  // Applies its owner effects to every civilization, not just the builder
+  affectsAllPlayers?: boolean;
+
+  // One-time effects when the wonder is completed
+  freeTechnologies?: number; // Immediate technology advances
+  revealsAllCities?: boolean; // Every city in the world becomes visible
+}
+
+/**
+ * Wonders of the World (Civilization I).
+ * Each wonder can be built only once in the whole world. Its effects last while the city
+ * holding it stands and until its owner discovers the technology that makes it obsolete.
+ */
+export const WONDER_DEFINITIONS: Record<WonderType, WonderStats> = {
+  [WonderType.COLOSSUS]: {
+    name: 'Colossus',
+    description: 'Bronze statue guarding the harbor. +1 trade on every ocean tile worked by this city.',
+    productionCost: 200,
+    requiredTechnology: TechnologyType.BRONZE_WORKING,
+    obsoletedBy: TechnologyType.FLIGHT,
+    effects: {
+      oceanTradeBonus: 1
+    }
+  },
+
+  [WonderType.GREAT_LIBRARY]: {
+    name: 'Great Library',
+    description: 'Collection of all known writings. Gives any technology already known by two other civilizations.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.LITERACY,
+    obsoletedBy: TechnologyType.UNIVERSITY,
+    effects: {
+      techsKnownByOthers: 2
+    }
+  },
+
+  [WonderType.GREAT_WALL]: {
+    name: 'Great Wall',
+    description: 'Massive fortification. Every city defends as if it had City Walls.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.MASONRY,
+    obsoletedBy: TechnologyType.METALLURGY,
+    effects: {
+      actsAsCityWalls: true
+    }
+  },
+
+  [WonderType.HANGING_GARDENS]: {
+    name: 'Hanging Gardens',
+    description: 'Terraced gardens of legend. Makes one unhappy citizen content in every city.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.POTTERY,
+    obsoletedBy: TechnologyType.RAILROAD,
+    effects: {
+      contentAllCities: 1
+    }
+  },
+
+  [WonderType.LIGHTHOUSE]: {
+    name: 'Lighthouse',
+    description: 'Beacon for sailors. Triremes can safely end their turn away from the coast.',
+    productionCost: 200,
+    requiredTechnology: TechnologyType.MAPMAKING,
+    obsoletedBy: TechnologyType.MAGNETISM,
+    effects: {
+      safeTriremes: true
+    }
+  },
+
+  [WonderType.ORACLE]: {
+    name: 'Oracle',
+    description: 'Temple of prophecy. Makes one unhappy citizen content in every city.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.MYSTICISM,
+    obsoletedBy: TechnologyType.RELIGION,
+    effects: {
+      contentAllCities: 1
+    }
+  },
+
+  [WonderType.PYRAMIDS]: {
+    name: 'Pyramids',
+    description: 'Monument to the ages. Allows changing government without a period of anarchy.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.MASONRY,
+    obsoletedBy: TechnologyType.ELECTRICITY,
+    effects: {
+      noAnarchy: true
+    }
+  },
+
+  [WonderType.COPERNICUS_OBSERVATORY]: {
+    name: "Copernicus' Observatory",
+    description: 'Center of astronomical study. Doubles science in this city.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.ASTRONOMY,
+    effects: {
+      scienceBonus: 100
+    }
+  },
+
+  [WonderType.JS_BACHS_CATHEDRAL]: {
+    name: "J.S. Bach's Cathedral",
+    description: 'Music of the spheres. Makes two unhappy citizens content in every city.',
+    productionCost: 400,
+    requiredTechnology: TechnologyType.RELIGION,
+    effects: {
+      contentAllCities: 2
+    }
+  },
+
+  [WonderType.KING_RICHARDS_CRUSADE]: {
+    name: "King Richard's Crusade",
+    description: 'Crusader fortress. +1 shield on every tile worked by this city.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.ENGINEERING,
+    obsoletedBy: TechnologyType.AUTOMOBILE,
+    effects: {
+      shieldsPerTile: 1
+    }
+  },
+
+  [WonderType.MAGELLANS_EXPEDITION]: {
+    name: "Magellan's Expedition",
+    description: 'Voyage around the world. +1 movement for all ships.',
+    productionCost: 400,
+    requiredTechnology: TechnologyType.NAVIGATION,
+    effects: {
+      navalMovementBonus: 1
+    }
+  },
+
+  [WonderType.MICHELANGELOS_CHAPEL]: {
+    name: "Michelangelo's Chapel",
+    description: 'Masterpiece of art. Acts as a Cathedral in every city, making three unhappy citizens content.',
+    productionCost: 400,
+    requiredTechnology: TechnologyType.RELIGION,
+    effects: {
+      happyFacesAllCities: 3
+    }
+  },
+
+  [WonderType.SHAKESPEARES_THEATRE]: {
+    name: "Shakespeare's Theatre",
+    description: 'The greatest stage. No citizen in this city is ever unhappy.',
+    productionCost: 300,
+    requiredTechnology: TechnologyType.MEDICINE,
+    effects: {
+      noUnhappyCitizens: true
+    }
+  },
+
+  [WonderType.DARWINS_VOYAGE]: {
+    name: "Darwin's Voyage",
+    description: 'Expedition of discovery. Immediately grants two technology advances.',
+    productionCost: 400,
+    requiredTechnology: TechnologyType.RAILROAD,
+    effects: {
+      freeTechnologies: 2
+    }
+  },
+
+  [WonderType.ISAAC_NEWTONS_COLLEGE]: {
+    name: "Isaac Newton's College",
+    description: 'Seat of scientific learning. Doubles science in this city.',
+    productionCost: 400,
+    requiredTechnology: TechnologyType.THEORY_OF_GRAVITY,
+    effects: {
+      scienceBonus: 100
+    }
+  },
+
+  [WonderType.WOMENS_SUFFRAGE]: {
+    name: "Women's Suffrage",
+    description: 'Votes for all. Each city suffers one less unhappy citizen for every military unit abroad.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.INDUSTRIALIZATION,
+    effects: {
+      militaryUnhappinessReduction: 1
+    }
+  },
+
+  [WonderType.HOOVER_DAM]: {
+    name: 'Hoover Dam',
+    description: 'Great hydroelectric dam. +25% shield production in every city.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.ELECTRONICS,
+    effects: {
+      productionBonusAllCities: 25
+    }
+  },
+
+  [WonderType.MANHATTAN_PROJECT]: {
+    name: 'Manhattan Project',
+    description: 'Secret atomic research. Allows every civilization to build nuclear weapons.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.NUCLEAR_FISSION,
+    effects: {}
+  },
+
+  [WonderType.UNITED_NATIONS]: {
+    name: 'United Nations',
+    description: 'Assembly of nations. Makes one unhappy citizen content in every city.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.COMMUNISM,
+    effects: {
+      contentAllCities: 1
+    }
+  },
+
+  [WonderType.APOLLO_PROGRAM]: {
+    name: 'Apollo Program',
+    description: 'Race to the moon. Reveals every city in the world.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.SPACE_FLIGHT,
+    effects: {
+      revealsAllCities: true
+    }
+  },
+
+  [WonderType.SETI_PROGRAM]: {
+    name: 'SETI Program',
+    description: 'Search for extraterrestrial intelligence. +50% science in every city.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.COMPUTERS,
+    effects: {
+      scienceBonusAllCities: 50
+    }
+  },
+
+  [WonderType.CURE_FOR_CANCER]: {
+    name: 'Cure for Cancer',
+    description: 'Medical triumph. Makes one unhappy citizen content in every city of every civilization.',
+    productionCost: 600,
+    requiredTechnology: TechnologyType.GENETIC_ENGINEERING,
+    effects: {
+      contentAllCities: 1,
+      affectsAllPlayers: true
+    }
+  }
+};
+
+// Helper functions for wonder management
+export function getWonderStats(wonderType: WonderType): WonderStats {
+  return WONDER_DEFINITIONS[wonderType];
+}
+
+// Get the city holding a wonder, or undefined if it was never built or the city is gone
+export function getWonderCity(gameState: GameState, wonderType: WonderType): City | undefined {
+  const built = gameState.wonders?.[wonderType];
+  return built ? gameState.cities.find(c => c.id === built.cityId) : undefined;
+}
+
+// Check whether a wonder has been built anywhere in the world (even if since lost)
+export function isWonderBuilt(gameState: GameState, wonderType: WonderType): boolean {
+  return !!gameState.wonders?.[wonderType];
+}
+
+// A wonder is obsolete once the civilization holding it knows the obsoleting technology
+export function isWonderObsolete(gameState: GameState, wonderType: WonderType): boolean {
+  const obsoletedBy = WONDER_DEFINITIONS[wonderType].obsoletedBy;
+  const city = getWonderCity(gameState, wonderType);
+  if (!obsoletedBy || !city) return false;
+
+  const owner = gameState.players.find(p => p.id === city.playerId);
+  return !!owner?.technologies.includes(obsoletedBy);
+}
+
+// A wonder works while its city stands and it is not obsolete
+export function isWonderActive(gameState: GameState, wonderType: WonderType): boolean {
+  return !!getWonderCity(gameState, wonderType) && !isWonderObsolete(gameState, wonderType);
+}
+
+// Get the active wonders held by a player's cities
+export function getPlayerWonders(gameState: GameState, playerId: string): WonderType[] {
+  return (Object.keys(gameState.wonders || {}) as WonderType[]).filter(wonderType =>
+    getWonderCity(gameState, wonderType)?.playerId === playerId && isWonderActive(gameState, wonderType)
+  );
+}
+
+// Get the active wonders held by a city
+export function getCityWonders(gameState: GameState, city: City): WonderType[] {
+  return (Object.keys(gameState.wonders || {}) as WonderType[]).filter(wonderType =>
+    gameState.wonders?.[wonderType]?.cityId === city.id && isWonderActive(gameState, wonderType)
+  );
+}
+
+// Sum the empire-wide effects of the active wonders that apply to a player
+export function getPlayerWonderEffects(gameState: GameState, playerId: string): WonderEffects {
+  const wonders = (Object.keys(gameState.wonders || {}) as WonderType[]).filter(wonderType => {
+    if (!isWonderActive(gameState, wonderType)) return false;
+    const effects = WONDER_DEFINITIONS[wonderType].effects;
+    return effects.affectsAllPlayers || getWonderCity(gameState, wonderType)?.playerId === playerId;
+  });
+  return combineEffects(wonders);
+}
+
+// Sum the effects of the active wonders held by a city
+export function getCityWonderEffects(gameState: GameState, city: City): WonderEffects {
+  return combineEffects(getCityWonders(gameState, city));
+}
+
+// Get the wonders a player could start: not built anywhere, technology known and not obsolete
+export function getAvailableWonders(gameState: GameState, player: Player): WonderType[] {
+  return (Object.values(WonderType) as WonderType[]).filter(wonderType => {
+    const stats = WONDER_DEFINITIONS[wonderType];
+
+    if (isWonderBuilt(gameState, wonderType)) {
+      return false;
+    }
+
+    if (!player.technologies.includes(stats.requiredTechnology)) {
+      return false;
+    }
+
+    if (stats.obsoletedBy && player.technologies.includes(stats.obsoletedBy)) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+function combineEffects(wonders: WonderType[]): WonderEffects {
+  const combined: WonderEffects = {};
+  wonders.forEach(wonderType => {
+    const effects = WONDER_DEFINITIONS[wonderType].effects;
+    (Object.keys(effects) as Array<keyof WonderEffects>).forEach(key => {
+      const value = effects[key];
+      if (typeof value === 'number') {
+        (combined as Record<string, number | boolean>)[key] = ((combined[key] as number | undefined) || 0) + value;
+      } else if (value) {
+        (combined as Record<string, number | boolean>)[key] = true;
+      }
+    });
+  });
+  return combined;
+}
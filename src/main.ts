@@ -1,5 +1,7 @@
 import './style.css';
 import { Game } from './game/Game.js';
+import { TurnManager } from './game/TurnManager.js';
+import { getUnitName } from './game/UnitDefinitions.js';
 import { Renderer } from './renderer/Renderer.js';
 import { GameRenderer } from './renderer/GameRenderer.js';
 import { UnitSprites } from './renderer/UnitSprites.js';
@@ -12,10 +14,18 @@ import { InputHandler } from './utils/InputHandler.js';
 import { MusicPlayer } from './utils/MusicPlayer.js';
 import { UITemplateManager } from './utils/UITemplateManager.js';
 import { SettingsManager } from './utils/SettingsManager.js';
+import { AutosaveManager } from './utils/AutosaveManager.js';
 import { SoundEffects } from './utils/SoundEffects.js';
 import { TechnologyUI } from './utils/TechnologyUI.js';
 import { ScienceAdvisorModal } from './renderer/ScienceAdvisorModal.js';
 import { TechnologyDiscoveryModal } from './renderer/TechnologyDiscoveryModal.js';
+import { TaxRatesModal } from './renderer/TaxRatesModal.js';
+import { WondersReportModal } from './renderer/WondersReportModal.js';
+import { DiplomatActionModal } from './renderer/DiplomatActionModal.js';
+import { IntelligenceReportModal } from './renderer/IntelligenceReportModal.js';
+import { CaravanActionModal } from './renderer/CaravanActionModal.js';
+import { ParleyModal } from './renderer/ParleyModal.js';
+import { DiplomaticProposalModal } from './renderer/DiplomaticProposalModal.js';
 import { MapScenario, UnitType } from './types/game.js';
 
 class CivWinApp {
@@ -25,6 +35,13 @@ class CivWinApp {
   private minimap: Minimap;
   private status: Status;
   private cityView: CityView;
+  private taxRatesModal: TaxRatesModal;
+  private wondersReportModal: WondersReportModal;
+  private diplomatActionModal: DiplomatActionModal;
+  private intelligenceReportModal: IntelligenceReportModal;
+  private caravanActionModal: CaravanActionModal;
+  private parleyModal: ParleyModal;
+  private diplomaticProposalModal: DiplomaticProposalModal;
   private inputHandler: InputHandler;
   private musicPlayer: MusicPlayer;
   private settingsManager: SettingsManager;
@@ -34,6 +51,7 @@ class CivWinApp {
   private canvas: HTMLCanvasElement;
   private minimapCanvas: HTMLCanvasElement;
   private currentScenario: MapScenario = 'random';
+  private notificationQueue: Array<{ title: string; message: string }> = [];
 
   constructor() {
     /** Get canvas elements */
@@ -54,6 +72,13 @@ class CivWinApp {
     this.minimap = new Minimap(this.minimapCanvas, this.renderer, () => this.requestRender());
     this.status = new Status(this.game);
     this.cityView = new CityView(this.game);
+    this.taxRatesModal = new TaxRatesModal(this.game);
+    this.wondersReportModal = new WondersReportModal(this.game);
+    this.diplomatActionModal = new DiplomatActionModal(this.game);
+    this.intelligenceReportModal = new IntelligenceReportModal(this.game);
+    this.caravanActionModal = new CaravanActionModal(this.game);
+    this.parleyModal = new ParleyModal(this.game);
+    this.diplomaticProposalModal = new DiplomaticProposalModal(this.game);
     this.musicPlayer = new MusicPlayer();
     this.settingsManager = SettingsManager.getInstance();
     this.inputHandler = new InputHandler(
@@ -129,6 +154,11 @@ class CivWinApp {
       this.preloadSprites(gameState);
     });
 
+    this.game.on('gameLoaded', (gameState: any) => {
+      console.log('Game loaded event received', gameState);
+      this.handleGameLoaded(gameState);
+    });
+
     this.game.on('turnEnded', (gameState: any) => {
       console.log('Turn ended', gameState);
       /** Clear end of turn state when new turn begins */
@@ -163,6 +193,86 @@ class CivWinApp {
       this.requestRender();
     });
 
+    this.game.on('cityCaptured', (data: any) => {
+      console.log('City captured', data);
+      this.updateUI();
+      this.requestRender();
+    });
+
+    this.game.on('cityDestroyed', (data: any) => {
+      console.log('City destroyed', data);
+      this.updateUI();
+      this.requestRender();
+    });
+
+    this.game.on('unitAtRiskAtSea', (data: any) => {
+      const player = this.game.getGameState().players.find((p: any) => p.id === data.unit.playerId);
+      if (player?.isHuman) {
+        this.showNotification('Naval Warning', `Your ${getUnitName(data.unit.type)} would end its turn on the high seas and may be lost. Move there again to go ahead, or keep it next to land.`);
+      }
+    });
+
+    this.game.on('endTurnAtRisk', (data: any) => {
+      const names = data.units.map((unit: any) => getUnitName(unit.type)).join(', ');
+      if (confirm(`${names} on the high seas may be lost when the turn ends. End the turn anyway?`)) {
+        this.game.endTurn(true);
+        this.requestRender();
+      }
+    });
+
+    this.game.on('diplomatActionRequired', (data: any) => {
+      const player = this.game.getGameState().players.find((p: any) => p.id === data.unit.playerId);
+      if (player?.isHuman) {
+        this.diplomatActionModal.show(data);
+      }
+    });
+
+    this.game.on('diplomatActionPerformed', (result: any) => {
+      console.log('Diplomat action performed', result);
+      this.showNotification('Diplomat', result.message);
+      this.updateUI();
+      this.requestRender();
+    });
+
+    this.game.on('caravanActionRequired', (data: any) => {
+      const player = this.game.getGameState().players.find((p: any) => p.id === data.unit.playerId);
+      if (player?.isHuman) {
+        this.caravanActionModal.show(data);
+      }
+    });
+
+    this.game.on('caravanActionPerformed', (result: any) => {
+      console.log('Caravan action performed', result);
+      this.showNotification('Caravan', result.message);
+      this.updateUI();
+      this.requestRender();
+    });
+
+    this.game.on('diplomaticProposal', (proposal: any) => {
+      this.diplomaticProposalModal.show(proposal);
+    });
+
+    this.game.on('diplomacyChanged', () => {
+      this.updateUI();
+    });
+
+    this.game.on('senateBlocked', (data: any) => {
+      const player = this.game.getGameState().players.find((p: any) => p.id === data.playerId);
+      if (player?.isHuman) {
+        this.showNotification('Senate', data.message);
+      }
+    });
+
+    this.game.on('productionBought', (data: any) => {
+      console.log('Production bought', data);
+      this.updateUI();
+    });
+
+    this.game.on('taxRatesChanged', (data: any) => {
+      console.log('Tax rates changed', data);
+      this.updateUI();
+    });
+
     this.game.on('unitSelected', (data: any) => {
       console.log('Unit selected from queue', data);
       this.handleUnitSelected(data);
@@ -264,14 +374,17 @@ class CivWinApp {
 
     this.addMenuAction('load-game', () => {
       console.log('Load Game clicked');
-      // TODO: Implement load game functionality
-      alert('Load Game feature coming soon!');
+      this.loadGameFromFile();
     });
 
     this.addMenuAction('save-game', () => {
       console.log('Save Game clicked');
-      // TODO: Implement save game functionality
-      alert('Save Game feature coming soon!');
+      this.saveGameToFile();
+    });
+
+    this.addMenuAction('restore-autosave', () => {
+      console.log('Restore Autosave clicked');
+      this.showAutosaveModal();
     });
 
     this.addMenuAction('quit', () => {
@@ -325,8 +438,10 @@ class CivWinApp {
     });
 
     this.addMenuAction('foreign-advisor', () => {
-      console.log('Foreign Advisor clicked');
-      alert('Foreign Advisor coming soon!');
+      const humanPlayer = this.game.getGameState().players.find(p => p.isHuman);
+      if (humanPlayer) {
+        this.intelligenceReportModal.show(humanPlayer.id, rivalId => this.parleyModal.show(humanPlayer.id, rivalId));
+      }
     });
 
     this.addMenuAction('science-advisor', () => {
@@ -347,12 +462,23 @@ class CivWinApp {
       }
     });
 
+    this.addMenuAction('tax-rates', () => {
+      const humanPlayer = this.game.getGameState().players.find(p => p.isHuman);
+      if (humanPlayer) {
+        this.taxRatesModal.show(humanPlayer.id);
+      }
+    });
+
     // World menu
     this.addMenuAction('world-map', () => {
       console.log('World Map clicked');
       this.minimap.toggle();
     });
 
+    this.addMenuAction('wonders', () => {
+      this.wondersReportModal.show();
+    });
+
     this.addMenuAction('demographics', () => {
       console.log('Demographics clicked');
       alert('Demographics view coming soon!');
@@ -395,6 +521,136 @@ class CivWinApp {
     }
   }
 
+  // Save the current game as a downloadable JSON file
+  private saveGameToFile(): void {
+    const gameState = this.game.getGameState();
+    const json = this.game.saveGame();
+
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `civwin-turn-${gameState.turn}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // Let the player pick a save file and restore the game from it
+  private loadGameFromFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      try {
+        const json = await file.text();
+        this.game.loadGame(json);
+        console.log(`Loaded save game ${file.name}`);
+      } catch (error) {
+        console.error('Failed to load save game:', error);
+        alert(`Could not load save game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+
+    input.click();
+  }
+
+  // Show the list of autosaves that can be restored
+  private showAutosaveModal(): void {
+    const modal = document.querySelector('#autosave-modal') as HTMLElement;
+    const list = document.querySelector('#autosave-list') as HTMLElement;
+    if (!modal || !list) return;
+
+    const entries = AutosaveManager.getInstance().getEntries();
+    list.innerHTML = '';
+
+    if (entries.length === 0) {
+      list.innerHTML = '<div class="autosave-option">No autosaves available</div>';
+    }
+
+    entries.forEach((entry, index) => {
+      const option = document.createElement('div');
+      option.className = 'autosave-option';
+      const radioId = `autosave-slot-${entry.slot}`;
+      option.innerHTML = `
+        <input type="radio" id="${radioId}" name="autosave" value="${entry.slot}" ${index === 0 ? 'checked' : ''}>
+        <label for="${radioId}">
+          Turn ${entry.turn} (${entry.year}) - ${entry.civilization}
+          <span class="autosave-timestamp">${new Date(entry.timestamp).toLocaleString()}</span>
+        </label>
+      `;
+      list.appendChild(option);
+    });
+
+    const restoreBtn = document.querySelector('#autosave-restore') as HTMLButtonElement;
+    if (restoreBtn) {
+      restoreBtn.disabled = entries.length === 0;
+    }
+
+    modal.style.display = 'flex';
+    modal.classList.add('active');
+
+    this.setupAutosaveModalListeners();
+  }
+
+  // Hide the autosave list
+  private hideAutosaveModal(): void {
+    const modal = document.querySelector('#autosave-modal') as HTMLElement;
+    if (modal) {
+      modal.style.display = 'none';
+      modal.classList.remove('active');
+    }
+  }
+
+  // Setup autosave modal event listeners
+  private setupAutosaveModalListeners(): void {
+    const modal = document.querySelector('#autosave-modal');
+    if (!modal) return;
+
+    // Remove any existing listeners by cloning the modal (this preserves content)
+    const newModal = modal.cloneNode(true);
+    modal.parentNode?.replaceChild(newModal, modal);
+
+    newModal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+
+      if (target.id === 'autosave-modal-close' || target.id === 'autosave-cancel' || target === newModal) {
+        this.hideAutosaveModal();
+        return;
+      }
+
+      if (target.id === 'autosave-restore') {
+        const selected = document.querySelector('input[name="autosave"]:checked') as HTMLInputElement;
+        if (selected) {
+          this.restoreAutosave(parseInt(selected.value));
+        }
+      }
+    });
+  }
+
+  // Restore the game from an autosave slot
+  private restoreAutosave(slot: number): void {
+    const json = AutosaveManager.getInstance().load(slot);
+    if (!json) {
+      alert('This autosave could not be read.');
+      return;
+    }
+
+    try {
+      this.game.loadGame(json);
+      this.hideAutosaveModal();
+      console.log(`Restored autosave from slot ${slot}`);
+    } catch (error) {
+      console.error('Failed to restore autosave:', error);
+      alert(`Could not restore autosave: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Show scenario selection modal
   private showScenarioModal(): void {
     const modal = document.querySelector('#scenario-modal') as HTMLElement;
@@ -677,6 +933,7 @@ class CivWinApp {
     this.setCheckboxValue('unit-animations', settings.unitAnimations);
     this.setSelectValue('terrain-quality', settings.terrainQuality);
     this.setCheckboxValue('auto-save', settings.autoSave);
+    this.setInputValue('auto-save-interval', settings.autoSaveInterval.toString());
     this.setInputValue('turn-timer', settings.turnTimer.toString());
     this.setSelectValue('ai-speed', settings.aiSpeed);
     this.setInputValue('master-volume', settings.masterVolume.toString());
@@ -705,6 +962,7 @@ class CivWinApp {
       unitAnimations: this.getCheckboxValue('unit-animations'),
       terrainQuality: this.getSelectValue('terrain-quality') as 'low' | 'medium' | 'high',
       autoSave: this.getCheckboxValue('auto-save'),
+      autoSaveInterval: Math.max(1, parseInt(this.getInputValue('auto-save-interval') || '1')),
       turnTimer: parseInt(this.getInputValue('turn-timer') || '60'),
       aiSpeed: this.getSelectValue('ai-speed') as 'slow' | 'normal' | 'fast',
       masterVolume: parseInt(this.getInputValue('master-volume') || '80'),
@@ -837,6 +1095,72 @@ class CivWinApp {
         case 'technologyCompleted':
           this.handleTechnologyCompleted(event);
           break;
+        case 'buildingSold':
+          if (event.player?.isHuman) {
+            this.showNotification('Lack of Funds', event.message);
+          }
+          break;
+        case 'civilDisorder':
+        case 'orderRestored':
+          if (event.player?.isHuman) {
+            this.showNotification('Domestic Advisor', event.message);
+          }
+          break;
+        case 'wonderCompleted':
+          // Every civilization hears of a new wonder
+          this.showNotification('Wonder of the World', event.message);
+          break;
+        case 'wonderUnavailable':
+          if (event.player?.isHuman) {
+            this.showNotification('Domestic Advisor', event.message);
+          }
+          break;
+        case 'technologyAcquired':
+          if (event.player?.isHuman) {
+            this.showNotification('Science Advisor', event.message);
+          }
+          break;
+        case 'cityCaptured':
+        case 'cityDestroyed': {
+          // Tell the human player whether they took the city or lost it
+          const loser = gameState.players.find((p: any) => p.id === event.targetPlayerId);
+          if (event.player?.isHuman || loser?.isHuman) {
+            this.showNotification(event.type === 'cityCaptured' ? 'City Captured' : 'City Destroyed', event.message);
+          }
+          break;
+        }
+        case 'diplomatAction': {
+          // Tell the human player when a foreign diplomat works against them
+          const victim = gameState.players.find((p: any) => p.id === event.targetPlayerId);
+          if (victim?.isHuman && !event.player?.isHuman) {
+            this.showNotification('Foreign Minister', event.message);
+          }
+          break;
+        }
+        case 'diplomaticAction': {
+          // Treaties, wars and exchanges involving the human player
+          const other = gameState.players.find((p: any) => p.id === event.targetPlayerId);
+          if (event.player?.isHuman || other?.isHuman) {
+            this.showNotification('Foreign Minister', event.message);
+          }
+          break;
+        }
+        case 'tradeRouteEstablished': {
+          // Tell the human player when a foreign caravan opens a route to one of their cities
+          const partner = gameState.players.find((p: any) => p.id === event.targetPlayerId);
+          if (partner?.isHuman && !event.player?.isHuman) {
+            this.showNotification('Trade Route', event.message);
+          }
+          break;
+        }
+        case 'unitDestroyed':
+          if (event.player?.isHuman) {
+            this.showNotification('Defense Minister', event.message);
+          }
+          break;
+        case 'civilizationDestroyed':
+          this.showNotification(event.player?.isHuman ? 'Game Over' : 'Civilization Destroyed', event.message);
+          break;
         // Add other event types as needed
       }
     });
@@ -845,6 +1169,38 @@ class CivWinApp {
     gameState.events = [];
   }
 
+  /**
+   * Queue a message for the player, shown one at a time in the notification dialog
+   */
+  private showNotification(title: string, message: string): void {
+    this.notificationQueue.push({ title, message });
+    const modal = document.querySelector('#notification-modal') as HTMLElement;
+    if (modal && modal.style.display !== 'flex') {
+      this.showNextNotification();
+    }
+  }
+
+  private showNextNotification(): void {
+    const modal = document.querySelector('#notification-modal') as HTMLElement;
+    const title = document.querySelector('#notification-title');
+    const message = document.querySelector('#notification-message');
+    const okButton = document.querySelector('#notification-ok') as HTMLElement;
+    const closeButton = document.querySelector('#notification-close') as HTMLElement;
+    if (!modal || !title || !message || !okButton || !closeButton) return;
+
+    const next = this.notificationQueue.shift();
+    if (!next) {
+      modal.style.display = 'none';
+      return;
+    }
+
+    title.textContent = next.title;
+    message.textContent = next.message;
+    okButton.onclick = () => this.showNextNotification();
+    closeButton.onclick = () => this.showNextNotification();
+    modal.style.display = 'flex';
+  }
+
   /**
    * Handle technology completion event
    */
@@ -940,9 +1296,7 @@ class CivWinApp {
     // Update year (calculate based on turn, starting from 4000 BC)
     const yearElement = document.querySelector('#year');
     if (yearElement) {
-      const year = 4000 - (gameState.turn - 1) * 20; // Each turn is 20 years
-      const yearText = year > 0 ? `${year} BC` : `${Math.abs(year)} AD`;
-      yearElement.textContent = yearText;
+      yearElement.textContent = TurnManager.getYearLabel(gameState.turn);
     }
 
     // Update current player info (remove this section as we moved it to status bar)
@@ -993,6 +1347,24 @@ class CivWinApp {
     this.requestRender();
   }
 
+  // Handle a restored save game - reset UI state left over from the previous game
+  private handleGameLoaded(gameState: any): void {
+    if (this.cityView.isOpen()) {
+      this.cityView.close();
+    }
+    this.gameRenderer.clearSelections();
+    this.status.setSelectedUnit(null);
+    this.status.setSelectedCity(null);
+    this.status.setEndOfTurnState(false);
+    this.status.updateGameState(gameState);
+
+    /** Player colors may differ from the previous game */
+    this.preloadSprites(gameState);
+
+    this.updateUI();
+    this.requestRender();
+  }
+
   // Handle AI turn start
   private handleAITurnStarted(data: { playerId: string, playerName: string }): void {
     console.log(`AI Player ${data.playerName} (${data.playerId}) turn started`);
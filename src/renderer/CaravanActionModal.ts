@@ -0,0 +1,78 @@
+import { CaravanAction } from '../types/game.js';
+import type { City, Unit } from '../types/game.js';
+import type { CaravanActionOption, CaravanActionResult } from '../game/TradeRouteSystem.js';
+import type { Game } from '../game/Game.js';
+
+export interface CaravanActionRequest {
+  unit: Unit;
+  city: City;
+  actions: CaravanActionOption[];
+}
+
+const ACTION_LABELS: Record<CaravanAction, string> = {
+  [CaravanAction.ESTABLISH_TRADE_ROUTE]: 'Establish Trade Route',
+  [CaravanAction.HELP_WONDER]: 'Help Build Wonder'
+};
+
+/**
+ * Menu shown when a caravan enters a city where it can trade or help build a wonder
+ */
+export class CaravanActionModal {
+  private game: Game;
+  private request: CaravanActionRequest | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  public show(request: CaravanActionRequest): void {
+    const modal = document.getElementById('caravan-action-modal');
+    const list = document.getElementById('caravan-action-list');
+    const prompt = document.getElementById('caravan-action-prompt');
+    if (!modal || !list) return;
+
+    this.request = request;
+
+    if (prompt) {
+      prompt.textContent = `Your caravan has arrived in ${request.city.name}. What are your orders?`;
+    }
+
+    list.innerHTML = '';
+    request.actions.forEach(option => list.appendChild(this.createActionButton(option)));
+
+    const cancelButton = document.getElementById('caravan-action-cancel');
+    const closeButton = document.getElementById('caravan-action-close');
+    if (cancelButton) cancelButton.onclick = () => this.hide();
+    if (closeButton) closeButton.onclick = () => this.hide();
+
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('caravan-action-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+    this.request = null;
+  }
+
+  private createActionButton(option: CaravanActionOption): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'modal-button caravan-action-button';
+    button.textContent = ACTION_LABELS[option.action];
+    button.disabled = !option.available;
+    if (option.reason) {
+      button.title = option.reason;
+    }
+    button.onclick = () => this.perform(option.action);
+    return button;
+  }
+
+  private perform(action: CaravanAction): void {
+    if (!this.request) return;
+
+    const { unit, city } = this.request;
+    this.hide();
+    this.game.performCaravanAction(unit.id, city.id, action);
+  }
+}
@@ -1,12 +1,16 @@
-import { City, GameState } from '../types/game';
+import { City, GameState, WonderType } from '../types/game';
 import { Game } from '../game/Game';
 import { getCivilization } from '../game/CivilizationDefinitions';
 import { ProductionManager } from '../game/ProductionManager';
 import { ProductionSelectionModal } from './ProductionSelectionModal';
 import { UNIT_DEFINITIONS } from '../game/UnitDefinitions';
 import { BUILDING_DEFINITIONS } from '../game/BuildingDefinitions';
-import { TerrainManager } from '../terrain/index';
+import { WONDER_DEFINITIONS, isWonderObsolete } from '../game/WonderDefinitions';
+import { TradeRouteSystem } from '../game/TradeRouteSystem';
+import { CityEconomy } from '../game/CityEconomy';
 import { CityGrowthSystem } from '../game/CityGrowthSystem';
+import { HappinessSystem } from '../game/HappinessSystem';
+import type { CityHappiness } from '../game/HappinessSystem';
 import { getCityPopulationDisplay } from '../utils/CityPopulationDisplay';
 
 // Enhanced resource calculation interface
@@ -41,6 +45,7 @@ export class CityView {
   private populationDetails: HTMLElement;
   private currentProduction: HTMLElement;
   private productionTurns: HTMLElement;
+  private productionProgressFill: HTMLElement;
   private buildingsList: HTMLElement;
   private unitsList: HTMLElement;
   private cityMapCanvas: HTMLCanvasElement;
@@ -78,6 +83,7 @@ export class CityView {
     this.populationDetails = document.getElementById('population-details')!;
     this.currentProduction = document.getElementById('current-production')!;
     this.productionTurns = document.getElementById('production-turns')!;
+    this.productionProgressFill = document.getElementById('production-progress-fill')!;
     this.buildingsList = document.getElementById('buildings-list')!;
     this.unitsList = document.getElementById('units-list')!;
     this.cityMapCanvas = document.getElementById('city-map-canvas') as HTMLCanvasElement;
@@ -221,15 +227,24 @@ export class CityView {
           totalCost = buildingStats.productionCost;
           productionName = buildingStats.name;
         }
+      } else if (this.currentCity.production.type === 'wonder') {
+        const wonderStats = WONDER_DEFINITIONS[this.currentCity.production.item as WonderType];
+        if (wonderStats) {
+          totalCost = wonderStats.productionCost;
+          productionName = wonderStats.name;
+        }
       }
       
       // Show production with accumulated shields
       const accumulatedShields = this.currentCity.production_points || 0;
+      const turns = ProductionManager.getTurnsToComplete(totalCost, accumulatedShields, resources.productionSurplus);
       this.currentProduction.textContent = `${productionName} (${accumulatedShields}/${totalCost} shields)`;
-      this.productionTurns.textContent = `(${this.currentCity.production.turnsRemaining} turns)`;
+      this.productionTurns.textContent = `(${turns} turns)`;
+      this.updateProductionProgress(accumulatedShields, totalCost);
     } else {
       this.currentProduction.textContent = 'Nothing';
       this.productionTurns.textContent = '(-- turns)';
+      this.updateProductionProgress(this.currentCity.production_points || 0, 0);
     }
 
     // Update buildings list
@@ -239,6 +254,17 @@ export class CityView {
     this.updateUnitsList(gameState);
   }
 
+  /**
+   * Fill the production box's shield bar with the shields stored toward the current item
+   */
+  private updateProductionProgress(storedShields: number, totalCost: number): void {
+    const percent = totalCost > 0 ? Math.min(100, (storedShields / totalCost) * 100) : 0;
+    this.productionProgressFill.style.width = `${percent}%`;
+    this.productionProgressFill.parentElement!.title = totalCost > 0
+      ? `${storedShields}/${totalCost} shields`
+      : `${storedShields} shields stored`;
+  }
+
   private applyCivilizationBackground(): void {
     if (!this.currentCity) return;
 
@@ -265,103 +291,37 @@ export class CityView {
       };
     }
 
-    // Calculate resources from worked tiles
-    const workedTileYields = this.calculateWorkedTileYields();
+    // Calculate resources from the city center and worked tiles
+    const gameState = this.game.getGameState();
+    const cityYields = CityEconomy.calculateCityYields(gameState, this.currentCity);
     
     // Total yields from all worked tiles
-    const totalFood = workedTileYields.food;
-    const totalProduction = workedTileYields.production;
-    const totalTrade = workedTileYields.trade;
+    const totalFood = cityYields.food;
+    const totalProduction = cityYields.production;
+    const totalTrade = cityYields.trade;
     
     // Food calculation
-    const foodConsumption = this.currentCity.population * 2; // Each citizen eats 2 food
+    const foodConsumption = CityGrowthSystem.calculateFoodConsumption(this.currentCity);
     const foodSurplus = totalFood - foodConsumption;
 
     // Production (no consumption for now - all goes to surplus)
     const productionSurplus = totalProduction;
     
-    // Trade breakdown (simplified government effects)
-    const luxuries = Math.floor(totalTrade * 0.2); // 20% to luxuries
-    const tax = Math.floor(totalTrade * 0.4);      // 40% to tax
-    const science = totalTrade - luxuries - tax;   // Remainder to science
+    // Trade breakdown
+    const { luxuries, tax, science } = CityEconomy.splitTrade(gameState, this.currentCity, totalTrade);
+
+    // Civil disorder halts production, taxes and science
+    const inDisorder = HappinessSystem.isInDisorder(gameState, this.currentCity);
 
     return {
       food: totalFood,
       foodSurplus,
       production: totalProduction,
-      productionSurplus,
+      productionSurplus: inDisorder ? 0 : productionSurplus,
       trade: totalTrade,
       luxuries,
-      tax,
-      science
-    };
-  }
-
-  /**
-   * Calculate total yields from all currently worked tiles
-   */
-  private calculateWorkedTileYields(): { food: number; production: number; trade: number } {
-    if (!this.currentCity) {
-      return { food: 0, production: 0, trade: 0 };
-    }
-
-    let totalFood = 0;
-    let totalProduction = 0;
-    let totalTrade = 0;
-
-    // Always include city center yields
-    const cityCenterYields = this.getCityCenterYields();
-    totalFood += cityCenterYields.food;
-    totalProduction += cityCenterYields.production;
-    totalTrade += cityCenterYields.trade;
-
-    // Add yields from worked tiles
-    const workedTiles = this.getWorkedTilesList();
-    for (const { dx, dy } of workedTiles) {
-      const tileYields = this.getTileYieldsAt(dx, dy);
-      if (tileYields) {
-        totalFood += tileYields.food;
-        totalProduction += tileYields.production;
-        totalTrade += tileYields.trade;
-      }
-    }
-
-    return { food: totalFood, production: totalProduction, trade: totalTrade };
-  }
-
-  /**
-   * Get the list of currently worked tiles (excluding city center)
-   */
-  private getWorkedTilesList(): Array<{ dx: number; dy: number }> {
-    if (!this.currentCity) return [];
-
-    // If city has manual tile selection, use only those
-    if (this.currentCity.workedTiles && this.currentCity.workedTiles.length > 0) {
-      return this.currentCity.workedTiles;
-    }
-
-    // Otherwise, use automatic optimal tile selection
-    const optimalTiles = this.getOptimalWorkedTiles();
-    return optimalTiles.map(tile => ({ dx: tile.dx, dy: tile.dy }));
-  }
-
-  /**
-   * Get yields for city center tile
-   */
-  private getCityCenterYields(): { food: number; production: number; trade: number } {
-    if (!this.currentCity) {
-      return { food: 0, production: 0, trade: 0 };
-    }
-
-    const gameState = this.game.getGameState();
-    const cityTile = gameState.worldMap[this.currentCity.position.y][this.currentCity.position.x];
-    const baseYields = this.getTerrainYields(cityTile);
-    
-    // City center gets minimum yields
-    return {
-      food: Math.max(2, baseYields.food),
-      production: Math.max(1, baseYields.production),
-      trade: Math.max(1, baseYields.trade)
+      tax: inDisorder ? 0 : tax,
+      science: inDisorder ? 0 : science
     };
   }
 
@@ -370,23 +330,7 @@ export class CityView {
    */
   private getTileYieldsAt(dx: number, dy: number): { food: number; production: number; trade: number } | null {
     if (!this.currentCity) return null;
-
-    const tileX = this.currentCity.position.x + dx;
-    const tileY = this.currentCity.position.y + dy;
-    const gameState = this.game.getGameState();
-    
-    // Check bounds
-    if (tileY < 0 || tileY >= gameState.worldMap.length) {
-      return null;
-    }
-    
-    // Handle world wrapping for X coordinate
-    const normalizedX = tileX < 0 ? 
-      tileX + gameState.worldMap[0].length : 
-      tileX % gameState.worldMap[0].length;
-    
-    const tile = gameState.worldMap[tileY][normalizedX];
-    return this.getTerrainYields(tile);
+    return CityEconomy.getTileYieldsAt(this.game.getGameState(), this.currentCity, dx, dy);
   }
 
   private updateResourceDisplay(resources: CityResources): void {
@@ -488,19 +432,54 @@ export class CityView {
     separator.className = 'population-separator';
     this.populationDetails.appendChild(separator);
 
-    // Create population units (simplified - all workers for now)
+    // One face per citizen: happy, then content, then unhappy
+    const happiness = HappinessSystem.calculateHappiness(this.game.getGameState(), this.currentCity);
     const unitsContainer = document.createElement('div');
     unitsContainer.className = 'population-units';
-    
-    for (let i = 0; i < this.currentCity.population; i++) {
+
+    this.getCitizenMoods(happiness).forEach((mood, i) => {
       const popUnit = document.createElement('div');
-      popUnit.className = 'population-unit worker';
-      popUnit.textContent = '👷';
-      popUnit.title = `Worker ${i + 1} - produces food and resources`;
+      popUnit.className = `population-unit ${mood}`;
+      popUnit.textContent = this.getCitizenFace(mood);
+      popUnit.title = `Citizen ${i + 1} - ${mood}`;
       unitsContainer.appendChild(popUnit);
-    }
-    
+    });
+
     this.populationDetails.appendChild(unitsContainer);
+
+    const moodSummary = document.createElement('div');
+    moodSummary.className = 'population-info';
+    moodSummary.innerHTML = `
+      <span class="population-label">Happy/Content/Unhappy:</span>
+      <span class="population-value">${happiness.happy}/${happiness.content}/${happiness.unhappy}</span>
+    `;
+    this.populationDetails.appendChild(moodSummary);
+
+    if (happiness.inDisorder) {
+      const disorder = document.createElement('div');
+      disorder.className = 'population-disorder';
+      disorder.textContent = 'CIVIL DISORDER';
+      this.populationDetails.appendChild(disorder);
+    }
+  }
+
+  /**
+   * List each citizen's mood in display order
+   */
+  private getCitizenMoods(happiness: CityHappiness): Array<'happy' | 'content' | 'unhappy'> {
+    return [
+      ...Array<'happy'>(happiness.happy).fill('happy'),
+      ...Array<'content'>(happiness.content).fill('content'),
+      ...Array<'unhappy'>(happiness.unhappy).fill('unhappy')
+    ];
+  }
+
+  private getCitizenFace(mood: 'happy' | 'content' | 'unhappy'): string {
+    switch (mood) {
+      case 'happy': return '😊';
+      case 'content': return '😐';
+      case 'unhappy': return '😠';
+    }
   }
 
   private updateTradeBreakdown(resources: CityResources): void {
@@ -552,7 +531,12 @@ export class CityView {
   }
 
   private updateBuildingsList(): void {
-    if (!this.currentCity!.buildings || this.currentCity!.buildings.length === 0) {
+    const gameState = this.game.getGameState();
+    const wonders = (Object.keys(gameState.wonders || {}) as WonderType[])
+      .filter(wonderType => gameState.wonders?.[wonderType]?.cityId === this.currentCity!.id);
+    const partners = TradeRouteSystem.getPartners(gameState, this.currentCity!);
+
+    if ((!this.currentCity!.buildings || this.currentCity!.buildings.length === 0) && wonders.length === 0 && partners.length === 0) {
       this.buildingsList.innerHTML = '<div class="building-item">None built yet</div>';
       return;
     }
@@ -564,6 +548,23 @@ export class CityView {
       buildingItem.textContent = building.type;
       this.buildingsList.appendChild(buildingItem);
     });
+
+    // Wonders held by the city, marked when they no longer have any effect
+    wonders.forEach(wonderType => {
+      const wonderItem = document.createElement('div');
+      wonderItem.className = 'building-item wonder-item';
+      wonderItem.textContent = WONDER_DEFINITIONS[wonderType].name +
+        (isWonderObsolete(gameState, wonderType) ? ' (obsolete)' : '');
+      this.buildingsList.appendChild(wonderItem);
+    });
+
+    // Caravan trade routes and the trade each brings in
+    partners.forEach(partner => {
+      const routeItem = document.createElement('div');
+      routeItem.className = 'building-item trade-route-item';
+      routeItem.textContent = `Trade route: ${partner.name} (+${TradeRouteSystem.getRouteTrade(gameState, this.currentCity!, partner)})`;
+      this.buildingsList.appendChild(routeItem);
+    });
   }
 
   private updateUnitsList(gameState: GameState): void {
@@ -712,11 +713,13 @@ export class CityView {
       ctx.fillStyle = color;
       ctx.fillRect(screenX, screenY, tileSize, tileSize);
 
-      // Get terrain yields and calculate actual yields with improvements and variants
-      const baseYields = this.getTerrainYields(terrain);
+      // Get actual yields with resources, improvements, variants, government and the city's wonders
+      const tileYields = dx === 0 && dy === 0
+        ? CityEconomy.getCityCenterYields(gameState, this.currentCity!)
+        : CityEconomy.getTileYieldsAt(gameState, this.currentCity!, dx, dy)!;
       
       // Render resource yields on the tile
-      this.renderTileResources(ctx, screenX, screenY, tileSize, baseYields);
+      this.renderTileResources(ctx, screenX, screenY, tileSize, tileYields);
 
       // Render improvements (roads, irrigation, mines, etc.)
       this.renderTileImprovements(ctx, screenX, screenY, tileSize, terrain);
@@ -777,75 +780,6 @@ export class CityView {
     ctx.fillText('Worked', 16, legendY);
   }
 
-  /**
-   * Get terrain yields including terrain variants (like shield grassland)
-   */
-  private getTerrainYields(terrain: any): { food: number; production: number; trade: number } {
-    const baseYields = TerrainManager.getTerrainYields(terrain.terrain);
-    
-    // Add bonus for shield variants
-    if (terrain.terrainVariant === 'shield') {
-      baseYields.production += 1;
-    }
-    
-    // Add bonus for special resources (simplified)
-    if (terrain.resources && terrain.resources.length > 0) {
-      // Different resources provide different bonuses
-      for (const resource of terrain.resources) {
-        switch (resource) {
-          case 'wheat':
-          case 'fish':
-            baseYields.food += 1;
-            break;
-          case 'horses':
-          case 'iron':
-          case 'coal':
-            baseYields.production += 1;
-            break;
-          case 'gold':
-          case 'gem':
-            baseYields.trade += 2;
-            break;
-        }
-      }
-    }
-    
-    // Add improvements bonuses
-    if (terrain.improvements && terrain.improvements.length > 0) {
-      for (const improvement of terrain.improvements) {
-        switch (improvement.type) {
-          case 'irrigation':
-            // Irrigation adds +1 food to grassland, plains, and desert
-            if (terrain.terrain === 'grassland' || terrain.terrain === 'plains' || terrain.terrain === 'desert') {
-              baseYields.food += 1;
-            }
-            break;
-            
-          case 'mine':
-            // Mines add +1 production to hills and mountains
-            if (terrain.terrain === 'hills' || terrain.terrain === 'mountains') {
-              baseYields.production += 1;
-            }
-            break;
-            
-          case 'road':
-            // Roads add +1 trade to any terrain that already produces trade
-            if (baseYields.trade > 0) {
-              baseYields.trade += 1;
-            }
-            break;
-            
-          case 'farm':
-            // Farms provide additional food bonus (usually on irrigated land)
-            baseYields.food += 1;
-            break;
-        }
-      }
-    }
-    
-    return baseYields;
-  }
-
   /**
    * Render resource yields on a tile
    */
@@ -976,9 +910,80 @@ export class CityView {
 
   private handleBuy(): void {
     if (!this.currentCity) return;
-    
-    // Placeholder for buy functionality
-    alert('Buy functionality not yet implemented');
+
+    if (!this.currentCity.production) {
+      alert('This city is not building anything.');
+      return;
+    }
+
+    const price = this.game.getCityBuyCost(this.currentCity.id);
+    if (price === null) {
+      alert('Production will be completed next turn.');
+      return;
+    }
+
+    const player = this.game.getGameState().players.find(p => p.id === this.currentCity!.playerId);
+    const treasury = player ? player.gold : 0;
+    this.showBuyDialog(this.getProductionName(), price, treasury);
+  }
+
+  /**
+   * Show the purchase confirmation with the price and the player's treasury
+   */
+  private showBuyDialog(productionName: string, price: number, treasury: number): void {
+    const modal = document.getElementById('buy-modal');
+    const message = document.getElementById('buy-modal-message');
+    const treasuryText = document.getElementById('buy-modal-treasury');
+    const confirmButton = document.getElementById('buy-confirm') as HTMLButtonElement | null;
+    const cancelButton = document.getElementById('buy-cancel');
+    const closeButton = document.getElementById('buy-modal-close');
+    if (!modal || !message || !treasuryText || !confirmButton || !cancelButton || !closeButton) return;
+
+    const canAfford = treasury >= price;
+    message.textContent = canAfford
+      ? `Cost to complete ${productionName}: ${price} gold. Buy it?`
+      : `Cost to complete ${productionName}: ${price} gold. You cannot afford it.`;
+    treasuryText.textContent = `Treasury: ${treasury} gold`;
+    confirmButton.disabled = !canAfford;
+
+    const hide = () => {
+      modal.style.display = 'none';
+      confirmButton.onclick = null;
+      cancelButton.onclick = null;
+      closeButton.onclick = null;
+    };
+
+    confirmButton.onclick = () => {
+      if (this.currentCity && this.game.buyCityProduction(this.currentCity.id)) {
+        this.updateCityInformation();
+      }
+      hide();
+    };
+    cancelButton.onclick = hide;
+    closeButton.onclick = hide;
+
+    modal.style.display = 'flex';
+  }
+
+  /**
+   * Get the display name of the city's current production item
+   */
+  private getProductionName(): string {
+    const production = this.currentCity?.production;
+    if (!production) return 'Nothing';
+
+    if (production.type === 'unit') {
+      return this.formatUnitName(production.item as string);
+    }
+    if (production.type === 'building') {
+      const buildingStats = this.getBuildingStatsForProduction(production.item as any);
+      if (buildingStats) return buildingStats.name;
+    }
+    if (production.type === 'wonder') {
+      const wonderStats = WONDER_DEFINITIONS[production.item as WonderType];
+      if (wonderStats) return wonderStats.name;
+    }
+    return production.item as string;
   }
 
   private handleChangeProduction(): void {
@@ -1040,74 +1045,9 @@ export class CityView {
    * Returns exactly (population) tiles (not including city center which is always worked)
    * Prioritizes food and production (shields) over trade
    */
-  private getOptimalWorkedTiles(): Array<{dx: number, dy: number, yields: {food: number, production: number, trade: number}, totalYield: number}> {
+  private getOptimalWorkedTiles(): Array<{dx: number, dy: number}> {
     if (!this.currentCity) return [];
-    
-    // Collect all available tiles within working radius (2 tiles from city center)
-    const availableTiles: Array<{dx: number, dy: number, yields: {food: number, production: number, trade: number}, totalYield: number, priority: number}> = [];
-    
-    for (let dx = -2; dx <= 2; dx++) {
-      for (let dy = -2; dy <= 2; dy++) {
-        // Skip city center (always worked, handled separately)
-        if (dx === 0 && dy === 0) continue;
-        
-        // Skip tiles outside the maximum working distance
-        const distance = Math.max(Math.abs(dx), Math.abs(dy)); // Chebyshev distance (max of x,y distances)
-        if (distance > 2) continue;
-        
-        // Get the actual tile
-        const tileX = this.currentCity.position.x + dx;
-        const tileY = this.currentCity.position.y + dy;
-        const gameState = this.game.getGameState();
-        
-        // Check bounds
-        if (tileY < 0 || tileY >= gameState.worldMap.length) {
-          continue;
-        }
-        
-        // Handle world wrapping for X coordinate
-        const normalizedX = tileX < 0 ? 
-          tileX + gameState.worldMap[0].length : 
-          tileX % gameState.worldMap[0].length;
-        
-        const tile = gameState.worldMap[tileY][normalizedX];
-        const yields = this.getTerrainYields(tile);
-        const totalYield = yields.food + yields.production + yields.trade;
-        
-        // Calculate priority: heavily weight food and production over trade
-        // Food and production are worth 2x trade for city growth and development
-        const priority = (yields.food * 2) + (yields.production * 2) + yields.trade;
-        
-        availableTiles.push({
-          dx,
-          dy,
-          yields,
-          totalYield,
-          priority
-        });
-      }
-    }
-    
-    // Sort tiles by priority (food/production focused), then by total yield
-    availableTiles.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return b.priority - a.priority;
-      }
-      if (a.totalYield !== b.totalYield) {
-        return b.totalYield - a.totalYield;
-      }
-      // Final tie-breaker: prefer food, then production, then trade
-      if (a.yields.food !== b.yields.food) {
-        return b.yields.food - a.yields.food;
-      }
-      if (a.yields.production !== b.yields.production) {
-        return b.yields.production - a.yields.production;
-      }
-      return b.yields.trade - a.yields.trade;
-    });
-    
-    // Return the best tiles up to the population limit
-    return availableTiles.slice(0, this.currentCity.population);
+    return CityEconomy.getOptimalWorkedTiles(this.game.getGameState(), this.currentCity);
   }
 
   /**
@@ -1441,17 +1381,14 @@ export class CityView {
     // Clear existing icons
     populationIconsContainer.innerHTML = '';
 
-    // Create one person icon for each city size point
-    for (let i = 0; i < this.currentCity.population; i++) {
+    // Create one person icon for each city size point, colored by mood
+    const happiness = HappinessSystem.calculateHappiness(this.game.getGameState(), this.currentCity);
+    this.getCitizenMoods(happiness).forEach((mood, i) => {
       const icon = document.createElement('div');
-      icon.className = 'population-icon content'; // Default to content citizens
+      icon.className = `population-icon ${mood}`;
       icon.textContent = '👤'; // Person silhouette icon
-      icon.title = `Citizen ${i + 1}`;
-      
-      // TODO: In future, could differentiate happy/content/unhappy citizens
-      // For now, all citizens are content
-      
+      icon.title = `Citizen ${i + 1} (${mood})`;
       populationIconsContainer.appendChild(icon);
-    }
+    });
   }
 }
@@ -0,0 +1,98 @@
+import { DiplomatAction } from '../types/game.js';
+import type { City, Position, Unit } from '../types/game.js';
+import type { DiplomatActionOption, DiplomatActionResult } from '../game/DiplomatSystem.js';
+import { getUnitName } from '../game/UnitDefinitions.js';
+import type { Game } from '../game/Game.js';
+
+export interface DiplomatActionRequest {
+  unit: Unit;
+  city?: City;
+  targetUnit?: Unit;
+  position: Position;
+  actions: DiplomatActionOption[];
+}
+
+const ACTION_LABELS: Record<DiplomatAction, string> = {
+  [DiplomatAction.ESTABLISH_EMBASSY]: 'Establish Embassy',
+  [DiplomatAction.STEAL_TECHNOLOGY]: 'Steal Technology',
+  [DiplomatAction.SABOTAGE]: 'Industrial Sabotage',
+  [DiplomatAction.INCITE_REVOLT]: 'Incite a Revolt',
+  [DiplomatAction.BRIBE_UNIT]: 'Bribe Unit'
+};
+
+/**
+ * Mission menu shown when a diplomat enters a foreign city or unit
+ */
+export class DiplomatActionModal {
+  private game: Game;
+  private request: DiplomatActionRequest | null = null;
+  private onComplete: ((result: DiplomatActionResult | null) => void) | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * Show the available missions; onComplete receives the outcome, or null if cancelled
+   */
+  public show(request: DiplomatActionRequest, onComplete?: (result: DiplomatActionResult | null) => void): void {
+    const modal = document.getElementById('diplomat-action-modal');
+    const list = document.getElementById('diplomat-action-list');
+    const prompt = document.getElementById('diplomat-action-prompt');
+    if (!modal || !list) return;
+
+    this.request = request;
+    this.onComplete = onComplete || null;
+
+    if (prompt) {
+      prompt.textContent = request.city
+        ? `Your diplomat has arrived in ${request.city.name}. What are your orders?`
+        : `Your diplomat meets a foreign ${request.targetUnit ? getUnitName(request.targetUnit.type) : 'unit'}. What are your orders?`;
+    }
+
+    list.innerHTML = '';
+    request.actions.forEach(option => list.appendChild(this.createActionButton(option)));
+
+    const cancelButton = document.getElementById('diplomat-action-cancel');
+    const closeButton = document.getElementById('diplomat-action-close');
+    if (cancelButton) cancelButton.onclick = () => this.finish(null);
+    if (closeButton) closeButton.onclick = () => this.finish(null);
+
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('diplomat-action-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+    this.request = null;
+  }
+
+  private createActionButton(option: DiplomatActionOption): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'modal-button diplomat-action-button';
+    const costText = option.cost > 0 ? ` (${option.cost} gold)` : '';
+    button.textContent = `${ACTION_LABELS[option.action]}${costText}`;
+    button.disabled = !option.available;
+    if (option.reason) {
+      button.title = option.reason;
+    }
+    button.onclick = () => this.perform(option.action);
+    return button;
+  }
+
+  private perform(action: DiplomatAction): void {
+    if (!this.request) return;
+
+    const { unit, position } = this.request;
+    this.finish(this.game.performDiplomatAction(unit.id, position, action));
+  }
+
+  private finish(result: DiplomatActionResult | null): void {
+    const onComplete = this.onComplete;
+    this.onComplete = null;
+    this.hide();
+    onComplete?.(result);
+  }
+}
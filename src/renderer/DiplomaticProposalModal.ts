@@ -0,0 +1,61 @@
+import { DiplomacySystem } from '../game/DiplomacySystem.js';
+import type { DiplomaticProposal } from '../types/game.js';
+import type { Game } from '../game/Game.js';
+
+/**
+ * Offer or demand a computer player makes to the human player, to accept or reject
+ */
+export class DiplomaticProposalModal {
+  private game: Game;
+  private queue: DiplomaticProposal[] = [];
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * Show a proposal; proposals arriving while one is open wait their turn
+   */
+  public show(proposal: DiplomaticProposal): void {
+    this.queue.push(proposal);
+    if (this.queue.length === 1) {
+      this.showNext();
+    }
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('diplomatic-proposal-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+  }
+
+  private showNext(): void {
+    const proposal = this.queue[0];
+    const modal = document.getElementById('diplomatic-proposal-modal');
+    const message = document.getElementById('diplomatic-proposal-message');
+    if (!proposal || !modal) return;
+
+    if (message) {
+      message.textContent = DiplomacySystem.describeProposal(this.game.getGameState(), proposal);
+    }
+
+    const acceptButton = document.getElementById('diplomatic-proposal-accept');
+    const rejectButton = document.getElementById('diplomatic-proposal-reject');
+    if (acceptButton) acceptButton.onclick = () => this.respond(true);
+    if (rejectButton) rejectButton.onclick = () => this.respond(false);
+
+    modal.style.display = 'flex';
+  }
+
+  private respond(accept: boolean): void {
+    const proposal = this.queue.shift();
+    this.hide();
+    if (proposal) {
+      this.game.respondToProposal(proposal, accept);
+    }
+    if (this.queue.length > 0) {
+      this.showNext();
+    }
+  }
+}
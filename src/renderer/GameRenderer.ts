@@ -1,10 +1,13 @@
-import { GameState, Tile, Unit, City, TerrainType, UnitType, UnitCategory, ImprovementType } from '../types/game';
+import { GameState, Tile, Unit, City, Player, TerrainType, UnitType, UnitCategory, ImprovementType } from '../types/game';
 import { Renderer } from './Renderer';
 import { TerrainManager } from '../terrain/index';
 import { UnitSprites } from './UnitSprites';
 import { CitySprites } from './CitySprites';
 import { ConnectionMask, ConnectionPattern } from '../types/terrain';
 import { getUnitStats } from '../game/UnitDefinitions';
+import { VisibilitySystem } from '../game/VisibilitySystem';
+
+type RenderableCity = Pick<City, 'name' | 'position' | 'playerId' | 'population'>;
 
 export class GameRenderer {
   private renderer: Renderer;
@@ -14,6 +17,8 @@ export class GameRenderer {
   private currentGameState: GameState | null = null; // Cache the game state for city checks
   private readonly tileSize = 48; // Fixed tile size for terrain sprites
   private blinkState: boolean = false; // Track blinking state for current unit
+  private fogPlayer: Player | null = null; // Player whose view of the map is drawn (null = reveal everything)
+  private visibleTiles: Set<string> = new Set(); // Tiles currently visible to the fog player
 
   constructor(renderer: Renderer) {
     this.renderer = renderer;
@@ -31,6 +36,11 @@ export class GameRenderer {
     this.currentWorldMap = gameState.worldMap;
     // Cache the game state for city checks
     this.currentGameState = gameState;
+    // Draw the map as seen by the human player
+    this.fogPlayer = gameState.players.find(p => p.isHuman) || null;
+    this.visibleTiles = this.fogPlayer
+      ? VisibilitySystem.getVisibleTiles(gameState, this.fogPlayer.id)
+      : new Set();
 
     // Render map tiles
     this.renderMap(gameState.worldMap);
@@ -109,8 +119,22 @@ export class GameRenderer {
         
         if (y >= 0 && y < mapHeight) {
           const tile = worldMap[y][wrappedX];
+          if (!this.isTileExplored(wrappedX, y)) {
+            // Unexplored tiles are black
+            const screenPos = this.renderer.worldToScreen(x, y);
+            this.renderer.fillRect(screenPos.x, screenPos.y, this.tileSize, this.tileSize, '#000000');
+            continue;
+          }
+
           const connectionPattern = this.analyzeConnections(wrappedX, y, tile.terrain);
-          this.renderTile(tile, x, y, connectionPattern);
+          if (this.isTileVisible(wrappedX, y)) {
+            this.renderTile(tile, x, y, connectionPattern);
+          } else {
+            // Explored but out of sight - draw the last known state, dimmed
+            this.renderTile(this.getRememberedTile(tile), x, y, connectionPattern);
+            const screenPos = this.renderer.worldToScreen(x, y);
+            this.renderer.fillRect(screenPos.x, screenPos.y, this.tileSize, this.tileSize, 'rgba(0, 0, 0, 0.35)');
+          }
         }
       }
     }
@@ -575,11 +599,25 @@ export class GameRenderer {
 
   // Render all cities
   private renderCities(cities: City[], gameState: GameState): void {
-    cities.forEach(city => this.renderCity(city, gameState));
+    if (!this.fogPlayer) {
+      cities.forEach(city => this.renderCity(city, gameState));
+      return;
+    }
+
+    // Live cities on visible tiles, remembered cities everywhere else explored
+    cities
+      .filter(city => this.isTileVisible(city.position.x, city.position.y))
+      .forEach(city => this.renderCity(city, gameState));
+
+    Object.entries(this.fogPlayer.explored || {}).forEach(([key, memory]) => {
+      if (!memory.city || this.visibleTiles.has(key)) return;
+      const [x, y] = key.split(',').map(Number);
+      this.renderCity({ ...memory.city, position: { x, y } }, gameState);
+    });
   }
 
   // Render a single city
-  private renderCity(city: City, gameState?: GameState): void {
+  private renderCity(city: RenderableCity, gameState?: GameState): void {
     const screenPos = this.renderer.worldToScreen(city.position.x, city.position.y);
     const renderContext = this.renderer.getRenderContext();
     const tileSize = renderContext.tileSize;
@@ -595,7 +633,7 @@ export class GameRenderer {
     
     // Check if there are any units at the city position
     let hasUnits = false;
-    if (gameState) {
+    if (gameState && this.isTileVisible(city.position.x, city.position.y)) {
       hasUnits = gameState.units.some(unit => 
         unit.position.x === city.position.x && unit.position.y === city.position.y
       );
@@ -635,6 +673,9 @@ export class GameRenderer {
     const unitsByPosition = new Map<string, Unit[]>();
     
     units.forEach(unit => {
+      // Units are only seen while their tile is in sight
+      if (!this.isTileVisible(unit.position.x, unit.position.y)) return;
+
       const posKey = `${unit.position.x},${unit.position.y}`;
       if (!unitsByPosition.has(posKey)) {
         unitsByPosition.set(posKey, []);
@@ -782,9 +823,10 @@ export class GameRenderer {
       // Check bounds for Y (no vertical wrapping)
       if (checkY >= 0 && checkY < mapHeight) {
         const neighborTile = this.currentWorldMap[checkY][checkX];
-        if (neighborTile && neighborTile.improvements) {
-          // Check if the neighbor tile has a road
-          const hasRoad = neighborTile.improvements.some(imp => imp.type === ImprovementType.ROAD);
+        if (neighborTile && this.isTileExplored(checkX, checkY)) {
+          // Check if the neighbor tile has a road (as far as the viewer knows)
+          const knownTile = this.isTileVisible(checkX, checkY) ? neighborTile : this.getRememberedTile(neighborTile);
+          const hasRoad = knownTile.improvements?.some(imp => imp.type === ImprovementType.ROAD);
           if (hasRoad) {
             connections |= dir.mask;
           }
@@ -795,6 +837,26 @@ export class GameRenderer {
     return connections as ConnectionPattern;
   }
 
+  // Check whether the viewing player has ever seen a tile
+  private isTileExplored(x: number, y: number): boolean {
+    return !this.fogPlayer || VisibilitySystem.isExplored(this.fogPlayer, x, y);
+  }
+
+  // Check whether the viewing player can currently see a tile
+  private isTileVisible(x: number, y: number): boolean {
+    return !this.fogPlayer || this.visibleTiles.has(VisibilitySystem.getTileKey(x, y));
+  }
+
+  // Build a copy of a tile showing the improvements the viewing player last saw on it
+  private getRememberedTile(tile: Tile): Tile {
+    if (!this.fogPlayer) return tile;
+    const memory = VisibilitySystem.getTileMemory(this.fogPlayer, tile.position.x, tile.position.y);
+    return {
+      ...tile,
+      improvements: (memory?.improvements || []).map(type => ({ type, completedTurn: 0 }))
+    };
+  }
+
   // Get color for unit type
   private getUnitColor(unitType: UnitType, category: UnitCategory): string {
     switch (category) {
@@ -1013,6 +1075,8 @@ export class GameRenderer {
 
   // Render selection indicators
   private renderSelections(): void {
+    this.renderGotoPath();
+
     if (this.selectedTile) {
       const screenPos = this.renderer.worldToScreen(this.selectedTile.x, this.selectedTile.y);
       const renderContext = this.renderer.getRenderContext();
@@ -1029,6 +1093,24 @@ export class GameRenderer {
     }
   }
 
+  // Mark the remaining steps of the selected unit's Go To order
+  private renderGotoPath(): void {
+    const path = this.selectedUnit?.gotoPath;
+    if (!path || path.length === 0) return;
+
+    const tileSize = this.renderer.getRenderContext().tileSize;
+    path.forEach((step, index) => {
+      const screenPos = this.renderer.worldToScreen(step.x, step.y);
+      const isDestination = index === path.length - 1;
+      this.renderer.fillCircle(
+        screenPos.x + tileSize / 2,
+        screenPos.y + tileSize / 2,
+        isDestination ? tileSize / 6 : tileSize / 10,
+        isDestination ? '#FFD700' : 'rgba(255, 255, 255, 0.7)'
+      );
+    });
+  }
+
   // Render grid overlay
   private renderGrid(): void {
     const renderContext = this.renderer.getRenderContext();
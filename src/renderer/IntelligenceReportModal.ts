@@ -0,0 +1,115 @@
+import { getCivilization } from '../game/CivilizationDefinitions.js';
+import { getTechnology } from '../game/TechnologyDefinitions.js';
+import { DiplomatSystem } from '../game/DiplomatSystem.js';
+import { DiplomacySystem } from '../game/DiplomacySystem.js';
+import { ParleyModal } from './ParleyModal.js';
+import { GOVERNMENTS } from '../types/game.js';
+import type { Player } from '../types/game.js';
+import type { Game } from '../game/Game.js';
+
+/**
+ * Foreign Advisor intelligence report on the civilizations a player has an embassy with
+ */
+export class IntelligenceReportModal {
+  private game: Game;
+  private playerId: string | null = null;
+  private onParley: ((rivalId: string) => void) | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * Show the report; onParley opens negotiations with the chosen civilization
+   */
+  public show(playerId: string, onParley?: (rivalId: string) => void): void {
+    const modal = document.getElementById('intelligence-report-modal');
+    const list = document.getElementById('intelligence-report-list');
+    const gameState = this.game.getGameState();
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!modal || !list || !player) return;
+
+    this.playerId = playerId;
+    this.onParley = onParley || null;
+    list.innerHTML = '';
+    const rivals = gameState.players.filter(p => p.id !== playerId && !p.eliminated);
+    rivals.forEach(rival => {
+      list.appendChild(player.embassies?.includes(rival.id) ? this.createReport(rival) : this.createUnknown(rival));
+    });
+    if (rivals.length === 0) {
+      list.textContent = 'We know of no other civilizations.';
+    }
+
+    const okButton = document.getElementById('intelligence-report-ok');
+    const closeButton = document.getElementById('intelligence-report-close');
+    if (okButton) okButton.onclick = () => this.hide();
+    if (closeButton) closeButton.onclick = () => this.hide();
+
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('intelligence-report-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+  }
+
+  private createReport(rival: Player): HTMLElement {
+    const gameState = this.game.getGameState();
+    const cities = gameState.cities.filter(c => c.playerId === rival.id);
+    const capital = DiplomatSystem.getCapital(gameState, rival.id);
+
+    const section = this.createSection(rival);
+    const lines = [
+      `Government: ${GOVERNMENTS[rival.government]?.name || rival.government}`,
+      `Treasury: ${rival.gold} gold`,
+      `Cities: ${cities.length}${capital ? ` (capital ${capital.name})` : ''}`,
+      `Researching: ${rival.currentResearch ? getTechnology(rival.currentResearch).name : 'Nothing'}`,
+      `Technologies: ${rival.technologies.map(t => getTechnology(t).name).join(', ') || 'None'}`
+    ];
+    lines.forEach(text => {
+      const line = document.createElement('div');
+      line.className = 'intelligence-report-line';
+      line.textContent = text;
+      section.appendChild(line);
+    });
+    return section;
+  }
+
+  private createUnknown(rival: Player): HTMLElement {
+    const section = this.createSection(rival);
+    const line = document.createElement('div');
+    line.className = 'intelligence-report-line intelligence-report-unknown';
+    line.textContent = 'No embassy. Send a diplomat to one of their cities.';
+    section.appendChild(line);
+    return section;
+  }
+
+  private createSection(rival: Player): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'intelligence-report-civ';
+    const heading = document.createElement('div');
+    heading.className = 'intelligence-report-name';
+    heading.textContent = getCivilization(rival.civilizationType)?.name || rival.name;
+    section.appendChild(heading);
+
+    const state = DiplomacySystem.getState(this.game.getGameState(), this.playerId!, rival.id);
+    const relation = document.createElement('div');
+    relation.className = 'intelligence-report-line';
+    relation.textContent = `Relations: ${ParleyModal.getStateLabel(state)}`;
+    section.appendChild(relation);
+
+    if (this.onParley) {
+      const parleyButton = document.createElement('button');
+      parleyButton.className = 'modal-button intelligence-report-parley';
+      parleyButton.textContent = 'Parley';
+      parleyButton.onclick = () => {
+        this.hide();
+        this.onParley?.(rival.id);
+      };
+      heading.appendChild(parleyButton);
+    }
+    return section;
+  }
+}
@@ -1,5 +1,6 @@
 import { GameState, Tile, TerrainType } from '../types/game';
 import { Renderer } from './Renderer';
+import { VisibilitySystem } from '../game/VisibilitySystem';
 
 export class Minimap {
   private canvas: HTMLCanvasElement;
@@ -163,11 +164,16 @@ export class Minimap {
       scaleElement.textContent = `Scale: 1:${scale}`;
     }
 
+    // Show the map as known to the human player (everything if there is none)
+    const viewer = this.gameState.players.find(p => p.isHuman);
+    const visibleTiles = viewer ? VisibilitySystem.getVisibleTiles(this.gameState, viewer.id) : null;
+
     // Render the world map
     for (let y = 0; y < mapHeight; y++) {
       for (let x = 0; x < mapWidth; x++) {
         const tile = worldMap[y][x];
-        const color = this.getTerrainColor(tile.terrain);
+        const explored = !viewer || VisibilitySystem.isExplored(viewer, x, y);
+        const color = explored ? this.getTerrainColor(tile.terrain) : '#000000';
         
         const pixelX = Math.floor(x * scaleX);
         const pixelY = Math.floor(y * scaleY);
@@ -179,17 +185,28 @@ export class Minimap {
       }
     }
 
-    // Render cities as white dots
-    this.gameState.cities.forEach(city => {
-      const pixelX = Math.floor(city.position.x * scaleX);
-      const pixelY = Math.floor(city.position.y * scaleY);
+    // Render known cities as white dots
+    const cityPositions = viewer
+      ? Object.entries(viewer.explored || {})
+          .filter(([, memory]) => memory.city)
+          .map(([key]) => {
+            const [x, y] = key.split(',').map(Number);
+            return { x, y };
+          })
+      : this.gameState.cities.map(city => city.position);
+
+    cityPositions.forEach(position => {
+      const pixelX = Math.floor(position.x * scaleX);
+      const pixelY = Math.floor(position.y * scaleY);
       
       this.ctx.fillStyle = '#FFFFFF';
       this.ctx.fillRect(pixelX - 1, pixelY - 1, 3, 3);
     });
 
-    // Render units as colored dots
+    // Render visible units as colored dots
     this.gameState.units.forEach(unit => {
+      if (visibleTiles && !visibleTiles.has(VisibilitySystem.getTileKey(unit.position.x, unit.position.y))) return;
+
       const pixelX = Math.floor(unit.position.x * scaleX);
       const pixelY = Math.floor(unit.position.y * scaleY);
       
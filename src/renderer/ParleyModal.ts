@@ -0,0 +1,177 @@
+import { getCivilization } from '../game/CivilizationDefinitions.js';
+import { getTechnology } from '../game/TechnologyDefinitions.js';
+import type { TechnologyType } from '../game/TechnologyDefinitions.js';
+import { DiplomacySystem } from '../game/DiplomacySystem.js';
+import { DiplomaticState } from '../types/game.js';
+import type { DiplomaticProposal, Player } from '../types/game.js';
+import type { Game } from '../game/Game.js';
+
+const STATE_LABELS: Record<DiplomaticState, string> = {
+  [DiplomaticState.WAR]: 'War',
+  [DiplomaticState.CEASEFIRE]: 'Ceasefire',
+  [DiplomaticState.PEACE]: 'Peace',
+  [DiplomaticState.ALLIANCE]: 'Alliance'
+};
+
+/**
+ * Parley with another civilization: trade gold and technologies, demand tribute,
+ * sign the next treaty or declare war
+ */
+export class ParleyModal {
+  private game: Game;
+  private playerId: string | null = null;
+  private rivalId: string | null = null;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  public static getStateLabel(state: DiplomaticState): string {
+    return STATE_LABELS[state];
+  }
+
+  public show(playerId: string, rivalId: string): void {
+    const modal = document.getElementById('parley-modal');
+    if (!modal) return;
+
+    this.playerId = playerId;
+    this.rivalId = rivalId;
+
+    const proposeButton = document.getElementById('parley-propose');
+    const warButton = document.getElementById('parley-declare-war');
+    const cancelButton = document.getElementById('parley-cancel');
+    const closeButton = document.getElementById('parley-close');
+    if (proposeButton) proposeButton.onclick = () => this.propose();
+    if (warButton) warButton.onclick = () => this.declareWar();
+    if (cancelButton) cancelButton.onclick = () => this.hide();
+    if (closeButton) closeButton.onclick = () => this.hide();
+
+    this.setResponse('');
+    this.refresh();
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('parley-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+    this.playerId = null;
+    this.rivalId = null;
+  }
+
+  // Redraw the relation and the terms that can be offered
+  private refresh(): void {
+    const gameState = this.game.getGameState();
+    const player = gameState.players.find(p => p.id === this.playerId);
+    const rival = gameState.players.find(p => p.id === this.rivalId);
+    if (!player || !rival) return;
+
+    const relation = DiplomacySystem.getRelation(gameState, player.id, rival.id);
+    const title = document.getElementById('parley-title');
+    const status = document.getElementById('parley-status');
+    if (title) title.textContent = `Parley with the ${this.getAdjective(rival)}`;
+    if (status) {
+      const expiry = relation.expiresTurn !== undefined
+        ? ` (expires in ${Math.max(0, relation.expiresTurn - gameState.turn)} turns)`
+        : '';
+      status.textContent = `Relations: ${STATE_LABELS[relation.state]}${expiry}. Their treasury: ${rival.gold} gold.`;
+    }
+
+    this.fillTechnologies('parley-offer-tech', player, rival);
+    this.fillTechnologies('parley-request-tech', rival, player);
+    this.setNumber('parley-offer-gold', 0, player.gold);
+    this.setNumber('parley-request-gold', 0, rival.gold);
+
+    const nextTreaty = DiplomacySystem.getNextTreaty(gameState, player.id, rival.id);
+    const treatyRow = document.getElementById('parley-treaty-row');
+    const treatyBox = document.getElementById('parley-treaty') as HTMLInputElement | null;
+    const treatyLabel = document.getElementById('parley-treaty-label');
+    if (treatyRow) treatyRow.style.display = nextTreaty ? '' : 'none';
+    if (treatyBox) treatyBox.checked = false;
+    if (treatyLabel && nextTreaty) treatyLabel.textContent = `Sign ${STATE_LABELS[nextTreaty].toLowerCase()} treaty`;
+
+    const warButton = document.getElementById('parley-declare-war') as HTMLButtonElement | null;
+    if (warButton) warButton.disabled = relation.state === DiplomaticState.WAR;
+  }
+
+  private propose(): void {
+    if (!this.playerId || !this.rivalId) return;
+
+    const gameState = this.game.getGameState();
+    const treatyBox = document.getElementById('parley-treaty') as HTMLInputElement | null;
+    const offerTech = this.getSelected('parley-offer-tech');
+    const requestTech = this.getSelected('parley-request-tech');
+    const proposal: DiplomaticProposal = {
+      fromPlayerId: this.playerId,
+      toPlayerId: this.rivalId,
+      treaty: treatyBox?.checked ? DiplomacySystem.getNextTreaty(gameState, this.playerId, this.rivalId) : undefined,
+      offerGold: this.getNumber('parley-offer-gold'),
+      requestGold: this.getNumber('parley-request-gold'),
+      offerTechnologies: offerTech ? [offerTech] : [],
+      requestTechnologies: requestTech ? [requestTech] : []
+    };
+
+    const response = this.game.proposeDeal(proposal);
+    this.refresh();
+    this.setResponse(response.message);
+  }
+
+  private declareWar(): void {
+    if (!this.playerId || !this.rivalId) return;
+
+    const gameState = this.game.getGameState();
+    const blocker = DiplomacySystem.getAttackBlocker(gameState, this.playerId, this.rivalId);
+    const declared = this.game.declareWar(this.playerId, this.rivalId);
+    this.refresh();
+    this.setResponse(declared ? 'We are at war!' : blocker || 'War cannot be declared.');
+  }
+
+  // List the technologies one side could hand the other
+  private fillTechnologies(id: string, giver: Player, receiver: Player): void {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = '';
+    const none = document.createElement('option');
+    none.value = '';
+    none.textContent = 'No technology';
+    select.appendChild(none);
+
+    giver.technologies
+      .filter(t => !receiver.technologies.includes(t))
+      .forEach(t => {
+        const option = document.createElement('option');
+        option.value = t;
+        option.textContent = getTechnology(t).name;
+        select.appendChild(option);
+      });
+  }
+
+  private getSelected(id: string): TechnologyType | undefined {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    return (select?.value || undefined) as TechnologyType | undefined;
+  }
+
+  private getNumber(id: string): number {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    return Math.max(0, Math.floor(Number(input?.value) || 0));
+  }
+
+  private setNumber(id: string, value: number, max: number): void {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) {
+      input.value = value.toString();
+      input.max = max.toString();
+    }
+  }
+
+  private setResponse(text: string): void {
+    const response = document.getElementById('parley-response');
+    if (response) response.textContent = text;
+  }
+
+  private getAdjective(player: Player): string {
+    return getCivilization(player.civilizationType)?.adjective || player.name;
+  }
+}
@@ -3,6 +3,8 @@ import { Game } from '../game/Game';
 import { ProductionManager, ProductionOption } from '../game/ProductionManager';
 import { TemplateLoader } from '../utils/TemplateLoader';
 import { UNIT_DEFINITIONS } from '../game/UnitDefinitions';
+import { CityEconomy } from '../game/CityEconomy';
+import { getAvailableWonders } from '../game/WonderDefinitions';
 
 export class ProductionSelectionModal {
   private modal: HTMLElement | null = null;
@@ -156,14 +158,22 @@ export class ProductionSelectionModal {
       player.technologies,
       existingBuildings,
       this.calculateProductionCapacity(),
-      this.currentCity.production_points
+      this.currentCity.production_points,
+      getAvailableWonders(gameState, player)
     );
 
     // Clear existing options
     this.productionList.innerHTML = '';
 
-    // Add each option to the list
+    // Add each option to the list, with wonders under their own heading
     this.availableOptions.forEach((option, index) => {
+      if (option.type === 'wonder' && this.availableOptions[index - 1]?.type !== 'wonder') {
+        const header = document.createElement('div');
+        header.className = 'production-section-header';
+        header.textContent = 'Wonders of the World';
+        this.productionList!.appendChild(header);
+      }
+
       const optionElement = this.createProductionOptionElement(option, index);
       this.productionList!.appendChild(optionElement);
     });
@@ -208,6 +218,8 @@ export class ProductionSelectionModal {
       } else {
         detailsSpan.textContent = `(${option.turns} turns)`;
       }
+    } else if (option.type === 'wonder') {
+      detailsSpan.textContent = `(${option.turns} turns, ${option.cost} shields)`;
     } else {
       // Buildings just show turn count
       detailsSpan.textContent = `(${option.turns} turns)`;
@@ -215,6 +227,7 @@ export class ProductionSelectionModal {
 
     element.appendChild(nameSpan);
     element.appendChild(detailsSpan);
+    element.appendChild(this.createShieldProgressBar(option));
 
     // Add click event listener
     element.addEventListener('click', () => {
@@ -224,6 +237,23 @@ export class ProductionSelectionModal {
     return element;
   }
 
+  // Bar showing how much of the option's cost the city's stored shields already cover
+  private createShieldProgressBar(option: ProductionOption): HTMLElement {
+    const storedShields = this.currentCity?.production_points || 0;
+    const percent = option.cost > 0 ? Math.min(100, (storedShields / option.cost) * 100) : 0;
+
+    const bar = document.createElement('div');
+    bar.className = 'production-progress production-option-progress';
+    bar.title = `${Math.min(storedShields, option.cost)}/${option.cost} shields`;
+
+    const fill = document.createElement('div');
+    fill.className = 'production-progress-fill';
+    fill.style.width = `${percent}%`;
+    bar.appendChild(fill);
+
+    return bar;
+  }
+
   private getUnitStatsForOption(unitType: any): any {
     try {
       return UNIT_DEFINITIONS[unitType];
@@ -270,19 +300,7 @@ export class ProductionSelectionModal {
 
   private calculateProductionCapacity(): number {
     if (!this.currentCity) return 1;
-    
-    // Base production
-    let production = 1;
-    
-    // Add production from buildings (match TurnManager logic)
-    if (this.currentCity.buildings.some(b => b.type === 'barracks')) {
-      production += 1;
-    }
-    
-    // Add other building bonuses if needed
-    // Factory, Manufacturing Plant, etc.
-    
-    return production;
+    return CityEconomy.calculateCityYields(this.game.getGameState(), this.currentCity).production;
   }
 
   private updateAdvisorRecommendations(): void {
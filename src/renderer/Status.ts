@@ -1,9 +1,17 @@
 import { GameState, Unit, City, Player } from '../types/game';
 import { getUnitStats, getUnitName } from '../game/UnitDefinitions';
 import { getTechnology, getResearchCost } from '../game/TechnologyDefinitions';
+import { TransportSystem } from '../game/TransportSystem';
 import { TechnologyUI } from '../utils/TechnologyUI';
 import { getDisplayedPopulation } from '../utils/CityPopulationDisplay';
 import type { Game } from '../game/Game';
+import type { CombatOdds } from '../game/CombatSystem';
+
+// Odds of an attack the player is about to make, shown until it is confirmed
+export interface AttackPreview extends CombatOdds {
+  unitId: string;
+  defender: Unit;
+}
 
 export class Status {
   private window: HTMLElement;
@@ -13,6 +21,7 @@ export class Status {
   private gameState: GameState | null = null;
   private selectedUnit: Unit | null = null;
   private selectedCity: City | null = null;
+  private attackPreview: AttackPreview | null = null;
   private endOfTurnState = false;
   private endOfTurnBlinkInterval: number | null = null;
   private game: Game;
@@ -80,9 +89,15 @@ export class Status {
 
     this.selectedUnit = unit;
     this.selectedCity = null; // Clear city selection when unit is selected
+    this.attackPreview = null;
     this.updateDisplay();
   }
 
+  public setAttackPreview(preview: AttackPreview | null): void {
+    this.attackPreview = preview;
+    this.updateUnitDetails();
+  }
+
   public setSelectedCity(city: City | null): void {
     // Only allow city selection for human players
     if (city && !this.isCurrentPlayerHuman()) {
@@ -151,6 +166,10 @@ export class Status {
     if (unitTerrainElement) unitTerrainElement.textContent = '';
     if (unitSpecialElement) unitSpecialElement.textContent = '';
     if (unitFortificationElement) unitFortificationElement.textContent = '';
+    const cargoElement = document.getElementById('unit-cargo');
+    if (cargoElement) cargoElement.textContent = '';
+    const combatOddsElement = document.getElementById('unit-combat-odds');
+    if (combatOddsElement) combatOddsElement.textContent = '';
   }
 
   private updateDisplay(): void {
@@ -265,6 +284,8 @@ export class Status {
     const unitTerrainElement = document.getElementById('unit-terrain');
     const unitSpecialElement = document.getElementById('unit-special');
     const unitFortificationElement = document.getElementById('unit-fortification');
+    const cargoElement = document.getElementById('unit-cargo');
+    const combatOddsElement = document.getElementById('unit-combat-odds');
 
     // Check if in end of turn state
     if (this.endOfTurnState) {
@@ -290,7 +311,9 @@ export class Status {
       }
 
       if (unitMovesElement) {
-        unitMovesElement.textContent = `Moves: ${this.selectedUnit.movementPoints}`;
+        const maxFuel = getUnitStats(this.selectedUnit.type).fuel;
+        const fuelText = maxFuel ? ` Fuel: ${this.selectedUnit.fuel ?? maxFuel}/${maxFuel}` : '';
+        unitMovesElement.textContent = `Moves: ${this.selectedUnit.movementPoints}${fuelText}`;
       }
 
       if (unitHomeElement) {
@@ -326,12 +349,41 @@ export class Status {
           unitFortificationElement.textContent = '(Irrigation)'; // Placeholder
         }
       }
+
+      if (cargoElement) {
+        cargoElement.textContent = this.getCargoText(this.selectedUnit);
+      }
+
+      if (combatOddsElement) {
+        const preview = this.attackPreview;
+        combatOddsElement.textContent = preview && preview.unitId === this.selectedUnit.id
+          ? `vs ${getUnitName(preview.defender.type)}: ${preview.attackStrength.toFixed(1)} / ` +
+            `${preview.defenseStrength.toFixed(1)} (${Math.round(preview.attackerWinChance * 100)}% win) - move again to attack`
+          : '';
+      }
     } else {
       // No unit selected - clear details
       this.clearUnitDetails();
     }
   }
 
+  // List a ship's cargo, or name the ship carrying the unit
+  private getCargoText(unit: Unit): string {
+    if (!this.gameState) return '';
+
+    if (unit.transportId) {
+      const ship = this.gameState.units.find(u => u.id === unit.transportId);
+      return ship ? `(Aboard ${getUnitName(ship.type)})` : '';
+    }
+
+    const cargo = TransportSystem.getCargo(this.gameState, unit);
+    const capacity = getUnitStats(unit.type).canCarryUnits;
+    if (!capacity) return '';
+    return cargo.length > 0
+      ? `Cargo: ${cargo.map(u => getUnitName(u.type)).join(', ')} (${cargo.length}/${capacity})`
+      : `Cargo: empty (0/${capacity})`;
+  }
+
   private clearUnitDetails(): void {
     const elements = [
       'unit-civilization',
@@ -340,7 +392,9 @@ export class Status {
       'unit-home',
       'unit-terrain',
       'unit-special',
-      'unit-fortification'
+      'unit-fortification',
+      'unit-cargo',
+      'unit-combat-odds'
     ];
 
     elements.forEach(id => {
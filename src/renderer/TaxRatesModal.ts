@@ -0,0 +1,112 @@
+import { CityEconomy } from '../game/CityEconomy.js';
+import type { TaxRates } from '../game/CityEconomy.js';
+import { GOVERNMENTS } from '../types/game.js';
+import type { Game } from '../game/Game.js';
+
+type RateKey = keyof TaxRates;
+
+/**
+ * Tax Rates dialog for splitting trade between taxes, luxuries and science
+ */
+export class TaxRatesModal {
+  private game: Game;
+  private playerId: string | null = null;
+  private rates: TaxRates = { ...CityEconomy.DEFAULT_TAX_RATES };
+
+  // When a rate changes, the difference is taken from (or given to) these rates in order
+  private static readonly BALANCE_ORDER: Record<RateKey, RateKey[]> = {
+    tax: ['science', 'luxury'],
+    luxury: ['science', 'tax'],
+    science: ['tax', 'luxury']
+  };
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  /**
+   * Show the dialog for a player's current rates
+   */
+  public show(playerId: string): void {
+    const modal = document.getElementById('tax-rates-modal');
+    const player = this.game.getGameState().players.find(p => p.id === playerId);
+    if (!modal || !player) return;
+
+    this.playerId = playerId;
+    this.rates = CityEconomy.getTaxRates(player);
+
+    modal.querySelectorAll<HTMLButtonElement>('.tax-rate-step').forEach(button => {
+      button.onclick = () => this.adjustRate(button.dataset.rate as RateKey, Number(button.dataset.step));
+    });
+
+    const okButton = document.getElementById('tax-rates-ok');
+    const cancelButton = document.getElementById('tax-rates-cancel');
+    const closeButton = document.getElementById('tax-rates-close');
+    if (okButton) okButton.onclick = () => this.confirm();
+    if (cancelButton) cancelButton.onclick = () => this.hide();
+    if (closeButton) closeButton.onclick = () => this.hide();
+
+    this.updateDisplay();
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('tax-rates-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+    this.playerId = null;
+  }
+
+  /**
+   * Change one rate by a step, balancing the difference against the other rates
+   */
+  private adjustRate(key: RateKey, step: number): void {
+    const maxRate = this.getMaxRate();
+    const target = this.rates[key] + step;
+    if (target < 0 || target > maxRate) return;
+
+    const next = { ...this.rates, [key]: target };
+    let remaining = step;
+    for (const other of TaxRatesModal.BALANCE_ORDER[key]) {
+      if (remaining === 0) break;
+      const value = next[other] - remaining;
+      if (value >= 0 && value <= maxRate) {
+        next[other] = value;
+        remaining = 0;
+      }
+    }
+    if (remaining !== 0) return;
+
+    this.rates = next;
+    this.updateDisplay();
+  }
+
+  private confirm(): void {
+    if (this.playerId) {
+      this.game.setTaxRates(this.playerId, this.rates.tax, this.rates.luxury, this.rates.science);
+    }
+    this.hide();
+  }
+
+  private getMaxRate(): number {
+    const player = this.game.getGameState().players.find(p => p.id === this.playerId);
+    return player ? CityEconomy.getMaxRate(player.government) : 100;
+  }
+
+  private updateDisplay(): void {
+    const player = this.game.getGameState().players.find(p => p.id === this.playerId);
+    const governmentText = document.getElementById('tax-rates-government');
+    if (governmentText && player) {
+      const governmentName = GOVERNMENTS[player.government]?.name || player.government;
+      governmentText.textContent = `${governmentName}: maximum rate ${this.getMaxRate()}%`;
+    }
+
+    (['tax', 'luxury', 'science'] as RateKey[]).forEach(key => {
+      const value = document.getElementById(`tax-rate-${key}`);
+      if (value) {
+        value.textContent = `${this.rates[key]}%`;
+      }
+    });
+  }
+}
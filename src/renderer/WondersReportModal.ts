@@ -0,0 +1,77 @@
+import { WONDER_DEFINITIONS, getWonderCity, isWonderObsolete } from '../game/WonderDefinitions.js';
+import { getCivilization } from '../game/CivilizationDefinitions.js';
+import { TurnManager } from '../game/TurnManager.js';
+import type { WonderType } from '../types/game.js';
+import type { Game } from '../game/Game.js';
+
+/**
+ * Wonders of the World report listing every wonder, where it stands and who built it
+ */
+export class WondersReportModal {
+  private game: Game;
+
+  constructor(game: Game) {
+    this.game = game;
+  }
+
+  public show(): void {
+    const modal = document.getElementById('wonders-report-modal');
+    const list = document.getElementById('wonders-report-list');
+    if (!modal || !list) return;
+
+    list.innerHTML = '';
+    (Object.keys(WONDER_DEFINITIONS) as WonderType[]).forEach(wonderType => {
+      list.appendChild(this.createRow(wonderType));
+    });
+
+    const okButton = document.getElementById('wonders-report-ok');
+    const closeButton = document.getElementById('wonders-report-close');
+    if (okButton) okButton.onclick = () => this.hide();
+    if (closeButton) closeButton.onclick = () => this.hide();
+
+    modal.style.display = 'flex';
+  }
+
+  public hide(): void {
+    const modal = document.getElementById('wonders-report-modal');
+    if (modal) {
+      modal.style.display = 'none';
+    }
+  }
+
+  private createRow(wonderType: WonderType): HTMLTableRowElement {
+    const gameState = this.game.getGameState();
+    const built = gameState.wonders?.[wonderType];
+    const city = getWonderCity(gameState, wonderType);
+    const builder = built ? gameState.players.find(p => p.id === built.playerId) : undefined;
+
+    let status = 'Not built';
+    if (built && !city) {
+      status = 'Lost';
+    } else if (built && isWonderObsolete(gameState, wonderType)) {
+      status = 'Obsolete';
+    } else if (built) {
+      status = `Built ${TurnManager.getYearLabel(built.turnBuilt)}`;
+    }
+
+    const row = document.createElement('tr');
+    if (!built) {
+      row.className = 'wonder-not-built';
+    }
+
+    const cells = [
+      WONDER_DEFINITIONS[wonderType].name,
+      city?.name || '—',
+      builder ? (getCivilization(builder.civilizationType)?.name || builder.name) : '—',
+      status
+    ];
+    cells.forEach(text => {
+      const cell = document.createElement('td');
+      cell.textContent = text;
+      row.appendChild(cell);
+    });
+    row.title = WONDER_DEFINITIONS[wonderType].description;
+
+    return row;
+  }
+}
@@ -17,7 +17,8 @@ export class ArcticTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0
     });
   }
 
@@ -102,11 +103,4 @@ export class ArcticTerrain extends TerrainBase {
   public isDifficultTerrain(): boolean {
     return true;
   }
-
-  /**
-   * Check if this terrain provides defensive bonuses
-   */
-  public getDefenseBonus(): number {
-    return 0; // No defensive bonus
-  }
 }
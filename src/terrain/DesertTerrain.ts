@@ -17,7 +17,8 @@ export class DesertTerrain extends TerrainBase {
       productionYield: 1,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0
     });
   }
 
@@ -18,7 +18,8 @@ export class ForestTerrain extends TerrainBase {
       productionYield: 2,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: true
+      useConnections: true,
+      defenseBonus: 0.25
     });
   }
 
@@ -18,7 +18,8 @@ export class GrasslandTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0
     });
   }
 
@@ -18,7 +18,8 @@ export class HillsTerrain extends TerrainBase {
       productionYield: 1,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: true
+      useConnections: true,
+      defenseBonus: 0.5
     });
   }
 
@@ -18,7 +18,8 @@ export class MountainsTerrain extends TerrainBase {
       productionYield: 3,
       tradeYield: 0,
       canFoundCity: false, // Cities cannot be founded on mountains
-      useConnections: true
+      useConnections: true,
+      defenseBonus: 1
     });
   }
 
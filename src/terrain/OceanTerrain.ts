@@ -17,7 +17,8 @@ export class OceanTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 2,
       canFoundCity: false,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0
     });
   }
 
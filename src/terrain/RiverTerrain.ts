@@ -18,7 +18,8 @@ export class RiverTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 1,
       canFoundCity: true, // Rivers are excellent for founding cities
-      useConnections: true
+      useConnections: true,
+      defenseBonus: 0.25
     });
   }
 
@@ -17,7 +17,8 @@ export class SwampTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0.25
     });
   }
 
@@ -100,11 +101,4 @@ export class SwampTerrain extends TerrainBase {
   public isDifficultTerrain(): boolean {
     return true;
   }
-
-  /**
-   * Check if this terrain provides defensive bonuses
-   */
-  public getDefenseBonus(): number {
-    return 0.1; // Small defensive bonus due to difficult terrain
-  }
 }
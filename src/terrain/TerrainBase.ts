@@ -22,6 +22,8 @@ export interface TerrainProperties {
   canFoundCity: boolean;
   /** Whether this terrain benefits from connection-based rendering */
   useConnections: boolean;
+  /** Extra defense for units on this terrain (0.5 = +50%) */
+  defenseBonus: number;
 }
 
 /**
@@ -48,6 +50,7 @@ export abstract class TerrainBase {
   public get tradeYield(): number { return this.properties.tradeYield; }
   public get canFoundCity(): boolean { return this.properties.canFoundCity; }
   public get useConnections(): boolean { return this.properties.useConnections; }
+  public get defenseBonus(): number { return this.properties.defenseBonus; }
 
   /**
    * Create the basic sprite for this terrain type
@@ -17,7 +17,8 @@ export class TundraTerrain extends TerrainBase {
       productionYield: 0,
       tradeYield: 0,
       canFoundCity: true,
-      useConnections: false
+      useConnections: false,
+      defenseBonus: 0
     });
   }
 
@@ -109,11 +110,4 @@ export class TundraTerrain extends TerrainBase {
   public isDifficultTerrain(): boolean {
     return false; // Normal movement cost
   }
-
-  /**
-   * Check if this terrain provides defensive bonuses
-   */
-  public getDefenseBonus(): number {
-    return 0; // No defensive bonus
-  }
 }
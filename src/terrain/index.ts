@@ -126,6 +126,13 @@ export class TerrainManager {
     return this.getTerrain(type).movementCost;
   }
 
+  /**
+   * Get the defense multiplier for units on this terrain (1.5 on hills, 2 on mountains)
+   */
+  public static getDefenseMultiplier(type: TerrainType): number {
+    return 1 + this.getTerrain(type).defenseBonus;
+  }
+
   /**
    * Check if cities can be founded on this terrain
    */
@@ -86,6 +86,11 @@ export interface Unit {
   sleeping?: boolean; // True if unit is sleeping (skips turns until manually awakened)
   buildingRoad?: boolean; // True if unit is in the process of building a road
   roadBuildingTurns?: number; // How many turns of road building have been completed
+  homeCityId?: string; // City that built and supports this unit
+  gotoTarget?: Position; // Destination of a Go To order
+  gotoPath?: Position[]; // Remaining steps toward the Go To destination
+  transportId?: string; // Ship carrying this unit
+  fuel?: number; // Turns an aircraft can still stay aloft away from a city or carrier
 }
 
 export const UnitCategory = {
@@ -109,6 +114,7 @@ export interface UnitStats {
   visibility?: number; // For naval/air units with extended vision
   canMoveOnWater?: boolean; // For naval units that can move on ocean tiles
   canMoveOnMountains?: boolean; // For units that can move on mountain tiles
+  fuel?: number; // For aircraft: turns they can stay aloft before returning to a city or carrier
   specialAbilities?: string[];
 }
 
@@ -183,6 +189,9 @@ export interface City {
   science: number;
   culture: number;
   workedTiles?: Array<{dx: number, dy: number}>; // Manually selected worked tiles
+  inDisorder?: boolean; // True while unhappy citizens outnumber happy ones
+  technologyStolenBy?: string[]; // Players whose diplomats already stole a technology here
+  tradeRoutes?: string[]; // Cities this city trades with (caravan routes)
 }
 
 export interface Building {
@@ -227,9 +236,62 @@ export const BuildingType = {
 } as const;
 export type BuildingType = typeof BuildingType[keyof typeof BuildingType];
 
+export const DiplomatAction = {
+  ESTABLISH_EMBASSY: 'establish_embassy',
+  STEAL_TECHNOLOGY: 'steal_technology',
+  SABOTAGE: 'sabotage',
+  INCITE_REVOLT: 'incite_revolt',
+  BRIBE_UNIT: 'bribe_units'
+} as const;
+export type DiplomatAction = typeof DiplomatAction[keyof typeof DiplomatAction];
+
+export const CaravanAction = {
+  ESTABLISH_TRADE_ROUTE: 'establish_trade_route',
+  HELP_WONDER: 'help_wonder_construction'
+} as const;
+export type CaravanAction = typeof CaravanAction[keyof typeof CaravanAction];
+
+export const WonderType = {
+  // Ancient wonders
+  COLOSSUS: 'colossus',
+  GREAT_LIBRARY: 'great_library',
+  GREAT_WALL: 'great_wall',
+  HANGING_GARDENS: 'hanging_gardens',
+  LIGHTHOUSE: 'lighthouse',
+  ORACLE: 'oracle',
+  PYRAMIDS: 'pyramids',
+
+  // Medieval and Renaissance wonders
+  COPERNICUS_OBSERVATORY: 'copernicus_observatory',
+  JS_BACHS_CATHEDRAL: 'js_bachs_cathedral',
+  KING_RICHARDS_CRUSADE: 'king_richards_crusade',
+  MAGELLANS_EXPEDITION: 'magellans_expedition',
+  MICHELANGELOS_CHAPEL: 'michelangelos_chapel',
+  SHAKESPEARES_THEATRE: 'shakespeares_theatre',
+
+  // Industrial and Modern wonders
+  DARWINS_VOYAGE: 'darwins_voyage',
+  ISAAC_NEWTONS_COLLEGE: 'isaac_newtons_college',
+  WOMENS_SUFFRAGE: 'womens_suffrage',
+  HOOVER_DAM: 'hoover_dam',
+  MANHATTAN_PROJECT: 'manhattan_project',
+  UNITED_NATIONS: 'united_nations',
+  APOLLO_PROGRAM: 'apollo_program',
+  SETI_PROGRAM: 'seti_program',
+  CURE_FOR_CANCER: 'cure_for_cancer'
+} as const;
+export type WonderType = typeof WonderType[keyof typeof WonderType];
+
+// A wonder that has been completed somewhere in the world
+export interface BuiltWonder {
+  cityId: string; // City holding the wonder (lost if the city is destroyed)
+  playerId: string; // Civilization that built it
+  turnBuilt: number;
+}
+
 export interface ProductionItem {
   type: 'unit' | 'building' | 'wonder';
-  item: UnitType | BuildingType | string;
+  item: UnitType | BuildingType | WonderType | string;
   turnsRemaining: number;
 }
 
@@ -264,6 +326,25 @@ export interface Player {
   government: GovernmentType;
   revolutionTurns?: number; // Turns remaining in anarchy during revolution
   usedCityNames: string[]; // Track which city names have been used
+  taxRate?: number; // Percentage of trade collected as gold (10% steps)
+  luxuryRate?: number; // Percentage of trade spent on luxuries (10% steps)
+  scienceRate?: number; // Percentage of trade spent on science (10% steps)
+  explored?: Record<string, TileMemory>; // Fog of war: last known state of each explored tile, keyed by "x,y"
+  eliminated?: boolean; // Lost every city and settler; skipped in turn order
+  embassies?: string[]; // Players this player has an embassy with
+}
+
+// Fog of war types
+export interface TileMemory {
+  improvements?: ImprovementType[]; // Improvements as last seen
+  city?: CityMemory; // City as last seen
+}
+
+export interface CityMemory {
+  id: string;
+  name: string;
+  playerId: string;
+  population: number;
 }
 
 // Government system types
@@ -303,6 +384,9 @@ export interface GovernmentEffects {
   martialLawAvailable: boolean; // Can military units make unhappy citizens content
   unhappinessFromMilitary: number; // Unhappy citizens per military unit away from home city
 
+  // Trade rates
+  maxRate: number; // Highest tax, luxury or science rate allowed (percent)
+
   // Other effects
   taxCollection: boolean; // false during anarchy
   maintenanceCosts: boolean; // false during anarchy  
@@ -331,6 +415,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 1,
       martialLawAvailable: true,
       unhappinessFromMilitary: 0,
+      maxRate: 60,
       taxCollection: true,
       maintenanceCosts: true,
       scientificResearch: true
@@ -357,6 +442,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 1,
       martialLawAvailable: true,
       unhappinessFromMilitary: 0,
+      maxRate: 60,
       taxCollection: false, // No tax revenue
       maintenanceCosts: false, // No maintenance costs
       scientificResearch: false // No research
@@ -384,6 +470,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 2,
       martialLawAvailable: true,
       unhappinessFromMilitary: 0,
+      maxRate: 70,
       taxCollection: true,
       maintenanceCosts: true,
       scientificResearch: true
@@ -411,6 +498,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 2,
       martialLawAvailable: true,
       unhappinessFromMilitary: 0,
+      maxRate: 80,
       taxCollection: true,
       maintenanceCosts: true,
       scientificResearch: true
@@ -438,6 +526,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 2,
       martialLawAvailable: false,
       unhappinessFromMilitary: 1, // 1 unhappy citizen per unit away from home
+      maxRate: 80,
       taxCollection: true,
       maintenanceCosts: true,
       scientificResearch: true
@@ -465,6 +554,7 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
       settlerSupport: 2,
       martialLawAvailable: false,
       unhappinessFromMilitary: 2, // 2 unhappy citizens per unit away from home
+      maxRate: 90,
       taxCollection: true,
       maintenanceCosts: true,
       scientificResearch: true
@@ -479,10 +569,17 @@ export const GOVERNMENTS: Record<GovernmentType, Government> = {
 
 // Game event types
 export interface GameEvent {
-  type: 'technologyCompleted' | 'cityFounded' | 'unitDestroyed' | 'diplomaticAction';
+  type: 'technologyCompleted' | 'cityFounded' | 'unitDestroyed' | 'diplomaticAction' | 'buildingSold' | 'civilDisorder' | 'orderRestored' | 'wonderCompleted' | 'wonderUnavailable' | 'technologyAcquired' |
+    'cityCaptured' | 'cityDestroyed' | 'civilizationDestroyed' | 'diplomatAction' | 'tradeRouteEstablished';
   playerId: string;
   technologyType?: TechnologyType;
+  technologies?: TechnologyType[]; // Technologies granted outside research
   player?: Player;
+  targetPlayerId?: string; // Player on the receiving end (e.g. the previous owner of a captured city)
+  cityId?: string;
+  buildingType?: BuildingType;
+  wonderType?: WonderType;
+  message?: string; // Text to show the player
   // Add other event data as needed
 }
 
@@ -495,9 +592,56 @@ export interface GameState {
   cities: City[];
   gamePhase: GamePhase;
   score: number;
+  difficulty?: DifficultyLevel; // Defaults to Prince
+  wonders?: Partial<Record<WonderType, BuiltWonder>>; // Wonders completed anywhere in the world
+  diplomacy?: Record<string, DiplomaticRelation>; // Relations between player pairs, keyed by sorted "idA|idB"; war if absent
+  aiCampaigns?: Record<string, AICampaign>; // Computer players' military campaigns, keyed by player id
   events?: GameEvent[]; // Events that occurred this turn
 }
 
+export const DiplomaticState = {
+  WAR: 'war',
+  CEASEFIRE: 'ceasefire',
+  PEACE: 'peace',
+  ALLIANCE: 'alliance'
+} as const;
+export type DiplomaticState = typeof DiplomaticState[keyof typeof DiplomaticState];
+
+export interface DiplomaticRelation {
+  state: DiplomaticState;
+  sinceTurn: number; // Turn the current state began
+  expiresTurn?: number; // Turn a ceasefire lapses back into war
+}
+
+// Terms put forward in a parley; gold and technologies flow in both directions
+export interface DiplomaticProposal {
+  fromPlayerId: string;
+  toPlayerId: string;
+  treaty?: DiplomaticState; // Treaty to sign, if any
+  offerGold?: number; // Gold the proposer gives
+  offerTechnologies?: TechnologyType[]; // Technologies the proposer gives
+  requestGold?: number; // Gold the proposer asks for
+  requestTechnologies?: TechnologyType[]; // Technologies the proposer asks for
+}
+
+// A computer player's attack stack on its way to an enemy city
+export interface AICampaign {
+  targetCityId: string;
+  stagingCityId: string; // Own city where the stack assembles
+  unitIds: string[]; // Land units in the stack
+  transportId?: string; // Ship carrying the stack to an overseas target
+  launched: boolean; // The stack has assembled and is on its way
+}
+
+export const DifficultyLevel = {
+  CHIEFTAIN: 'chieftain',
+  WARLORD: 'warlord',
+  PRINCE: 'prince',
+  KING: 'king',
+  EMPEROR: 'emperor'
+} as const;
+export type DifficultyLevel = typeof DifficultyLevel[keyof typeof DifficultyLevel];
+
 export const GamePhase = {
   SETUP: 'setup',
   PLAYING: 'playing',
@@ -0,0 +1,147 @@
+/**
+ * Manages rotating autosave slots with localStorage persistence
+ */
+export interface AutosaveEntry {
+  slot: number;
+  turn: number;
+  year: string;
+  civilization: string;
+  timestamp: string; // ISO timestamp of when the autosave was written
+}
+
+export class AutosaveManager {
+  private static instance: AutosaveManager;
+  private static readonly INDEX_KEY = 'civwin-autosaves';
+  private static readonly SLOT_KEY_PREFIX = 'civwin-autosave-';
+  public static readonly MAX_SLOTS = 5;
+
+  private entries: AutosaveEntry[];
+
+  private constructor() {
+    this.entries = this.loadIndex();
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  static getInstance(): AutosaveManager {
+    if (!this.instance) {
+      this.instance = new AutosaveManager();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Write an autosave, overwriting the oldest slot once all slots are in use
+   */
+  save(json: string, metadata: Omit<AutosaveEntry, 'slot' | 'timestamp'>): AutosaveEntry | null {
+    const slot = this.getNextSlot();
+    const entry: AutosaveEntry = {
+      ...metadata,
+      slot,
+      timestamp: new Date().toISOString()
+    };
+
+    // Drop the slot being overwritten first so a failed write never leaves a stale index entry
+    this.entries = this.entries.filter(e => e.slot !== slot);
+
+    while (true) {
+      try {
+        localStorage.setItem(this.getSlotKey(slot), json);
+        break;
+      } catch (error) {
+        // Storage quota exceeded - free the oldest remaining autosave and retry
+        const oldest = this.getOldestEntry();
+        if (!oldest) {
+          console.error('Failed to write autosave:', error);
+          this.saveIndex();
+          return null;
+        }
+        localStorage.removeItem(this.getSlotKey(oldest.slot));
+        this.entries = this.entries.filter(e => e.slot !== oldest.slot);
+      }
+    }
+
+    this.entries.push(entry);
+    this.saveIndex();
+    console.log(`Autosave written to slot ${slot} (turn ${entry.turn})`);
+    return entry;
+  }
+
+  /**
+   * Get all autosaves, newest first
+   */
+  getEntries(): AutosaveEntry[] {
+    return [...this.entries].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Read the save document stored in a slot
+   */
+  load(slot: number): string | null {
+    try {
+      return localStorage.getItem(this.getSlotKey(slot));
+    } catch (error) {
+      console.error(`Failed to read autosave slot ${slot}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove all autosaves
+   */
+  clear(): void {
+    this.entries.forEach(entry => localStorage.removeItem(this.getSlotKey(entry.slot)));
+    this.entries = [];
+    this.saveIndex();
+  }
+
+  /**
+   * Pick a free slot, or the slot holding the oldest autosave
+   */
+  private getNextSlot(): number {
+    for (let slot = 0; slot < AutosaveManager.MAX_SLOTS; slot++) {
+      if (!this.entries.some(e => e.slot === slot)) {
+        return slot;
+      }
+    }
+    return this.getOldestEntry()!.slot;
+  }
+
+  private getOldestEntry(): AutosaveEntry | undefined {
+    return [...this.entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp))[0];
+  }
+
+  private getSlotKey(slot: number): string {
+    return `${AutosaveManager.SLOT_KEY_PREFIX}${slot}`;
+  }
+
+  /**
+   * Load the autosave index from localStorage
+   */
+  private loadIndex(): AutosaveEntry[] {
+    try {
+      const stored = localStorage.getItem(AutosaveManager.INDEX_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          return parsed.filter(e => typeof e.slot === 'number' && e.slot < AutosaveManager.MAX_SLOTS);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load autosave index from localStorage:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Save the autosave index to localStorage
+   */
+  private saveIndex(): void {
+    try {
+      localStorage.setItem(AutosaveManager.INDEX_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Failed to save autosave index to localStorage:', error);
+    }
+  }
+}
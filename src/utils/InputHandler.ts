@@ -5,7 +5,7 @@ import { Status } from '../renderer/Status.js';
 import { CityView } from '../renderer/CityView.js';
 import { TechnologyUI } from './TechnologyUI.js';
 import { canUnitFortify, canUnitSleep } from '../game/UnitDefinitions.js';
-import { Position, GameState, UnitType } from '../types/game.js';
+import { Position, GameState, Unit, UnitType } from '../types/game.js';
 
 export class InputHandler {
   private game: Game;
@@ -19,6 +19,8 @@ export class InputHandler {
   private isDragging = false;
   private lastMousePos = { x: 0, y: 0 };
   private dragStartPos = { x: 0, y: 0 };
+  private gotoUnitId: string | null = null; // Unit waiting for a Go To destination click
+  private pendingAttack: { unitId: string; position: Position } | null = null; // Attack shown in Status, awaiting a second move
 
   constructor(
     game: Game,
@@ -109,6 +111,11 @@ export class InputHandler {
 
   // Update cursor based on context
   private updateCursor(mouseX: number, mouseY: number): void {
+    if (this.gotoUnitId) {
+      this.canvas.style.cursor = 'crosshair';
+      return;
+    }
+
     const selectedUnit = this.gameRenderer.getSelectedUnit();
     if (!selectedUnit) {
       this.canvas.style.cursor = 'default';
@@ -263,6 +270,12 @@ export class InputHandler {
     // Normalize position for horizontal wrapping
     const normalizedPos = this.normalizePosition(worldPos, gameState);
 
+    // A pending Go To order takes the click as its destination
+    if (this.gotoUnitId) {
+      this.completeGoto(normalizedPos);
+      return;
+    }
+
     // Check if clicking on a city
     const clickedCity = gameState.cities.find(city =>
       city.position.x === normalizedPos.x && city.position.y === normalizedPos.y
@@ -341,7 +354,7 @@ export class InputHandler {
       const selectedUnit = this.gameRenderer.getSelectedUnit();
       if (selectedUnit && selectedUnit.playerId === gameState.currentPlayer) {
         // Only allow movement to adjacent tiles
-        if (this.isAdjacent(selectedUnit.position, normalizedPos, gameState)) {
+        if (this.isAdjacent(selectedUnit.position, normalizedPos, gameState) && this.confirmAttack(selectedUnit, normalizedPos)) {
           // Attempt to move the unit
           const success = this.game.moveUnit(selectedUnit.id, normalizedPos);
           if (success) {
@@ -384,13 +397,16 @@ export class InputHandler {
       // Normalize position for horizontal wrapping
       const normalizedPos = this.normalizePosition(worldPos, gameState);
 
-      // Only allow movement to adjacent tiles
       if (this.isAdjacent(selectedUnit.position, normalizedPos, gameState)) {
         // Move unit to right-clicked position
-        this.game.moveUnit(selectedUnit.id, normalizedPos);
-        this.requestRender();
+        if (this.confirmAttack(selectedUnit, normalizedPos)) {
+          this.game.moveUnit(selectedUnit.id, normalizedPos);
+        }
+      } else {
+        // Farther tiles become a Go To destination
+        this.game.setUnitGoto(selectedUnit.id, normalizedPos);
       }
-      // If not adjacent, do nothing (no movement)
+      this.requestRender();
     }
   }
 
@@ -441,6 +457,10 @@ export class InputHandler {
         break;
 
       case 'Escape': // Close modals or clear selections
+        if (this.gotoUnitId) {
+          this.cancelGotoMode();
+          break;
+        }
         if (!this.closeOpenModals()) {
           // Only clear selections if no modals were closed
           this.gameRenderer.clearSelections();
@@ -448,6 +468,11 @@ export class InputHandler {
         }
         break;
 
+      case 'g': // Go To (click a destination next)
+      case 'G':
+        this.handleGotoCommand();
+        break;
+
       case 'b': // Build city (if settler selected)
         this.handleBuildCity();
         break;
@@ -582,6 +607,37 @@ export class InputHandler {
     }
   }
 
+  // Handle Go To command - the next map click picks the destination
+  private handleGotoCommand(): void {
+    const gameState = this.game.getGameState();
+
+    // Block action if current player is AI
+    if (this.isCurrentPlayerAI(gameState)) {
+      return;
+    }
+
+    const unit = this.gameRenderer.getSelectedUnit() || this.game.getCurrentUnit();
+    if (unit && unit.playerId === gameState.currentPlayer) {
+      this.gotoUnitId = unit.id;
+      this.canvas.style.cursor = 'crosshair';
+    }
+  }
+
+  // Send the unit waiting for a Go To order to the clicked tile
+  private completeGoto(target: Position): void {
+    const unitId = this.gotoUnitId;
+    this.cancelGotoMode();
+    if (unitId) {
+      this.game.setUnitGoto(unitId, target);
+      this.requestRender();
+    }
+  }
+
+  private cancelGotoMode(): void {
+    this.gotoUnitId = null;
+    this.canvas.style.cursor = 'default';
+  }
+
   // Handle build city command
   private handleBuildCity(): void {
     const gameState = this.game.getGameState();
@@ -796,6 +852,11 @@ export class InputHandler {
       y: currentUnit.position.y + deltaY
     };
 
+    // Attacks wait for confirmation
+    if (!this.confirmAttack(currentUnit, this.normalizePosition(newPosition, gameState))) {
+      return;
+    }
+
     // Attempt to move the unit
     const success = this.game.moveUnit(currentUnit.id, newPosition);
 
@@ -811,6 +872,28 @@ export class InputHandler {
     // and next unit will be selected by the Game class
   }
 
+  // Moving onto enemy units first shows the combat odds in the Status window;
+  // moving onto the same tile again confirms the attack
+  private confirmAttack(unit: Unit, target: Position): boolean {
+    const odds = this.game.getAttackOdds(unit.id, target);
+    if (!odds) {
+      this.pendingAttack = null;
+      return true;
+    }
+
+    const pending = this.pendingAttack;
+    if (pending && pending.unitId === unit.id && pending.position.x === target.x && pending.position.y === target.y) {
+      this.pendingAttack = null;
+      this.status?.setAttackPreview(null);
+      return true;
+    }
+
+    this.pendingAttack = { unitId: unit.id, position: { ...target } };
+    this.status?.setAttackPreview({ unitId: unit.id, ...odds });
+    this.requestRender();
+    return false;
+  }
+
   // Normalize position coordinates with horizontal wrapping
   private normalizePosition(position: { x: number, y: number }, gameState: any): { x: number, y: number } {
     const mapWidth = gameState.worldMap[0]?.length || 80;
@@ -0,0 +1,12 @@
+// Deterministic pseudo-random number generator (mulberry32) returning values in [0, 1).
+// Use in place of Math.random where results must be reproducible, e.g. in tests.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -9,6 +9,7 @@ export interface GameSettings {
 
     // Game Settings
     autoSave: boolean;
+    autoSaveInterval: number; // turns between autosaves
     turnTimer: number; // seconds
     aiSpeed: 'slow' | 'normal' | 'fast';
 
@@ -32,6 +33,7 @@ export class SettingsManager {
 
         // Game Settings
         autoSave: true,
+        autoSaveInterval: 1,
         turnTimer: 60,
         aiSpeed: 'normal',
 
@@ -201,6 +203,10 @@ export class SettingsManager {
             validated.autoSave = settings.autoSave;
         }
 
+        if (typeof settings.autoSaveInterval === 'number' && settings.autoSaveInterval >= 1 && settings.autoSaveInterval <= 50) {
+            validated.autoSaveInterval = settings.autoSaveInterval;
+        }
+
         if (typeof settings.turnTimer === 'number' && settings.turnTimer >= 0 && settings.turnTimer <= 600) {
             validated.turnTimer = settings.turnTimer;
         }
@@ -4,7 +4,7 @@ import { SettingsManager } from './SettingsManager';
  * Simple sound effects utility for game events
  */
 export class SoundEffects {
-  private static volumeTestTimeout: number | null = null;
+  private static volumeTestTimeout: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Get the current master volume from settings
@@ -36,6 +36,11 @@ export class SoundEffects {
    * @param baseVolume Base volume level (0-1), will be multiplied by master volume
    */
   public static playSound(soundPath: string, baseVolume: number = 0.5): void {
+    // Nothing to play through outside a browser, e.g. in headless simulations
+    if (typeof Audio === 'undefined') {
+      return;
+    }
+
     // Check if sound effects are enabled
     if (!this.areSoundEffectsEnabled()) {
       return;
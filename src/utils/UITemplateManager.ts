@@ -38,6 +38,16 @@ export class UITemplateManager {
         this.loadTemplate(container, '/templates/technology-selection-modal.html'),
         this.loadTemplate(container, '/templates/science-advisor-modal.html'),
         this.loadTemplate(container, '/templates/technology-discovery-modal.html'),
+        this.loadTemplate(container, '/templates/autosave-modal.html'),
+        this.loadTemplate(container, '/templates/buy-modal.html'),
+        this.loadTemplate(container, '/templates/tax-rates-modal.html'),
+        this.loadTemplate(container, '/templates/notification-modal.html'),
+        this.loadTemplate(container, '/templates/wonders-report-modal.html'),
+        this.loadTemplate(container, '/templates/diplomat-action-modal.html'),
+        this.loadTemplate(container, '/templates/intelligence-report-modal.html'),
+        this.loadTemplate(container, '/templates/caravan-action-modal.html'),
+        this.loadTemplate(container, '/templates/parley-modal.html'),
+        this.loadTemplate(container, '/templates/diplomatic-proposal-modal.html'),
       ];
 
       await Promise.all(templatePromises);
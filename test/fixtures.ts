@@ -0,0 +1,48 @@
+import { CivilizationType } from '../src/game/CivilizationDefinitions.js';
+import { GamePhase, GovernmentType, TerrainType } from '../src/types/game.js';
+import type { City, GameState, Player, Position, Tile } from '../src/types/game.js';
+
+// Shared fixtures for the test scripts: plain game objects with defaults each test overrides
+
+// A Roman despotism with no technologies; player-0 is the human player
+export function makePlayer(id: string, overrides: Partial<Player> = {}): Player {
+  return {
+    id, name: id, civilizationType: CivilizationType.ROMANS, color: '#fff',
+    isHuman: id === 'player-0', science: 0, gold: 0, culture: 0, technologies: [],
+    government: GovernmentType.DESPOTISM, usedCityNames: [],
+    ...overrides
+  };
+}
+
+// A city with nothing built, stored or in production
+export function makeCity(id: string, playerId: string, position: Position, population: number): City {
+  return {
+    id, name: id, position, population, playerId,
+    buildings: [], production: null, food: 0, foodStorage: 0, foodStorageCapacity: 30,
+    production_points: 0, science: 0, culture: 0
+  };
+}
+
+// A map of grassland, or of whatever terrain terrainAt picks for each tile
+export function makeMap(
+  width: number, height: number, terrainAt: (x: number, y: number) => TerrainType = () => TerrainType.GRASSLAND
+): Tile[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => ({ position: { x, y }, terrain: terrainAt(x, y), resources: [], improvements: [] }))
+  );
+}
+
+// A game in progress on the first player's turn
+export function makeGameState(players: Player[], worldMap: Tile[][], overrides: Partial<GameState> = {}): GameState {
+  return {
+    turn: 1,
+    currentPlayer: players[0].id,
+    players,
+    worldMap,
+    units: [],
+    cities: [],
+    gamePhase: GamePhase.PLAYING,
+    score: 0,
+    ...overrides
+  };
+}
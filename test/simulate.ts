@@ -0,0 +1,38 @@
+import { writeFileSync } from 'node:fs';
+import { Simulation } from '../src/game/Simulation.js';
+
+// Headless AI-vs-AI game for balance testing, e.g.
+//   npm run simulate -- --players=4 --turns=200 --seed=7 --format=csv --out=stats.csv
+// Options: --players (default 4), --turns (100), --seed (1), --scenario (earth|random),
+// --format (json|csv) and --out (file to write; printed otherwise)
+function getOption(name: string, fallback: string): string {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : fallback;
+}
+
+async function simulate() {
+  const format = getOption('format', 'json');
+  if (format !== 'json' && format !== 'csv') {
+    console.error(`Unknown format "${format}", expected json or csv`);
+    process.exit(1);
+  }
+
+  const result = await Simulation.run({
+    players: Number(getOption('players', '4')),
+    turns: Number(getOption('turns', '100')),
+    seed: Number(getOption('seed', '1')),
+    scenario: getOption('scenario', 'earth'),
+    quiet: true
+  });
+  const output = format === 'csv' ? Simulation.toCSV(result) : Simulation.toJSON(result);
+
+  const out = getOption('out', '');
+  if (out) {
+    writeFileSync(out, output);
+    console.error(`Wrote ${result.turnsPlayed} turns of stats to ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+simulate();
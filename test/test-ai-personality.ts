@@ -0,0 +1,78 @@
+import { AIPlayer } from '../src/game/AIPlayer.js';
+import { DiplomacySystem } from '../src/game/DiplomacySystem.js';
+import { CivilizationType, getCivilization } from '../src/game/CivilizationDefinitions.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { BuildingType, DiplomaticState, UnitType } from '../src/types/game.js';
+import type { UnitType as UnitTypeValue } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test that leader personalities make computer players behave differently
+async function testAIPersonality() {
+  console.log('=== Testing AI Personalities ===');
+
+  console.log('\n--- Traits ---');
+  const mongols = getCivilization(CivilizationType.MONGOL).personality;
+  const babylonians = getCivilization(CivilizationType.BABYLONIAN).personality;
+  console.log('Mongols aggressive, expansionistic, militaristic:',
+    mongols.aggression === 'aggressive' && mongols.development === 'expansionistic' && mongols.militarism === 'militaristic');
+  console.log('Babylonians friendly, perfectionist, civilized:',
+    babylonians.aggression === 'friendly' && babylonians.development === 'perfectionist' && babylonians.militarism === 'civilized');
+
+  const makeLeader = (id: string, civilizationType: CivilizationType) =>
+    makePlayer(id, { civilizationType, technologies: [TechnologyType.BRONZE_WORKING, TechnologyType.IRON_WORKING] });
+  const karakorum = makeCity('Karakorum', 'player-1', { x: 3, y: 4 }, 2);
+  const babylon = makeCity('Babylon', 'player-2', { x: 10, y: 4 }, 2);
+  const gameState = makeGameState(
+    [makeLeader('player-1', CivilizationType.MONGOL), makeLeader('player-2', CivilizationType.BABYLONIAN)],
+    makeMap(20, 10),
+    {
+      turn: 60,
+      cities: [karakorum, babylon],
+      // At peace, so production is not geared to a war of conquest
+      diplomacy: {
+        'player-1|player-2': { state: DiplomaticState.PEACE, sinceTurn: 50 }
+      }
+    }
+  );
+  // Sleeping units keep still so only production and diplomacy are exercised
+  const addUnits = (playerId: string, type: UnitTypeValue, count: number, x: number) => {
+    for (let i = 0; i < count; i++) {
+      const unit = createUnit(`${playerId}-${gameState.units.length}`, type, { x, y: 6 }, playerId);
+      unit.sleeping = true;
+      gameState.units.push(unit);
+    }
+  };
+
+  console.log('\n--- Weights ---');
+  const mongolWeights = AIPlayer.getPersonalityWeights(gameState, 'player-1');
+  const babylonianWeights = AIPlayer.getPersonalityWeights(gameState, 'player-2');
+  console.log('Expansionists want more settlers:', mongolWeights.expansion > babylonianWeights.expansion);
+  console.log('Militarists want a larger army:', mongolWeights.militaryPerCity > babylonianWeights.militaryPerCity);
+  console.log('Friendly leaders never start wars:', babylonianWeights.warChance === 0 && mongolWeights.warChance > 0);
+
+  console.log('\n--- Production ---');
+  const producing = () => karakorum.production?.item;
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 1);
+  console.log('Militarist builds legions:', producing() === UnitType.LEGION);
+  addUnits('player-1', UnitType.LEGION, 2, 3);
+  addUnits('player-1', UnitType.SETTLERS, 2, 3);
+  karakorum.production = null;
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 1);
+  console.log('Militarist builds barracks once defended:', producing() === BuildingType.BARRACKS);
+
+  addUnits('player-2', UnitType.WARRIOR, 2, 10);
+  addUnits('player-2', UnitType.SETTLERS, 1, 10);
+  await AIPlayer.executeTurn(gameState, 'player-2', () => 1);
+  console.log('Perfectionist starts a wonder in a small city:', babylon.production?.type === 'wonder');
+
+  console.log('\n--- War ---');
+  await AIPlayer.executeTurn(gameState, 'player-2', () => 0);
+  console.log('Friendly leader keeps the peace:', !DiplomacySystem.isAtWar(gameState, 'player-1', 'player-2'));
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 0);
+  console.log('Aggressive leader attacks a weaker neighbour:', DiplomacySystem.isAtWar(gameState, 'player-1', 'player-2'));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testAIPersonality();
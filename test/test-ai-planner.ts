@@ -0,0 +1,132 @@
+import { AIPlayer } from '../src/game/AIPlayer.js';
+import type { AIGameActions } from '../src/game/AIPlayer.js';
+import { AIGoal, AIPlanner } from '../src/game/AIPlanner.js';
+import { CivilizationType } from '../src/game/CivilizationDefinitions.js';
+import { TechnologyType, canResearch } from '../src/game/TechnologyDefinitions.js';
+import { TurnManager } from '../src/game/TurnManager.js';
+import { createUnit } from '../src/game/Units.js';
+import { DiplomaticState, GovernmentType, ImprovementType, TerrainType, UnitType } from '../src/types/game.js';
+import type { UnitType as UnitTypeValue } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test the computer player's goals, research, government and terrain improvement
+async function testAIPlanner() {
+  console.log('=== Testing AI Planner ===');
+
+  const worldMap = makeMap(40, 12, x => x === 6 ? TerrainType.RIVER : TerrainType.PLAINS);
+  const london = makeCity('London', 'player-1', { x: 5, y: 5 }, 3);
+  const gameState = makeGameState([
+    makePlayer('player-1', { civilizationType: CivilizationType.ENGLISH, technologies: [TechnologyType.BRONZE_WORKING] }),
+    makePlayer('player-2', { civilizationType: CivilizationType.MONGOL, technologies: [TechnologyType.BRONZE_WORKING] })
+  ], worldMap, { turn: 60, cities: [london] });
+  const [english, mongols] = gameState.players;
+  const englishWeights = AIPlayer.getPersonalityWeights(gameState, 'player-1');
+  const addUnit = (playerId: string, type: UnitTypeValue, x: number, y: number) => {
+    const unit = createUnit(`${playerId}-${gameState.units.length}`, type, { x, y }, playerId);
+    gameState.units.push(unit);
+    return unit;
+  };
+
+  console.log('\n--- Goals ---');
+  console.log('Few cities means expand:', AIPlanner.chooseGoal(gameState, 'player-1', englishWeights) === AIGoal.EXPAND);
+  for (let i = 0; i < 5; i++) {
+    gameState.cities.push(makeCity(`English ${i}`, 'player-1', { x: 5 + i * 5, y: 1 }, 3));
+  }
+  console.log('Enough cities means build infrastructure:',
+    AIPlanner.chooseGoal(gameState, 'player-1', englishWeights) === AIGoal.BUILD_INFRASTRUCTURE);
+
+  const raider = addUnit('player-2', UnitType.LEGION, 5, 7);
+  console.log('Enemy troops by a bare city means defend:',
+    AIPlanner.chooseGoal(gameState, 'player-1', englishWeights) === AIGoal.DEFEND &&
+    AIPlanner.getThreatenedCities(gameState, 'player-1')[0] === london);
+  gameState.diplomacy = { 'player-1|player-2': { state: DiplomaticState.PEACE, sinceTurn: 50 } };
+  console.log('Troops of a civilization at peace are no threat:',
+    AIPlanner.chooseGoal(gameState, 'player-1', englishWeights) !== AIGoal.DEFEND);
+  gameState.diplomacy = {};
+  gameState.units = gameState.units.filter(u => u !== raider);
+
+  gameState.cities.push(makeCity('Karakorum', 'player-2', { x: 14, y: 8 }, 3));
+  for (let i = 0; i < 4; i++) {
+    addUnit('player-1', UnitType.LEGION, 10 + i, 10);
+  }
+  addUnit('player-2', UnitType.WARRIOR, 14, 8);
+  console.log('Much stronger army at war with a neighbour means conquer:',
+    AIPlanner.chooseGoal(gameState, 'player-1', englishWeights) === AIGoal.CONQUER);
+
+  console.log('\n--- Research ---');
+  const priorities = AIPlanner.getResearchPriorities(gameState, 'player-1', AIGoal.BUILD_INFRASTRUCTURE, englishWeights);
+  console.log('Every unknown technology ranked:', priorities.length > 0 && !priorities.includes(TechnologyType.BRONZE_WORKING));
+  const research = AIPlanner.chooseResearch(gameState, 'player-1', AIGoal.BUILD_INFRASTRUCTURE, englishWeights);
+  console.log('Next research can be started now:', !!research && canResearch(research, english.technologies));
+
+  console.log('\n--- Government ---');
+  english.technologies.push(TechnologyType.CODE_OF_LAWS, TechnologyType.MONARCHY);
+  mongols.technologies.push(TechnologyType.CODE_OF_LAWS, TechnologyType.MONARCHY, TechnologyType.LITERACY, TechnologyType.THE_REPUBLIC);
+  const mongolWeights = AIPlayer.getPersonalityWeights(gameState, 'player-2');
+  console.log('Monarchy chosen before the Republic is known:',
+    AIPlanner.chooseGovernment(gameState, 'player-1', englishWeights) === GovernmentType.MONARCHY);
+  console.log('Aggressive leader passes over the senate of the Republic:',
+    AIPlanner.chooseGovernment(gameState, 'player-2', mongolWeights) === GovernmentType.MONARCHY);
+
+  // Stand-in for the game that records the actions the AI takes
+  const calls: string[] = [];
+  const actions: AIGameActions = {
+    moveUnit: () => false,
+    startRevolution: (playerId: string) => {
+      calls.push('revolution');
+      const player = gameState.players.find(p => p.id === playerId)!;
+      player.government = GovernmentType.ANARCHY;
+      player.revolutionTurns = 1;
+      return true;
+    },
+    changeGovernment: (playerId: string, government: GovernmentType) => {
+      calls.push(`government:${government}`);
+      gameState.players.find(p => p.id === playerId)!.government = government;
+      return true;
+    },
+    buildIrrigation: (unitId: string) => {
+      const unit = gameState.units.find(u => u.id === unitId)!;
+      calls.push(`irrigation:${unit.position.x},${unit.position.y}`);
+      const tile = worldMap[unit.position.y][unit.position.x];
+      tile.improvements = [...(tile.improvements || []), { type: ImprovementType.IRRIGATION, completedTurn: gameState.turn }];
+      return true;
+    },
+    buildMine: () => { calls.push('mine'); return true; },
+    buildRoad: () => { calls.push('road'); return true; }
+  };
+
+  console.log('\n--- Turns ---');
+  gameState.diplomacy = { 'player-1|player-2': { state: DiplomaticState.PEACE, sinceTurn: 50 } };
+  english.currentResearch = undefined;
+  const worker = addUnit('player-1', UnitType.SETTLERS, 5, 5);
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 1, actions);
+  console.log('Research chosen when idle:', !!english.currentResearch);
+  console.log('Revolution started towards monarchy:', calls.includes('revolution') && english.government === GovernmentType.ANARCHY);
+  console.log('Settler irrigates land by the river:', calls.some(c => /^irrigation:(5|7),/.test(c)));
+
+  new TurnManager(() => 1).processTurn(gameState);
+  console.log('Anarchy counts down at the end of the turn:', english.revolutionTurns === 0);
+  gameState.currentPlayer = 'player-1';
+  worker.movementPoints = 1;
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 1, actions);
+  console.log('Monarchy adopted once the anarchy is over:', english.government === GovernmentType.MONARCHY);
+  console.log('Settler moves on to the next tile:', calls.filter(c => c.startsWith('irrigation')).length === 2);
+
+  console.log('\n--- Production ---');
+  gameState.currentPlayer = 'player-1';
+  london.production = { type: 'unit', item: UnitType.PHALANX, turnsRemaining: 1 };
+  london.production_points = 100;
+  new TurnManager(() => 1).processTurn(gameState);
+  console.log('Finished unit leaves the next choice to the AI:', london.production === null &&
+    gameState.units.some(u => u.playerId === 'player-1' && u.type === UnitType.PHALANX));
+  for (let i = 0; i < 8; i++) {
+    addUnit('player-1', UnitType.PHALANX, 5, 5);
+  }
+  gameState.currentPlayer = 'player-1';
+  await AIPlayer.executeTurn(gameState, 'player-1', () => 1, actions);
+  console.log('Well defended city plans an improvement next:', !!london.production && london.production.type !== 'unit');
+
+  console.log('\n=== Test Complete ===');
+}
+
+testAIPlanner();
@@ -0,0 +1,164 @@
+import { AIPlayer } from '../src/game/AIPlayer.js';
+import type { AIGameActions } from '../src/game/AIPlayer.js';
+import { AIWarPlanner } from '../src/game/AIWarPlanner.js';
+import { CivilizationType } from '../src/game/CivilizationDefinitions.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { TransportSystem } from '../src/game/TransportSystem.js';
+import { getUnitStats } from '../src/game/UnitDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { VisibilitySystem } from '../src/game/VisibilitySystem.js';
+import { BuildingType, TerrainType, UnitType } from '../src/types/game.js';
+import type { GameState, Position, Unit, UnitType as UnitTypeValue } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Land from x = 0 to 12 and from 18 to 28, with ocean between them either way round
+function makeGame(): GameState {
+  const worldMap = makeMap(30, 12, x => (x >= 13 && x <= 17) || x === 29 ? TerrainType.OCEAN : TerrainType.GRASSLAND);
+  const makeRival = (id: string, civilizationType: CivilizationType) => makePlayer(id, {
+    civilizationType, technologies: [TechnologyType.BRONZE_WORKING], currentResearch: TechnologyType.ALPHABET
+  });
+  return makeGameState(
+    [makeRival('player-1', CivilizationType.ROMANS), makeRival('player-2', CivilizationType.BABYLONIAN)],
+    worldMap,
+    { turn: 80 }
+  );
+}
+
+// Stand-in for the game: units board and leave ships, attacks are only recorded
+function makeActions(gameState: GameState, moves: Array<{ unit: Unit; position: Position }>): AIGameActions {
+  return {
+    moveUnit: (unitId: string, position: Position) => {
+      const unit = gameState.units.find(u => u.id === unitId)!;
+      moves.push({ unit, position });
+      const ship = TransportSystem.findTransport(gameState, unit, position);
+      if (ship && gameState.worldMap[position.y][position.x].terrain === TerrainType.OCEAN) {
+        TransportSystem.board(unit, ship);
+      } else if (unit.transportId) {
+        TransportSystem.disembark(unit);
+        unit.position = position;
+      }
+      unit.movementPoints = 0;
+      return true;
+    },
+    startRevolution: () => false,
+    changeGovernment: () => false,
+    buildRoad: () => false,
+    buildIrrigation: () => false,
+    buildMine: () => false
+  };
+}
+
+// Test computer players assembling attack stacks, keeping garrisons and sailing to war
+async function testAIWar() {
+  console.log('=== Testing AI War Planner ===');
+
+  const gameState = makeGame();
+  const addUnit = (playerId: string, type: UnitTypeValue, x: number, y: number) => {
+    const unit = createUnit(`${playerId}-${gameState.units.length}`, type, { x, y }, playerId);
+    gameState.units.push(unit);
+    return unit;
+  };
+  const rome = makeCity('Rome', 'player-1', { x: 5, y: 5 }, 4);
+  const veii = makeCity('Veii', 'player-2', { x: 11, y: 5 }, 4);
+  const tarquinia = makeCity('Tarquinia', 'player-2', { x: 2, y: 10 }, 1);
+  tarquinia.buildings.push({ type: BuildingType.CITY_WALLS, completedTurn: 1 });
+  gameState.cities.push(rome, veii, tarquinia);
+  addUnit('player-2', UnitType.PHALANX, 11, 5);
+  for (let i = 0; i < 3; i++) {
+    addUnit('player-2', UnitType.PHALANX, 2, 10);
+  }
+
+  console.log('\n--- Garrisons ---');
+  console.log('Border city keeps two defenders:', AIWarPlanner.getGarrisonSize(gameState, rome) === 2);
+  const raider = addUnit('player-2', UnitType.LEGION, 5, 7);
+  console.log('Enemy troops in sight add a defender:', AIWarPlanner.getGarrisonSize(gameState, rome) === 3);
+  gameState.units = gameState.units.filter(u => u !== raider);
+  const guards = [addUnit('player-1', UnitType.PHALANX, 5, 5), addUnit('player-1', UnitType.PHALANX, 5, 5)];
+
+  console.log('\n--- Target ---');
+  console.log('Unseen cities are not targeted:', AIWarPlanner.chooseTarget(gameState, 'player-1') === null);
+  VisibilitySystem.revealTiles(gameState, 'player-1', [veii.position, tarquinia.position]);
+  console.log('Rich, weakly held city chosen over a walled fortress:', AIWarPlanner.chooseTarget(gameState, 'player-1') === veii);
+
+  console.log('\n--- Campaign ---');
+  const stack = [
+    addUnit('player-1', UnitType.LEGION, 5, 7),
+    addUnit('player-1', UnitType.LEGION, 4, 7),
+    addUnit('player-1', UnitType.CATAPULT, 6, 7),
+    addUnit('player-1', UnitType.KNIGHTS, 3, 3)
+  ];
+  const moves: Array<{ unit: Unit; position: Position }> = [];
+  const actions = makeActions(gameState, moves);
+  const attacks = () => moves.filter(m => m.position.x === veii.position.x && m.position.y === veii.position.y);
+
+  let launchedTurn = 0;
+  for (let turn = 0; turn < 15 && attacks().length === 0; turn++) {
+    gameState.units.forEach(u => { u.movementPoints = getUnitStats(u.type).movement; });
+    await AIPlayer.executeTurn(gameState, 'player-1', () => 1, actions);
+    if (!launchedTurn && gameState.aiCampaigns?.['player-1']?.launched) launchedTurn = turn;
+  }
+  const campaign = gameState.aiCampaigns?.['player-1'];
+  console.log('Campaign against the chosen target:', campaign?.targetCityId === 'Veii' && campaign.stagingCityId === 'Rome');
+  console.log('Stack of every combat type, siege included:',
+    stack.every(u => campaign?.unitIds.includes(u.id)) && !guards.some(u => campaign?.unitIds.includes(u.id)));
+  console.log('Stack sets out once assembled:', launchedTurn > 0);
+  console.log('Garrison stays home:', guards.every(u => u.position.x === 5 && u.position.y === 5));
+  console.log('Siege engine leads the assault:', attacks()[0]?.unit.type === UnitType.CATAPULT);
+  console.log('Escort does not attack a defended city:', !attacks().some(m => m.unit.type === UnitType.KNIGHTS));
+
+  console.log('\n--- Overseas ---');
+  const overseas = makeGame();
+  const ostia = makeCity('Ostia', 'player-1', { x: 12, y: 5 }, 3);
+  const carthage = makeCity('Carthage', 'player-2', { x: 19, y: 5 }, 3);
+  overseas.cities.push(makeCity('Rome', 'player-1', { x: 5, y: 5 }, 4), ostia, carthage);
+  VisibilitySystem.revealTiles(overseas, 'player-1', [carthage.position]);
+  const addOverseas = (playerId: string, type: UnitTypeValue, x: number, y: number) => {
+    const unit = createUnit(`${playerId}-${overseas.units.length}`, type, { x, y }, playerId);
+    overseas.units.push(unit);
+    return unit;
+  };
+  addOverseas('player-1', UnitType.PHALANX, 5, 5);
+  addOverseas('player-1', UnitType.PHALANX, 12, 5);
+  addOverseas('player-1', UnitType.PHALANX, 12, 5);
+  const landingForce = [0, 1, 2].map(() => addOverseas('player-1', UnitType.LEGION, 12, 5));
+  const overseasCampaign = AIWarPlanner.updateCampaign(overseas, 'player-1', true);
+  console.log('Overseas target staged from the coast:', AIWarPlanner.isOverseas(overseas, 'player-1', carthage) &&
+    overseasCampaign?.stagingCityId === 'Ostia');
+  console.log('Stack waits for a ship:', overseasCampaign?.launched === false);
+  console.log('Staging city builds a transport:', AIWarPlanner.getCampaignNeed(overseas, ostia, () => true) === UnitType.TRANSPORT);
+
+  const ship = addOverseas('player-1', UnitType.SAIL, 13, 6);
+  const landing = AIWarPlanner.getLandingSite(overseas, 'player-1', carthage)!;
+  const overseasMoves: Array<{ unit: Unit; position: Position }> = [];
+  const overseasActions = makeActions(overseas, overseasMoves);
+  for (let turn = 0; turn < 10 && !landingForce.some(u => u.position.x === landing.land.x && u.position.y === landing.land.y); turn++) {
+    overseas.units.forEach(u => { u.movementPoints = getUnitStats(u.type).movement; });
+    await AIPlayer.executeTurn(overseas, 'player-1', () => 1, overseasActions);
+  }
+  console.log('Ship claimed and stack sized to its hold:', overseas.aiCampaigns?.['player-1']?.transportId === ship.id &&
+    overseas.aiCampaigns?.['player-1']?.unitIds.length === 3);
+  console.log('Stack boards the ship:', landingForce.every(u => overseasMoves.some(m => m.unit === u && m.position.x >= 13)));
+  console.log('Stack lands beside the target:',
+    landingForce.every(u => u.position.x === landing.land.x && u.position.y === landing.land.y && !u.transportId));
+
+  console.log('\n--- Idle Units ---');
+  const idle = makeGame();
+  const trireme = createUnit('trireme', UnitType.TRIREME, { x: 13, y: 3 }, 'player-1');
+  const diplomat = createUnit('diplomat', UnitType.DIPLOMAT, { x: 0, y: 0 }, 'player-1');
+  idle.units.push(trireme, diplomat);
+  [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: 1, y: 1 }].forEach((position, i) => {
+    idle.units.push(createUnit(`warrior-${i}`, UnitType.WARRIOR, position, 'player-2'));
+  });
+  let strayed = false;
+  for (let turn = 0; turn < 3; turn++) {
+    idle.units.forEach(u => { u.movementPoints = getUnitStats(u.type).movement; });
+    await AIPlayer.executeTurn(idle, 'player-1', () => 1, makeActions(idle, []));
+    strayed = strayed || idle.worldMap[trireme.position.y][trireme.position.x].terrain !== TerrainType.OCEAN;
+  }
+  console.log('Idle ship keeps to the sea:', !strayed && (trireme.position.x !== 13 || trireme.position.y !== 3));
+  console.log('Explorer does not walk into foreign units:', diplomat.position.x === 0 && diplomat.position.y === 0);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testAIWar();
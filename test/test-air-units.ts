@@ -0,0 +1,60 @@
+import { CombatSystem } from '../src/game/CombatSystem.js';
+import { TransportSystem } from '../src/game/TransportSystem.js';
+import { TurnManager } from '../src/game/TurnManager.js';
+import { createUnit } from '../src/game/Units.js';
+import { TerrainType, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test aircraft fuel, carrier landing and bomber interception
+function testAirUnits() {
+  console.log('=== Testing Air Units ===');
+
+  // Land in columns 0-4, ocean beyond
+  const worldMap = makeMap(12, 6, x => x <= 4 ? TerrainType.GRASSLAND : TerrainType.OCEAN);
+  const gameState = makeGameState([makePlayer('player-0'), makePlayer('player-1')], worldMap, {
+    cities: [makeCity('Roma', 'player-0', { x: 1, y: 1 }, 3)]
+  });
+
+  const fighter = createUnit('fighter', UnitType.FIGHTER, { x: 3, y: 3 }, 'player-0');
+  const bomber = createUnit('bomber', UnitType.BOMBER, { x: 3, y: 4 }, 'player-0');
+  const based = createUnit('based', UnitType.FIGHTER, { x: 1, y: 1 }, 'player-0');
+  gameState.units.push(fighter, bomber, based);
+
+  console.log('\n--- Fuel ---');
+  console.log('Fighters carry 1 turn of fuel, bombers 2:', fighter.fuel === 1 && bomber.fuel === 2);
+  const turnManager = new TurnManager(() => 0.99);
+  turnManager.processTurn(gameState);
+  console.log('Fighter away from base crashes:', !gameState.units.includes(fighter));
+  console.log('Bomber survives its first turn aloft:', gameState.units.includes(bomber) && bomber.fuel === 1);
+  console.log('Aircraft in a friendly city stays fueled:', gameState.units.includes(based) && based.fuel === 1);
+  console.log('Crash reported:', !!gameState.events?.some(e => e.type === 'unitDestroyed' && e.message?.includes('fuel')));
+
+  gameState.currentPlayer = 'player-0';
+  bomber.position = { x: 1, y: 1 };
+  turnManager.processTurn(gameState);
+  console.log('Bomber refuels on returning to a city:', gameState.units.includes(bomber) && bomber.fuel === 2);
+
+  console.log('\n--- Carriers ---');
+  const carrier = createUnit('carrier', UnitType.CARRIER, { x: 8, y: 2 }, 'player-0');
+  gameState.units.push(carrier);
+  const squadron = Array.from({ length: 9 }, (_, i) => createUnit(`wing-${i}`, UnitType.FIGHTER, { x: 7, y: 2 }, 'player-0'));
+  gameState.units.push(...squadron);
+  const landed = squadron.filter(aircraft => {
+    const transport = TransportSystem.findTransport(gameState, aircraft, carrier.position);
+    if (transport) TransportSystem.board(aircraft, transport);
+    return !!transport;
+  });
+  console.log('Carrier takes aircraft up to its capacity:', landed.length === 8);
+  console.log('Aircraft on a carrier are at base:', TurnManager.isAtAirBase(gameState, landed[0]) && !TurnManager.isAtAirBase(gameState, squadron[8]));
+
+  console.log('\n--- Interception ---');
+  const combat = new CombatSystem();
+  const enemyBomber = createUnit('enemy-bomber', UnitType.BOMBER, { x: 2, y: 1 }, 'player-1');
+  const legion = createUnit('legion', UnitType.LEGION, { x: 2, y: 2 }, 'player-0');
+  console.log('Ground units cannot attack bombers:', !combat.canAttack(gameState, legion, enemyBomber));
+  console.log('Fighters intercept bombers:', combat.canAttack(gameState, based, enemyBomber));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testAirUnits();
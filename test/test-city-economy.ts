@@ -0,0 +1,91 @@
+import { CityEconomy } from '../src/game/CityEconomy.js';
+import { TurnManager } from '../src/game/TurnManager.js';
+import { BuildingType, GovernmentType, ImprovementType, TerrainType, TerrainVariant } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test tile and city yields shared by the turn processor and the city screen
+function testCityEconomy() {
+  console.log('=== Testing City Economy ===');
+
+  // Build a small grassland world
+  const worldMap = makeMap(7, 7);
+  worldMap[2][3].terrainVariant = TerrainVariant.SHIELD;
+  worldMap[4][3].terrain = TerrainType.HILLS;
+  worldMap[4][3].improvements = [{ type: ImprovementType.MINE, completedTurn: 1 }];
+  worldMap[3][4].improvements = [{ type: ImprovementType.ROAD, completedTurn: 1 }];
+  worldMap[3][2].terrain = TerrainType.OCEAN;
+  worldMap[3][2].resources = ['fish'];
+
+  const city = makeCity('Roma', 'player-0', { x: 3, y: 3 }, 3);
+  city.workedTiles = [{ dx: 0, dy: -1 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }];
+
+  const gameState = makeGameState([makePlayer('player-0', { government: GovernmentType.MONARCHY })], worldMap, { cities: [city] });
+
+  console.log('\n--- Tile Yields ---');
+  const shieldGrassland = CityEconomy.getTileYieldsAt(gameState, city, 0, -1)!;
+  console.log('Shield grassland 2/1/0:', shieldGrassland.food === 2 && shieldGrassland.production === 1 && shieldGrassland.trade === 0);
+  const minedHills = CityEconomy.getTileYieldsAt(gameState, city, 0, 1)!;
+  console.log('Mined hills gives 3 extra shields:', minedHills.production === 4);
+  const road = CityEconomy.getTileYieldsAt(gameState, city, 1, 0)!;
+  console.log('Road on grassland gives 1 trade:', road.trade === 1);
+  const fish = CityEconomy.getTileYieldsAt(gameState, city, -1, 0)!;
+  console.log(`Ocean with fish: ${fish.food}/${fish.production}/${fish.trade}`);
+
+  console.log('\n--- City Yields ---');
+  const center = CityEconomy.getCityCenterYields(gameState, city);
+  console.log('City center minimum 2/1/1:', center.food >= 2 && center.production >= 1 && center.trade >= 1);
+  const totals = CityEconomy.calculateCityYields(gameState, city);
+  const expectedFood = center.food + shieldGrassland.food + minedHills.food + fish.food;
+  console.log(`City yields: ${totals.food} food, ${totals.production} shields, ${totals.trade} trade`);
+  console.log('City food is center plus worked tiles:', totals.food === expectedFood);
+
+  console.log('\n--- Government Modifiers ---');
+  const monarchyFish = fish.food;
+  gameState.players[0].government = GovernmentType.DESPOTISM;
+  const despotismFish = CityEconomy.getTileYieldsAt(gameState, city, -1, 0)!;
+  console.log('Despotism reduces yields above 2:', despotismFish.food === monarchyFish - 1);
+  gameState.players[0].government = GovernmentType.REPUBLIC;
+  const republicRoad = CityEconomy.getTileYieldsAt(gameState, city, 1, 0)!;
+  console.log('Republic adds trade where trade exists:', republicRoad.trade === 2);
+
+  console.log('\n--- Optimal Tiles ---');
+  city.workedTiles = [];
+  const optimal = CityEconomy.getOptimalWorkedTiles(gameState, city);
+  console.log('One tile per citizen:', optimal.length === city.population);
+  console.log('Never includes the city radius corners:', optimal.every(t => !(Math.abs(t.dx) === 2 && Math.abs(t.dy) === 2)));
+
+  console.log('\n--- Tax Rates ---');
+  const player = gameState.players[0];
+  player.government = GovernmentType.MONARCHY;
+  player.taxRate = 30;
+  player.luxuryRate = 0;
+  player.scienceRate = 70;
+  const split = CityEconomy.splitTrade(gameState, city, 10);
+  console.log('Trade split by rates 3/0/7:', split.tax === 3 && split.luxuries === 0 && split.science === 7);
+  city.buildings = [{ type: BuildingType.LIBRARY, completedTurn: 1 }, { type: BuildingType.MARKETPLACE, completedTurn: 1 }];
+  const boosted = CityEconomy.splitTrade(gameState, city, 10);
+  console.log(`With library and marketplace: ${boosted.tax} tax, ${boosted.science} science`);
+  console.log('Library adds 50% science:', boosted.science === 10);
+  city.buildings = [];
+  console.log('Monarchy rejects 80% science:', !CityEconomy.isValidTaxRates({ tax: 20, luxury: 0, science: 80 }, GovernmentType.MONARCHY));
+  console.log('Rates must add up to 100%:', !CityEconomy.isValidTaxRates({ tax: 30, luxury: 0, science: 60 }, GovernmentType.MONARCHY));
+  const clamped = CityEconomy.clampTaxRates({ tax: 10, luxury: 0, science: 90 }, GovernmentType.DESPOTISM);
+  console.log(`Despotism clamps 10/0/90 to ${clamped.tax}/${clamped.luxury}/${clamped.science}:`, clamped.science === 60 && clamped.tax === 40);
+  player.government = GovernmentType.ANARCHY;
+  const anarchy = CityEconomy.splitTrade(gameState, city, 10);
+  console.log('Anarchy turns all trade into luxuries:', anarchy.luxuries === 10 && anarchy.tax === 0 && anarchy.science === 0);
+
+  console.log('\n--- Building Upkeep ---');
+  player.government = GovernmentType.MONARCHY;
+  city.buildings = [{ type: BuildingType.TEMPLE, completedTurn: 1 }, { type: BuildingType.LIBRARY, completedTurn: 1 }];
+  console.log('Temple and library cost 2 gold:', CityEconomy.calculateBuildingUpkeep(city) === 2);
+  player.gold = -20;
+  new TurnManager().processTurn(gameState);
+  const sold = gameState.events?.filter(e => e.type === 'buildingSold') || [];
+  console.log(`Bankruptcy sold: ${sold.map(e => e.message).join(', ')}`);
+  console.log('A building is sold to cover debt:', sold.length > 0 && city.buildings.length < 2 && player.gold >= 0);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testCityEconomy();
@@ -0,0 +1,81 @@
+import { CombatSystem } from '../src/game/CombatSystem.js';
+import { createUnit } from '../src/game/Units.js';
+import { createSeededRandom } from '../src/utils/Random.js';
+import { BuildingType, ImprovementType, TerrainType, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test defensive modifiers, combat odds and round-based combat
+function testCombat() {
+  console.log('=== Testing Combat ===');
+
+  const worldMap = makeMap(10, 6);
+  worldMap[1][1].terrain = TerrainType.HILLS;
+  worldMap[1][3].terrain = TerrainType.MOUNTAINS;
+  worldMap[1][5].terrain = TerrainType.RIVER;
+  worldMap[1][7].improvements = [{ type: ImprovementType.FORTRESS, completedTurn: 1 }];
+
+  const city = makeCity('Babylon', 'player-1', { x: 4, y: 4 }, 3);
+  const gameState = makeGameState([makePlayer('player-0'), makePlayer('player-1')], worldMap, { cities: [city] });
+
+  const combat = new CombatSystem();
+  const legion = createUnit('legion', UnitType.LEGION, { x: 0, y: 0 }, 'player-0');
+  const catapult = createUnit('catapult', UnitType.CATAPULT, { x: 0, y: 0 }, 'player-0');
+  const defenseAt = (x: number, y: number, attacker = legion) => {
+    const phalanx = createUnit(`phalanx-${x}-${y}`, UnitType.PHALANX, { x, y }, 'player-1');
+    return combat.getEffectiveDefenseStrength(phalanx, attacker, combat.getDefenseContext(gameState, phalanx));
+  };
+
+  console.log('\n--- Terrain ---');
+  console.log('Grassland has no bonus:', defenseAt(0, 1) === 2);
+  console.log('Hills +50%:', defenseAt(1, 1) === 3);
+  console.log('Mountains +100%:', defenseAt(3, 1) === 4);
+  console.log('River +25%:', defenseAt(5, 1) === 2.5);
+  console.log('Fortress doubles defense:', defenseAt(7, 1) === 4);
+
+  console.log('\n--- Cities ---');
+  console.log('Units in a city count as fortified:', defenseAt(4, 4) === 3);
+  city.buildings = [{ type: BuildingType.CITY_WALLS, completedTurn: 1 }];
+  console.log('City walls triple defense:', defenseAt(4, 4) === 9);
+  console.log('Catapults ignore city walls:', defenseAt(4, 4, catapult) === 3);
+
+  console.log('\n--- Odds ---');
+  const defender = createUnit('defender', UnitType.PHALANX, { x: 1, y: 1 }, 'player-1');
+  const odds = combat.getCombatOdds(legion, defender, combat.getDefenseContext(gameState, defender));
+  console.log(`Legion vs Phalanx on hills: ${odds.attackStrength} / ${odds.defenseStrength}, ${Math.round(odds.attackerWinChance * 100)}%`);
+  console.log('Odds from effective strengths:', odds.attackStrength === 3 && odds.defenseStrength === 3 && Math.abs(odds.attackerWinChance - 0.5) < 1e-9);
+  const walled = createUnit('walled', UnitType.PHALANX, { x: 4, y: 4 }, 'player-1');
+  const walledOdds = combat.getCombatOdds(legion, walled, combat.getDefenseContext(gameState, walled));
+  console.log(`Legion vs Phalanx behind walls: ${Math.round(walledOdds.roundWinChance * 100)}% per round, ${(walledOdds.attackerWinChance * 100).toFixed(1)}% overall`);
+  console.log('Multi-round combat favours the stronger side more than one round does:',
+    walledOdds.attackerWinChance < walledOdds.roundWinChance && walledOdds.attackerWinChance < 0.05);
+
+  console.log('\n--- Rounds ---');
+  console.log('Firepower by era:', combat.getFirepower(UnitType.LEGION) === 1 && combat.getFirepower(UnitType.MUSKETEERS) === 2 && combat.getFirepower(UnitType.ARMOR) === 3);
+  const fight = (seed: number) => {
+    const attacker = createUnit('a', UnitType.LEGION, { x: 0, y: 0 }, 'player-0');
+    const target = createUnit('d', UnitType.PHALANX, { x: 1, y: 1 }, 'player-1');
+    return new CombatSystem(createSeededRandom(seed)).resolveCombat(attacker, target, combat.getDefenseContext(gameState, target));
+  };
+  const first = fight(42);
+  const second = fight(42);
+  console.log(`Seed 42: ${first.rounds} rounds, attacker ${first.attackerSurvived ? 'wins' : 'loses'}`);
+  console.log('Same seed gives the same result:',
+    first.rounds === second.rounds && first.attackerDamage === second.attackerDamage && first.defenderDamage === second.defenderDamage);
+  console.log('Fought until one unit is destroyed:', first.attackerSurvived !== first.defenderSurvived && first.rounds >= 10);
+  console.log('Damage in steps of 10 hit points:', first.attackerDamage % 10 === 0 && first.defenderDamage % 10 === 0);
+  let wins = 0;
+  for (let seed = 1; seed <= 500; seed++) {
+    if (fight(seed).attackerSurvived) wins++;
+  }
+  console.log(`Attacker won ${wins} of 500 even fights:`, wins > 200 && wins < 300);
+
+  console.log('\n--- Stack Kills ---');
+  console.log('Stack destroyed in the open:', combat.destroysStack(combat.getDefenseContext(gameState, defender)));
+  const inFortress = createUnit('fortress', UnitType.PHALANX, { x: 7, y: 1 }, 'player-1');
+  console.log('Stack safe in a fortress:', !combat.destroysStack(combat.getDefenseContext(gameState, inFortress)));
+  console.log('Stack safe in a city:', !combat.destroysStack(combat.getDefenseContext(gameState, walled)));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testCombat();
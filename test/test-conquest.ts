@@ -0,0 +1,73 @@
+import { CombatSystem } from '../src/game/CombatSystem.js';
+import { ConquestSystem } from '../src/game/ConquestSystem.js';
+import { TurnManager } from '../src/game/TurnManager.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { CivilizationType } from '../src/game/CivilizationDefinitions.js';
+import { BuildingType, GamePhase, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test city capture, destruction and civilization elimination
+function testConquest() {
+  console.log('=== Testing Conquest ===');
+
+  const babylon = makeCity('Babylon', 'player-1', { x: 10, y: 3 }, 4);
+  babylon.buildings = [{ type: BuildingType.PALACE, completedTurn: 1 }, { type: BuildingType.TEMPLE, completedTurn: 1 }];
+  const ur = makeCity('Ur', 'player-1', { x: 15, y: 3 }, 1);
+  const gameState = makeGameState([
+    makePlayer('player-0'),
+    makePlayer('player-1', { civilizationType: CivilizationType.BABYLONIAN, technologies: [TechnologyType.BRONZE_WORKING] }),
+    makePlayer('player-2', { civilizationType: CivilizationType.ENGLISH })
+  ], makeMap(20, 8), { turn: 20, cities: [babylon, ur] });
+  const [romans, babylonians] = gameState.players;
+  babylonians.gold = 100;
+
+  console.log('\n--- Capture Rules ---');
+  const legion = createUnit('legion', UnitType.LEGION, { x: 9, y: 3 }, 'player-0');
+  const settlers = createUnit('settlers', UnitType.SETTLERS, { x: 9, y: 3 }, 'player-0');
+  const defender = createUnit('phalanx', UnitType.PHALANX, { x: 10, y: 3 }, 'player-1');
+  gameState.units.push(legion, settlers, defender);
+  console.log('Defended city cannot be captured:', !ConquestSystem.canCaptureCity(gameState, legion, babylon));
+  gameState.units = gameState.units.filter(u => u !== defender);
+  console.log('Undefended city can be captured:', ConquestSystem.canCaptureCity(gameState, legion, babylon));
+  console.log('Settlers cannot capture:', !ConquestSystem.canCaptureCity(gameState, settlers, babylon));
+
+  console.log('\n--- Capture ---');
+  const supported = createUnit('archer', UnitType.ARCHER, { x: 2, y: 2 }, 'player-1');
+  supported.homeCityId = babylon.id;
+  gameState.units.push(supported);
+  const captured = ConquestSystem.captureCity(gameState, babylon, legion, () => 0.9);
+  console.log(`Plunder ${captured.plunder} gold, stole ${captured.technology}`);
+  console.log('Ownership transferred:', babylon.playerId === 'player-0' && !captured.destroyed);
+  console.log('City loses a citizen:', babylon.population === 3);
+  console.log('Palace destroyed, temple survives:',
+    captured.buildingsDestroyed.includes(BuildingType.PALACE) && babylon.buildings.some(b => b.type === BuildingType.TEMPLE));
+  console.log('Plunder is the city share of the treasury:', captured.plunder === 80 && romans.gold === 80 && babylonians.gold === 20);
+  console.log('Technology captured:', romans.technologies.includes(TechnologyType.BRONZE_WORKING));
+  console.log('Units supported by the city are lost:', !gameState.units.includes(supported));
+  console.log('Capture event raised:', gameState.events?.some(e => e.type === 'cityCaptured' && e.targetPlayerId === 'player-1'));
+
+  console.log('\n--- Destruction and Elimination ---');
+  const destroyed = ConquestSystem.captureCity(gameState, ur, legion, () => 0.9);
+  console.log('Size 1 city is destroyed:', destroyed.destroyed && !gameState.cities.includes(ur));
+  console.log('Player without cities or settlers is eliminated:', destroyed.eliminatedPlayerId === 'player-1' && !!babylonians.eliminated);
+  console.log('Game continues while rivals remain:', gameState.gamePhase === GamePhase.PLAYING);
+
+  const turnManager = new TurnManager();
+  turnManager.processTurn(gameState);
+  console.log('Eliminated player skipped in turn order:', gameState.currentPlayer === 'player-2');
+  turnManager.processTurn(gameState);
+  console.log('Turn advances after the last player:', gameState.currentPlayer === 'player-0' && gameState.turn === 21);
+
+  console.log('\n--- Reach ---');
+  const combat = new CombatSystem();
+  const edgeLegion = createUnit('edge-legion', UnitType.LEGION, { x: 0, y: 5 }, 'player-0');
+  const acrossEdge = createUnit('edge-phalanx', UnitType.PHALANX, { x: 19, y: 5 }, 'player-2');
+  const distant = createUnit('distant-phalanx', UnitType.PHALANX, { x: 2, y: 5 }, 'player-2');
+  console.log('Attack reaches across the edge of the map:', combat.canAttack(gameState, edgeLegion, acrossEdge));
+  console.log('Attack does not reach two tiles away:', !combat.canAttack(gameState, edgeLegion, distant));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testConquest();
@@ -0,0 +1,125 @@
+import { DiplomacySystem } from '../src/game/DiplomacySystem.js';
+import { Game } from '../src/game/Game.js';
+import { GameSerializer } from '../src/game/GameSerializer.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { BuildingType, DiplomatAction, DiplomaticState, GovernmentType, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test treaties, parley trades, tribute and the senate
+function testDiplomacy() {
+  console.log('=== Testing Diplomacy ===');
+
+  const gameState = makeGameState([
+    makePlayer('player-0', { technologies: [TechnologyType.ALPHABET] }),
+    makePlayer('player-1', { technologies: [TechnologyType.BRONZE_WORKING] }),
+    makePlayer('player-2')
+  ], makeMap(16, 8), { turn: 10 });
+  const [romans, babylonians, greeks] = gameState.players;
+  const addUnits = (playerId: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      gameState.units.push(createUnit(`${playerId}-${gameState.units.length}`, UnitType.LEGION, { x: i, y: 1 }, playerId));
+    }
+  };
+  addUnits('player-0', 2);
+  addUnits('player-1', 2);
+
+  console.log('\n--- Treaties ---');
+  console.log('Everyone starts at war:', DiplomacySystem.isAtWar(gameState, 'player-0', 'player-1'));
+  console.log('Peace needs a ceasefire first:',
+    !!DiplomacySystem.validateProposal(gameState, { fromPlayerId: 'player-0', toPlayerId: 'player-1', treaty: DiplomaticState.PEACE }));
+  const ceasefire = DiplomacySystem.negotiate(gameState, { fromPlayerId: 'player-0', toPlayerId: 'player-1', treaty: DiplomaticState.CEASEFIRE });
+  const relation = DiplomacySystem.getRelation(gameState, 'player-1', 'player-0');
+  console.log('Evenly matched rivals agree to a ceasefire:', ceasefire.accepted && relation.state === DiplomaticState.CEASEFIRE);
+  console.log('Ceasefire lasts sixteen turns:', relation.expiresTurn === 26);
+  gameState.turn = 26;
+  DiplomacySystem.processTurn(gameState);
+  console.log('Expired ceasefire means war again:', DiplomacySystem.isAtWar(gameState, 'player-0', 'player-1'));
+  gameState.turn = 30;
+
+  console.log('\n--- Trading ---');
+  romans.gold = 100;
+  const swap = {
+    fromPlayerId: 'player-0', toPlayerId: 'player-1',
+    offerTechnologies: [TechnologyType.ALPHABET], requestTechnologies: [TechnologyType.BRONZE_WORKING]
+  };
+  // Alphabet costs 6 science, Bronze Working 8
+  console.log('Uneven swap refused:', !DiplomacySystem.negotiate(gameState, swap).accepted);
+  const trade = DiplomacySystem.negotiate(gameState, { ...swap, offerGold: 2 });
+  console.log('Swap evened out with gold accepted:', trade.accepted && romans.gold === 98 &&
+    romans.technologies.includes(TechnologyType.BRONZE_WORKING) && babylonians.technologies.includes(TechnologyType.ALPHABET));
+  const greedy = DiplomacySystem.negotiate(gameState, { fromPlayerId: 'player-2', toPlayerId: 'player-1', requestGold: 10 });
+  console.log('Tribute refused by an equal or stronger power:', !greedy.accepted);
+  console.log('Cannot offer gold we do not have:',
+    !!DiplomacySystem.validateProposal(gameState, { fromPlayerId: 'player-0', toPlayerId: 'player-1', offerGold: 500 }));
+
+  console.log('\n--- Tribute ---');
+  addUnits('player-2', 4);
+  babylonians.gold = 80;
+  const tribute = DiplomacySystem.negotiate(gameState, { fromPlayerId: 'player-2', toPlayerId: 'player-1', requestGold: 40 });
+  console.log('Weaker civilization pays tribute:', tribute.accepted && babylonians.gold === 40 && greeks.gold === 40);
+  console.log('Stronger civilization refuses a free ceasefire:',
+    !DiplomacySystem.evaluateProposal(gameState, { fromPlayerId: 'player-1', toPlayerId: 'player-2', treaty: DiplomaticState.CEASEFIRE }));
+
+  console.log('\n--- Senate ---');
+  greeks.government = GovernmentType.REPUBLIC;
+  console.log('Senate forces a ceasefire:',
+    DiplomacySystem.negotiate(gameState, { fromPlayerId: 'player-1', toPlayerId: 'player-2', treaty: DiplomaticState.CEASEFIRE }).accepted);
+  console.log('Senate blocks a sneak attack:', !!DiplomacySystem.getAttackBlocker(gameState, 'player-2', 'player-1') &&
+    !DiplomacySystem.declareWar(gameState, 'player-2', 'player-1'));
+  console.log('Despots may break a treaty:', DiplomacySystem.declareWar(gameState, 'player-1', 'player-2') &&
+    DiplomacySystem.isAtWar(gameState, 'player-1', 'player-2'));
+  console.log('Events reported:', gameState.events?.filter(e => e.type === 'diplomaticAction').length === 6);
+
+  console.log('\n--- Attacks ---');
+  const battle = new Game({ headless: true });
+  battle.loadGame(GameSerializer.serialize({
+    ...gameState,
+    players: [makePlayer('player-0'), makePlayer('player-1'), makePlayer('player-2')],
+    units: [
+      createUnit('settlers', UnitType.SETTLERS, { x: 5, y: 5 }, 'player-0'),
+      createUnit('legion', UnitType.LEGION, { x: 5, y: 4 }, 'player-0'),
+      createUnit('babylonian', UnitType.PHALANX, { x: 6, y: 5 }, 'player-1'),
+      createUnit('greek', UnitType.WARRIOR, { x: 6, y: 5 }, 'player-2')
+    ],
+    diplomacy: { 'player-0|player-1': { state: DiplomaticState.PEACE, sinceTurn: 20 } },
+    events: []
+  }));
+  const atPeace = () => DiplomacySystem.getRelation(battle.getGameState(), 'player-0', 'player-1').state === DiplomaticState.PEACE;
+  console.log('Settlers bumping into a neighbour keep the peace:', !battle.moveUnit('settlers', { x: 6, y: 5 }) && atPeace());
+  console.log('Only the enemy on a shared tile defends:', battle.getAttackOdds('legion', { x: 6, y: 5 })?.defender.id === 'greek');
+  battle.moveUnit('legion', { x: 6, y: 5 });
+  console.log('Attacking the enemy keeps the peace with the other civilization:', atPeace() &&
+    battle.getGameState().units.some(u => u.id === 'babylonian'));
+
+  console.log('\n--- Diplomat Missions ---');
+  const loadMission = (government: GovernmentType) => {
+    const mission = new Game({ headless: true });
+    const babylon = makeCity('Babylon', 'player-1', { x: 6, y: 5 }, 3);
+    babylon.buildings = [{ type: BuildingType.BARRACKS, completedTurn: 1 }];
+    mission.loadGame(GameSerializer.serialize({
+      ...gameState,
+      players: [makePlayer('player-0', { government }), makePlayer('player-1')],
+      units: [createUnit('diplomat', UnitType.DIPLOMAT, { x: 5, y: 5 }, 'player-0')],
+      cities: [babylon],
+      diplomacy: { 'player-0|player-1': { state: DiplomaticState.PEACE, sinceTurn: 20 } },
+      events: []
+    }));
+    return mission;
+  };
+  const senate = loadMission(GovernmentType.REPUBLIC);
+  console.log('Senate forbids sabotage against a civilization at peace:',
+    senate.performDiplomatAction('diplomat', { x: 6, y: 5 }, DiplomatAction.SABOTAGE) === null &&
+    senate.getGameState().cities[0].buildings.length === 1 &&
+    DiplomacySystem.getRelation(senate.getGameState(), 'player-0', 'player-1').state === DiplomaticState.PEACE);
+  const despot = loadMission(GovernmentType.DESPOTISM);
+  console.log('Sabotage breaks the peace:',
+    !!despot.performDiplomatAction('diplomat', { x: 6, y: 5 }, DiplomatAction.SABOTAGE)?.success &&
+    DiplomacySystem.isAtWar(despot.getGameState(), 'player-0', 'player-1'));
+  console.log('An embassy keeps the peace:',
+    !!loadMission(GovernmentType.REPUBLIC).performDiplomatAction('diplomat', { x: 6, y: 5 }, DiplomatAction.ESTABLISH_EMBASSY)?.success);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testDiplomacy();
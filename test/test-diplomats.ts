@@ -0,0 +1,83 @@
+import { DiplomatSystem } from '../src/game/DiplomatSystem.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { BuildingType, DiplomatAction, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test diplomat missions and their costs
+function testDiplomats() {
+  console.log('=== Testing Diplomats ===');
+
+  const babylon = makeCity('Babylon', 'player-1', { x: 10, y: 3 }, 6);
+  babylon.buildings = [{ type: BuildingType.PALACE, completedTurn: 1 }];
+  const ur = makeCity('Ur', 'player-1', { x: 17, y: 3 }, 4);
+  ur.buildings = [{ type: BuildingType.TEMPLE, completedTurn: 1 }];
+  const gameState = makeGameState([
+    makePlayer('player-0'),
+    makePlayer('player-1', { technologies: [TechnologyType.BRONZE_WORKING, TechnologyType.ALPHABET] })
+  ], makeMap(30, 8), { turn: 20, cities: [babylon, ur] });
+  const [romans, babylonians] = gameState.players;
+  babylonians.gold = 200;
+
+  const newDiplomat = (id: string) => {
+    const diplomat = createUnit(id, UnitType.DIPLOMAT, { x: 16, y: 3 }, 'player-0');
+    gameState.units.push(diplomat);
+    return diplomat;
+  };
+
+  console.log('\n--- Costs ---');
+  // (200 + 1000) / (7 + 3) * 4
+  console.log('Incite cost from treasury, distance to capital and size:', DiplomatSystem.getIncitementCost(gameState, ur) === 480);
+  ur.inDisorder = true;
+  console.log('Halved in civil disorder:', DiplomatSystem.getIncitementCost(gameState, ur) === 240);
+  ur.inDisorder = false;
+  const options = DiplomatSystem.getCityActions(gameState, newDiplomat('probe'), babylon);
+  console.log('Capital cannot be incited:', options.some(o => o.action === DiplomatAction.INCITE_REVOLT && !o.available));
+  gameState.units = [];
+
+  console.log('\n--- Embassy ---');
+  const envoy = newDiplomat('envoy');
+  const embassy = DiplomatSystem.performCityAction(gameState, envoy, ur, DiplomatAction.ESTABLISH_EMBASSY);
+  console.log('Embassy recorded:', embassy.success && !!romans.embassies?.includes('player-1'));
+  console.log('Diplomat used up:', !gameState.units.includes(envoy));
+  console.log('Second embassy unavailable:',
+    !DiplomatSystem.getCityActions(gameState, newDiplomat('envoy-2'), ur).find(o => o.action === DiplomatAction.ESTABLISH_EMBASSY)?.available);
+
+  console.log('\n--- Steal Technology ---');
+  const thief = newDiplomat('thief');
+  const theft = DiplomatSystem.performCityAction(gameState, thief, ur, DiplomatAction.STEAL_TECHNOLOGY, () => 0);
+  console.log(`Stole ${theft.technology}:`, theft.success && romans.technologies.includes(TechnologyType.BRONZE_WORKING));
+  const again = DiplomatSystem.performCityAction(gameState, newDiplomat('thief-2'), ur, DiplomatAction.STEAL_TECHNOLOGY);
+  console.log('Only once per city:', !again.success && romans.technologies.length === 1);
+
+  console.log('\n--- Sabotage ---');
+  ur.production_points = 0;
+  const sabotage = DiplomatSystem.performCityAction(gameState, newDiplomat('saboteur'), ur, DiplomatAction.SABOTAGE, () => 0);
+  console.log('Building destroyed:', sabotage.buildingDestroyed === BuildingType.TEMPLE && ur.buildings.length === 0);
+  ur.production_points = 25;
+  const strike = DiplomatSystem.performCityAction(gameState, newDiplomat('striker'), ur, DiplomatAction.SABOTAGE, () => 0);
+  console.log('Production destroyed:', strike.productionDestroyed === 25 && ur.production_points === 0);
+
+  console.log('\n--- Incite Revolt ---');
+  const garrison = createUnit('garrison', UnitType.PHALANX, { x: 17, y: 3 }, 'player-1');
+  gameState.units.push(garrison);
+  const poor = DiplomatSystem.performCityAction(gameState, newDiplomat('agitator'), ur, DiplomatAction.INCITE_REVOLT);
+  console.log('Needs enough gold:', !poor.success && ur.playerId === 'player-1');
+  romans.gold = 1000;
+  const cost = DiplomatSystem.getIncitementCost(gameState, ur);
+  const revolt = DiplomatSystem.performCityAction(gameState, newDiplomat('agitator-2'), ur, DiplomatAction.INCITE_REVOLT);
+  console.log('City joins the diplomat\'s owner:', revolt.success && ur.playerId === 'player-0' && romans.gold === 1000 - cost);
+  console.log('Units in the city join too:', garrison.playerId === 'player-0');
+
+  console.log('\n--- Bribe ---');
+  const scout = createUnit('scout', UnitType.CHARIOT, { x: 20, y: 5 }, 'player-1');
+  gameState.units.push(scout);
+  const briber = newDiplomat('briber');
+  const bribeCost = DiplomatSystem.getBribeCost(gameState, scout);
+  const bribe = DiplomatSystem.bribeUnit(gameState, briber, scout);
+  console.log(`Bribed for ${bribeCost} gold:`, bribe.success && scout.playerId === 'player-0' && bribe.goldSpent === bribeCost);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testDiplomats();
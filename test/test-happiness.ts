@@ -0,0 +1,69 @@
+import { HappinessSystem } from '../src/game/HappinessSystem.js';
+import { createUnit } from '../src/game/Units.js';
+import { BuildingType, DifficultyLevel, GovernmentType, ImprovementType, UnitType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test citizen happiness and civil disorder
+function testHappiness() {
+  console.log('=== Testing Happiness ===');
+
+  const worldMap = makeMap(10, 10);
+
+  const city = makeCity('Roma', 'player-0', { x: 3, y: 3 }, 6);
+  const gameState = makeGameState([
+    makePlayer('player-0', { government: GovernmentType.MONARCHY, taxRate: 40, luxuryRate: 0, scienceRate: 60 })
+  ], worldMap, { cities: [city], difficulty: DifficultyLevel.PRINCE });
+
+  console.log('\n--- Base Content ---');
+  let happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log(`Size 6 on Prince: ${happiness.happy}/${happiness.content}/${happiness.unhappy}`);
+  console.log('Four content, two unhappy:', happiness.content === 4 && happiness.unhappy === 2);
+  console.log('Unhappy outnumber happy, so disorder:', happiness.inDisorder);
+
+  gameState.difficulty = DifficultyLevel.CHIEFTAIN;
+  console.log('Chieftain keeps six content:', HappinessSystem.calculateHappiness(gameState, city).unhappy === 0);
+  gameState.difficulty = DifficultyLevel.PRINCE;
+
+  console.log('\n--- Buildings ---');
+  city.buildings = [{ type: BuildingType.TEMPLE, completedTurn: 1 }];
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log('Temple makes one unhappy citizen content:', happiness.unhappy === 1);
+  city.buildings.push({ type: BuildingType.COLOSSEUM, completedTurn: 1 });
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log('Colosseum clears the rest:', happiness.unhappy === 0 && !happiness.inDisorder);
+  city.buildings = [];
+
+  console.log('\n--- Martial Law ---');
+  gameState.units.push(createUnit('unit-1', UnitType.MILITIA, { x: 3, y: 3 }, 'player-0'));
+  gameState.units.push(createUnit('unit-2', UnitType.SETTLERS, { x: 3, y: 3 }, 'player-0'));
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log('Only military units impose martial law:', happiness.unhappy === 1);
+  gameState.players[0].government = GovernmentType.REPUBLIC;
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log('No martial law under Republic:', happiness.unhappy === 2);
+
+  console.log('\n--- Military Abroad ---');
+  gameState.units = [createUnit('unit-3', UnitType.LEGION, { x: 8, y: 8 }, 'player-0')];
+  gameState.units[0].homeCityId = city.id;
+  city.population = 3;
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log(`Republic with a legion abroad: ${happiness.happy}/${happiness.content}/${happiness.unhappy}`);
+  console.log('Unit abroad makes one citizen unhappy:', happiness.unhappy === 1);
+  gameState.units[0].position = { x: 4, y: 4 };
+  console.log('Unit near home causes no unhappiness:', HappinessSystem.calculateHappiness(gameState, city).unhappy === 0);
+
+  console.log('\n--- Luxuries ---');
+  city.population = 6;
+  gameState.units = [];
+  gameState.players[0].taxRate = 0;
+  gameState.players[0].luxuryRate = 80;
+  gameState.players[0].scienceRate = 20;
+  worldMap.forEach(row => row.forEach(tile => { tile.improvements = [{ type: ImprovementType.ROAD, completedTurn: 1 }]; }));
+  happiness = HappinessSystem.calculateHappiness(gameState, city);
+  console.log(`Size 6 at 80% luxuries: ${happiness.happy}/${happiness.content}/${happiness.unhappy}`);
+  console.log('Luxuries make citizens happy:', happiness.happy > 0);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testHappiness();
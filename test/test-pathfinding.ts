@@ -0,0 +1,79 @@
+import { PathFinder } from '../src/game/PathFinder.js';
+import { createUnit } from '../src/game/Units.js';
+import { ImprovementType, TerrainType, UnitType } from '../src/types/game.js';
+import { makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test A* pathfinding over the wrapped map
+function testPathfinding() {
+  console.log('=== Testing Pathfinding ===');
+
+  // 20x8 grassland with an ocean strip down column 10
+  const worldMap = makeMap(20, 8, x => x === 10 ? TerrainType.OCEAN : TerrainType.GRASSLAND);
+  const player = makePlayer('player-0');
+  const gameState = makeGameState([player], worldMap);
+
+  const warrior = createUnit('unit-1', UnitType.WARRIOR, { x: 8, y: 3 }, 'player-0');
+  gameState.units.push(warrior);
+
+  console.log('\n--- Land Paths ---');
+  const east = PathFinder.findPath(gameState, warrior, { x: 9, y: 3 });
+  console.log('Adjacent target is one step:', east?.length === 1);
+  const acrossWater = PathFinder.findPath(gameState, warrior, { x: 12, y: 3 });
+  console.log(`Crossing the ocean strip wraps around the map: ${acrossWater?.length} steps`);
+  console.log('Path never enters the ocean:', !!acrossWater && acrossWater.every(step => step.x !== 10));
+  console.log('Path wraps west across the map edge:', !!acrossWater && acrossWater.some(step => step.x === 0));
+  console.log('Ocean target is unreachable for land units:', PathFinder.findPath(gameState, warrior, { x: 10, y: 3 }) === null);
+
+  console.log('\n--- Diagonal Distance ---');
+  console.log('Wrapped distance from x=1 to x=18 is 3:', PathFinder.getDistance(gameState, { x: 1, y: 0 }, { x: 18, y: 0 }) === 3);
+  console.log('Diagonal step counts as one:', PathFinder.getDistance(gameState, { x: 1, y: 1 }, { x: 2, y: 2 }) === 1);
+
+  console.log('\n--- Roads ---');
+  for (let x = 2; x <= 8; x++) {
+    worldMap[5][x].improvements = [{ type: ImprovementType.ROAD, completedTurn: 1 }];
+  }
+  const roadCost = PathFinder.getStepCost(gameState, warrior, { x: 2, y: 5 }, { x: 3, y: 5 });
+  console.log('Road step costs 1/3:', Math.abs(roadCost - 1 / 3) < 0.0001);
+  warrior.position = { x: 2, y: 4 };
+  const roadPath = PathFinder.findPath(gameState, warrior, { x: 8, y: 4 });
+  console.log('Path prefers the road:', !!roadPath && roadPath.filter(step => step.y === 5).length >= 5);
+
+  console.log('\n--- Enemy Units ---');
+  warrior.position = { x: 2, y: 0 };
+  const enemy = createUnit('unit-2', UnitType.WARRIOR, { x: 4, y: 0 }, 'player-1');
+  gameState.units.push(enemy);
+  const around = PathFinder.findPath(gameState, warrior, { x: 6, y: 0 });
+  console.log('Path goes around the enemy:', !!around && around.every(step => !(step.x === 4 && step.y === 0)));
+  console.log('Enemy tile is unreachable by default:', PathFinder.findPath(gameState, warrior, { x: 4, y: 0 }) === null);
+  console.log('Enemy tile reachable when attacking:', PathFinder.findPath(gameState, warrior, { x: 4, y: 0 }, { allowEnemyTarget: true })?.length === 2);
+
+  console.log('\n--- Zone of Control ---');
+  warrior.position = { x: 3, y: 0 };
+  console.log('Cannot move between tiles next to an enemy:', PathFinder.violatesZoneOfControl(gameState, warrior, { x: 3, y: 0 }, { x: 3, y: 1 }));
+  console.log('Can move away from an enemy:', !PathFinder.violatesZoneOfControl(gameState, warrior, { x: 3, y: 0 }, { x: 2, y: 1 }));
+  const friend = createUnit('unit-4', UnitType.PHALANX, { x: 3, y: 1 }, 'player-0');
+  gameState.units.push(friend);
+  console.log('Can move onto a friendly unit:', !PathFinder.violatesZoneOfControl(gameState, warrior, { x: 3, y: 0 }, { x: 3, y: 1 }));
+  gameState.units = gameState.units.filter(u => u !== friend);
+  const diplomat = createUnit('unit-5', UnitType.DIPLOMAT, { x: 3, y: 0 }, 'player-0');
+  console.log('Diplomats ignore zones of control:', !PathFinder.violatesZoneOfControl(gameState, diplomat, { x: 3, y: 0 }, { x: 3, y: 1 }));
+  const pastEnemy = PathFinder.findPath(gameState, warrior, { x: 5, y: 0 });
+  let from = warrior.position;
+  const legalPath = !!pastEnemy && pastEnemy.every(step => {
+    const legal = !PathFinder.violatesZoneOfControl(gameState, warrior, from, step);
+    from = step;
+    return legal;
+  });
+  console.log(`Path past the enemy steps out of its zone: ${pastEnemy?.length} steps`, legalPath && pastEnemy!.length > 2);
+
+  console.log('\n--- Naval Units ---');
+  const trireme = createUnit('unit-3', UnitType.TRIREME, { x: 10, y: 0 }, 'player-0');
+  gameState.units.push(trireme);
+  const seaPath = PathFinder.findPath(gameState, trireme, { x: 10, y: 7 });
+  console.log('Ship follows the ocean strip:', !!seaPath && seaPath.length === 7 && seaPath.every(step => step.x === 10));
+  console.log('Ship cannot sail onto land:', PathFinder.findPath(gameState, trireme, { x: 11, y: 3 }) === null);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testPathfinding();
@@ -55,4 +55,22 @@ const potteryTechs: TechnologyType[] = [TechnologyType.POTTERY];
 const duplicateOptions = ProductionManager.getAvailableProduction(potteryTechs, withGranary, 2);
 console.log('Available with Pottery + Granary already built:', duplicateOptions.map(opt => opt.name));
 
+// Test 6: Turns derived from stored shields and shield surplus
+console.log('\nTest 6: Turns to complete from shield surplus');
+console.log('30 shields at 3/turn:', ProductionManager.getTurnsToComplete(30, 0, 3), 'turns (expected 10)');
+console.log('30 shields with 25 stored at 3/turn:', ProductionManager.getTurnsToComplete(30, 25, 3), 'turns (expected 2)');
+console.log('Already paid for:', ProductionManager.getTurnsToComplete(30, 40, 3), 'turn (expected 1)');
+const bigCityOptions = ProductionManager.getAvailableProduction(startingTechs, noBuildings, 10);
+const villageOptions = ProductionManager.getAvailableProduction(startingTechs, noBuildings, 1);
+const settlersTurns = (options: typeof startingOptions) => options.find(opt => opt.id === 'settlers')?.turns;
+console.log(`Settlers: ${settlersTurns(bigCityOptions)} turns at 10 shields vs ${settlersTurns(villageOptions)} turns at 1 shield`);
+
+// Test 7: Buying production with gold
+console.log('\nTest 7: Buy costs');
+console.log('Granary (40) with 20 shields stored:', ProductionManager.getBuyCost('building', 40, 20), 'gold (expected 60)');
+console.log('Settlers (30) with 10 shields stored:', ProductionManager.getBuyCost('unit', 30, 10), 'gold (expected 120)');
+console.log('Settlers (30) with nothing stored:', ProductionManager.getBuyCost('unit', 30, 0), 'gold (expected 840)');
+console.log('Granary (40) with nothing stored:', ProductionManager.getBuyCost('building', 40, 0), 'gold (expected 640)');
+console.log('Already paid for:', ProductionManager.getBuyCost('building', 40, 40), 'gold (expected 0)');
+
 console.log('\n=== Test Complete ===');
@@ -0,0 +1,104 @@
+import { CivilizationType } from '../src/game/CivilizationDefinitions.js';
+import { GameSerializer, SAVE_FORMAT_VERSION } from '../src/game/GameSerializer.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit, NavalUnit } from '../src/game/Units.js';
+import { GamePhase, GovernmentType, ImprovementType, TerrainType, TerrainVariant, UnitType } from '../src/types/game.js';
+import type { GameState, Tile } from '../src/types/game.js';
+
+// Test that a game state survives a save/load round trip unchanged
+function testSaveLoadRoundTrip() {
+  console.log('=== Testing Save Game Serialization ===');
+
+  // Build a small mock world
+  const worldMap: Tile[][] = [];
+  for (let y = 0; y < 4; y++) {
+    worldMap[y] = [];
+    for (let x = 0; x < 6; x++) {
+      worldMap[y][x] = {
+        position: { x, y },
+        terrain: x === 0 ? TerrainType.OCEAN : TerrainType.GRASSLAND,
+        resources: [],
+        improvements: []
+      };
+    }
+  }
+  worldMap[1][2].terrainVariant = TerrainVariant.SHIELD;
+  worldMap[1][2].improvements = [{ type: ImprovementType.ROAD, completedTurn: 3 }];
+  worldMap[2][3].resources = ['wheat'];
+
+  const settlers = createUnit('unit-1', UnitType.SETTLERS, { x: 2, y: 1 }, 'player-0');
+  settlers.buildingRoad = true;
+  settlers.roadBuildingTurns = 1;
+  const warrior = createUnit('unit-2', UnitType.WARRIOR, { x: 3, y: 2 }, 'player-0');
+  warrior.fortified = true;
+  warrior.fortificationTurns = 2;
+  const trireme = createUnit('unit-3', UnitType.TRIREME, { x: 0, y: 1 }, 'player-1');
+
+  const gameState: GameState = {
+    turn: 12,
+    currentPlayer: 'player-0',
+    players: [
+      {
+        id: 'player-0', name: 'Player', civilizationType: CivilizationType.ROMANS, color: '#fff',
+        isHuman: true, science: 4, gold: 73, culture: 2, technologies: [TechnologyType.ALPHABET],
+        currentResearch: TechnologyType.WRITING, currentResearchProgress: 17,
+        government: GovernmentType.DESPOTISM, usedCityNames: ['Roma']
+      },
+      {
+        id: 'player-1', name: 'AI', civilizationType: CivilizationType.GREEKS, color: '#00f',
+        isHuman: false, science: 0, gold: 50, culture: 0, technologies: [],
+        currentResearchProgress: 0, government: GovernmentType.ANARCHY, revolutionTurns: 2,
+        usedCityNames: []
+      }
+    ],
+    worldMap,
+    units: [settlers, warrior, trireme],
+    cities: [{
+      id: 'city-1', name: 'Roma', position: { x: 3, y: 2 }, population: 3, playerId: 'player-0',
+      buildings: [{ type: 'barracks', completedTurn: 8 }],
+      production: { type: 'unit', item: UnitType.WARRIOR, turnsRemaining: 2 },
+      food: 0, foodStorage: 14, foodStorageCapacity: 40, production_points: 6, science: 0, culture: 0,
+      workedTiles: [{ dx: -1, dy: -1 }, { dx: 0, dy: -1 }]
+    }],
+    gamePhase: GamePhase.PLAYING,
+    score: 0
+  };
+
+  const json = GameSerializer.serialize(gameState, { selectedUnitId: 'unit-2' });
+  const { state, session } = GameSerializer.deserialize(json);
+
+  console.log(`Save format version: ${SAVE_FORMAT_VERSION}`);
+  console.log('Turn restored:', state.turn === 12);
+  console.log('Selected unit restored:', session.selectedUnitId === 'unit-2');
+  console.log('Tile variant restored:', state.worldMap[1][2].terrainVariant === TerrainVariant.SHIELD);
+  console.log('Tile road restored:', state.worldMap[1][2].improvements?.[0]?.type === ImprovementType.ROAD);
+  console.log('Tile resource restored:', state.worldMap[2][3].resources?.[0] === 'wheat');
+  console.log('Road building progress restored:', state.units[0].buildingRoad === true && state.units[0].roadBuildingTurns === 1);
+  console.log('Fortification restored:', state.units[1].fortified === true && state.units[1].fortificationTurns === 2);
+  console.log('Naval unit class restored:', state.units[2] instanceof NavalUnit);
+  console.log('Worked tiles restored:', JSON.stringify(state.cities[0].workedTiles) === JSON.stringify(gameState.cities[0].workedTiles));
+  console.log('Food storage restored:', state.cities[0].foodStorage === 14);
+  console.log('Research progress restored:', state.players[0].currentResearchProgress === 17);
+  const firstSave = JSON.parse(json).state;
+  const secondSave = JSON.parse(GameSerializer.serialize(state)).state;
+  console.log('Second round trip identical:', JSON.stringify(firstSave) === JSON.stringify(secondSave));
+
+  // Invalid documents are rejected
+  try {
+    GameSerializer.deserialize('{"format":"something-else","version":1}');
+    console.log('Rejects foreign documents: false');
+  } catch (error) {
+    console.log('Rejects foreign documents:', true);
+  }
+
+  try {
+    GameSerializer.deserialize(JSON.stringify({ format: 'civwinweb-save', version: SAVE_FORMAT_VERSION + 1 }));
+    console.log('Rejects newer versions: false');
+  } catch (error) {
+    console.log('Rejects newer versions:', true);
+  }
+
+  console.log('\n=== Test Complete ===');
+}
+
+testSaveLoadRoundTrip();
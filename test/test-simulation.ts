@@ -0,0 +1,42 @@
+import { Simulation } from '../src/game/Simulation.js';
+
+// Test headless AI-vs-AI games: reproducible from a seed, with stats for every player each turn
+async function testSimulation() {
+  console.log('=== Testing Simulation ===');
+
+  const random = Math.random;
+  const options = { players: 3, turns: 30, seed: 42, quiet: true };
+  const result = await Simulation.run(options);
+  const last = result.stats.filter(s => s.turn === result.turnsPlayed);
+
+  console.log('\n--- Game ---');
+  console.log('Plays every turn asked for:', result.turnsPlayed === 30);
+  console.log('One row per player per turn:', result.stats.length === 3 * 30 &&
+    result.stats.slice(0, 3).every(s => s.turn === 1));
+  console.log('Every civilization founds a city:', last.every(s => s.cities > 0 && s.population >= s.cities));
+  console.log('Research is discovered without a browser:', last.some(s => s.technologies > 0));
+  console.log('Citizens are scored:', last.every(s => s.score > 0));
+  console.log('Math.random is restored afterwards:', Math.random === random);
+
+  const log = console.log;
+  const getPlayerStats = Simulation.getPlayerStats;
+  Simulation.getPlayerStats = () => { throw new Error('No stats'); };
+  const failed = await Simulation.run({ ...options, turns: 1 }).then(() => false, () => true);
+  Simulation.getPlayerStats = getPlayerStats;
+  console.log('Math.random and the console are restored when a turn fails:', failed && Math.random === random && console.log === log);
+
+  console.log('\n--- Seed ---');
+  const replay = await Simulation.run(options);
+  console.log('Same seed plays out the same game:', Simulation.toJSON(replay) === Simulation.toJSON(result));
+
+  console.log('\n--- Output ---');
+  const csv = Simulation.toCSV(result).trim().split('\n');
+  console.log('CSV has a header and a line per row:', csv[0] === 'turn,playerId,civilization,cities,population,technologies,military,score' &&
+    csv.length === result.stats.length + 1);
+  console.log('CSV rows follow the columns:', csv[1] === Simulation.CSV_COLUMNS.map(c => result.stats[0][c]).join(','));
+  console.log('JSON round-trips:', JSON.stringify(JSON.parse(Simulation.toJSON(result))) === JSON.stringify(result));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testSimulation();
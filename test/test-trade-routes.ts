@@ -0,0 +1,87 @@
+import { TradeRouteSystem } from '../src/game/TradeRouteSystem.js';
+import { CityEconomy } from '../src/game/CityEconomy.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { CaravanAction, TerrainType, UnitType, WonderType } from '../src/types/game.js';
+import type { City } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test caravan trade routes and wonder help
+function testTradeRoutes() {
+  console.log('=== Testing Trade Routes ===');
+
+  // Two land masses split by an ocean column at x = 25
+  const worldMap = makeMap(40, 8, x => x === 25 || x === 39 ? TerrainType.OCEAN : TerrainType.GRASSLAND);
+
+  const rome = makeCity('Rome', 'player-0', { x: 2, y: 3 }, 4);
+  const antium = makeCity('Antium', 'player-0', { x: 6, y: 3 }, 4);
+  const veii = makeCity('Veii', 'player-0', { x: 14, y: 3 }, 2);
+  const babylon = makeCity('Babylon', 'player-1', { x: 20, y: 3 }, 8);
+  const ur = makeCity('Ur', 'player-1', { x: 30, y: 3 }, 4);
+  const gameState = makeGameState([makePlayer('player-0'), makePlayer('player-1')], worldMap, {
+    turn: 50, cities: [rome, antium, veii, babylon, ur]
+  });
+  const [romans] = gameState.players;
+
+  const newCaravan = (id: string, position: { x: number, y: number }) => {
+    const caravan = createUnit(id, UnitType.CARAVAN, position, 'player-0');
+    caravan.homeCityId = rome.id;
+    gameState.units.push(caravan);
+    return caravan;
+  };
+  const routeOption = (city: City) => TradeRouteSystem.getCaravanActions(gameState, newCaravan('probe', city.position), city)
+    .find(o => o.action === CaravanAction.ESTABLISH_TRADE_ROUTE);
+
+  console.log('\n--- Route Trade ---');
+  // (18 + 10) x (4 + 8) / 24
+  console.log('Foreign route trade from distance and sizes:', TradeRouteSystem.getRouteTrade(gameState, rome, babylon) === 14);
+  // (12 + 10) x (4 + 2) / 24 / 2
+  console.log('Halved within a civilization:', TradeRouteSystem.getRouteTrade(gameState, rome, veii) === 2);
+  // (12 + 10) x (4 + 4) / 24 x 2, twelve tiles west around the map edge
+  console.log('Doubled across continents:', TradeRouteSystem.getRouteTrade(gameState, rome, ur) === 14);
+
+  console.log('\n--- Establishing Routes ---');
+  console.log('Own city too close:', routeOption(antium)?.available === false);
+  console.log('Cannot trade with home city:', routeOption(rome)?.available === false);
+  gameState.units = [];
+
+  const before = CityEconomy.calculateCityYields(gameState, rome).trade;
+  romans.currentResearch = TechnologyType.ALPHABET;
+  const caravan = newCaravan('caravan-1', { x: 19, y: 3 });
+  const result = TradeRouteSystem.performCaravanAction(gameState, caravan, babylon, CaravanAction.ESTABLISH_TRADE_ROUTE);
+  console.log('Route recorded in both cities:', result.success && !!rome.tradeRoutes?.includes(babylon.id) && !!babylon.tradeRoutes?.includes(rome.id));
+  console.log('Caravan used up:', !gameState.units.includes(caravan));
+  // (18 + 10) x 12 / 8
+  console.log('Delivery bonus paid in gold and science:', result.deliveryBonus === 42 && romans.gold === 42 && romans.currentResearchProgress === 42);
+  console.log('Route adds to city trade:', CityEconomy.calculateCityYields(gameState, rome).trade === before + 14);
+  console.log('Event reported:', gameState.events?.some(e => e.type === 'tradeRouteEstablished') === true);
+  console.log('Same route not twice:', routeOption(babylon)?.available === false);
+  gameState.units = [];
+
+  romans.currentResearch = undefined;
+  TradeRouteSystem.performCaravanAction(gameState, newCaravan('caravan-2', veii.position), veii, CaravanAction.ESTABLISH_TRADE_ROUTE);
+  console.log('No science without research under way:', romans.currentResearchProgress === 42 && romans.gold > 42);
+  TradeRouteSystem.performCaravanAction(gameState, newCaravan('caravan-3', ur.position), ur, CaravanAction.ESTABLISH_TRADE_ROUTE);
+  console.log('At most three routes per city:', rome.tradeRoutes?.length === 3 && routeOption(antium)?.reason?.includes('no room') === true);
+  gameState.units = [];
+  const fromAntium = newCaravan('probe', ur.position);
+  fromAntium.homeCityId = antium.id;
+  ur.tradeRoutes = [rome.id, veii.id, babylon.id];
+  const fullPartner = TradeRouteSystem.getCaravanActions(gameState, fromAntium, ur).find(o => o.action === CaravanAction.ESTABLISH_TRADE_ROUTE);
+  console.log('Partner with no room refuses the route:', fullPartner?.reason === 'Ur has no room for more routes');
+  gameState.units = [];
+
+  console.log('\n--- Wonder Help ---');
+  console.log('Only while building a wonder:', TradeRouteSystem.getCaravanActions(gameState, newCaravan('probe', antium.position), antium)
+    .find(o => o.action === CaravanAction.HELP_WONDER)?.available === false);
+  antium.production = { type: 'wonder', item: WonderType.COLOSSUS, turnsRemaining: 0 };
+  antium.production_points = 30;
+  const helper = newCaravan('caravan-4', antium.position);
+  const help = TradeRouteSystem.performCaravanAction(gameState, helper, antium, CaravanAction.HELP_WONDER);
+  console.log('Shields added to the wonder:', help.success && help.shields === 50 && antium.production_points === 80);
+  console.log('Helper used up:', !gameState.units.includes(helper));
+
+  console.log('\n=== Test Complete ===');
+}
+
+testTradeRoutes();
@@ -0,0 +1,113 @@
+import { Game } from '../src/game/Game.js';
+import { GameSerializer } from '../src/game/GameSerializer.js';
+import { PathFinder } from '../src/game/PathFinder.js';
+import { TransportSystem } from '../src/game/TransportSystem.js';
+import { TurnManager } from '../src/game/TurnManager.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { createUnit } from '../src/game/Units.js';
+import { TerrainType, UnitType, WonderType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test boarding, carrying and unloading units on ships, and triremes lost at sea
+async function testTransport() {
+  console.log('=== Testing Transport ===');
+
+  // Land in columns 0-4, ocean beyond
+  const worldMap = makeMap(12, 6, x => x <= 4 ? TerrainType.GRASSLAND : TerrainType.OCEAN);
+  const gameState = makeGameState([makePlayer('player-0')], worldMap);
+
+  const trireme = createUnit('trireme', UnitType.TRIREME, { x: 5, y: 2 }, 'player-0');
+  const carrier = createUnit('carrier', UnitType.CARRIER, { x: 8, y: 2 }, 'player-0');
+  const legion = createUnit('legion', UnitType.LEGION, { x: 4, y: 2 }, 'player-0');
+  const settlers = createUnit('settlers', UnitType.SETTLERS, { x: 4, y: 2 }, 'player-0');
+  const phalanx = createUnit('phalanx', UnitType.PHALANX, { x: 4, y: 2 }, 'player-0');
+  const fighter = createUnit('fighter', UnitType.FIGHTER, { x: 8, y: 2 }, 'player-0');
+  gameState.units.push(trireme, carrier, legion, settlers, phalanx, fighter);
+
+  console.log('\n--- Capacity ---');
+  console.log('Trireme carries 2 land units:', TransportSystem.getCapacity(trireme, legion) === 2);
+  console.log('Trireme carries no aircraft:', TransportSystem.getCapacity(trireme, fighter) === 0);
+  console.log('Carrier carries aircraft only:', TransportSystem.getCapacity(carrier, fighter) === 8 && TransportSystem.getCapacity(carrier, legion) === 0);
+
+  console.log('\n--- Boarding ---');
+  console.log('Land unit may enter an ocean tile with a ship:', PathFinder.canUnitEnterTerrain(gameState, legion, trireme.position));
+  console.log('Boarding costs one move:', PathFinder.getStepCost(gameState, legion, legion.position, trireme.position) === 1);
+  TransportSystem.board(legion, TransportSystem.findTransport(gameState, legion, trireme.position)!);
+  TransportSystem.board(settlers, TransportSystem.findTransport(gameState, settlers, trireme.position)!);
+  console.log('Cargo listed aboard the ship:', TransportSystem.getCargo(gameState, trireme).length === 2 && legion.transportId === trireme.id);
+  console.log('Full ship takes no more units:',
+    !TransportSystem.findTransport(gameState, phalanx, trireme.position) && !PathFinder.canUnitEnterTerrain(gameState, phalanx, trireme.position));
+
+  console.log('\n--- Carrying ---');
+  trireme.position = { x: 6, y: 4 };
+  TransportSystem.moveCargo(gameState, trireme);
+  console.log('Cargo moves with its ship:', legion.position.x === 6 && legion.position.y === 4 && settlers.position.x === 6);
+  console.log('Cargo may step onto land but not open ocean:',
+    !PathFinder.canUnitEnterTerrain(gameState, legion, { x: 7, y: 4 }) && PathFinder.canUnitEnterTerrain(gameState, legion, { x: 4, y: 2 }));
+  TransportSystem.disembark(settlers);
+  settlers.position = { x: 4, y: 3 };
+  console.log('Disembarked unit leaves the cargo list:', TransportSystem.getCargo(gameState, trireme).length === 1);
+
+  console.log('\n--- Sinking ---');
+  const lost = TransportSystem.removeUnits(gameState, [trireme]);
+  console.log('Cargo goes down with the ship:', lost.length === 2 && !gameState.units.includes(legion) && gameState.units.includes(settlers));
+
+  console.log('\n--- Lost at Sea ---');
+  const coastal = createUnit('coastal', UnitType.TRIREME, { x: 5, y: 0 }, 'player-0');
+  const openSea = createUnit('open-sea', UnitType.TRIREME, { x: 9, y: 3 }, 'player-0');
+  const passenger = createUnit('passenger', UnitType.PHALANX, { x: 9, y: 3 }, 'player-0');
+  TransportSystem.board(passenger, openSea);
+  gameState.units.push(coastal, openSea, passenger);
+  console.log('Trireme next to land is safe:', !TurnManager.isAtRiskOfLossAtSea(gameState, coastal));
+  console.log('Trireme on open sea is at risk:', TurnManager.isAtRiskOfLossAtSea(gameState, openSea));
+  console.log('Other ships are never at risk:', !TurnManager.isAtRiskOfLossAtSea(gameState, carrier));
+
+  new TurnManager(() => 0.9).processTurn(gameState);
+  console.log('Survives a lucky roll:', gameState.units.includes(openSea));
+  gameState.currentPlayer = 'player-0';
+  new TurnManager(() => 0.1).processTurn(gameState);
+  console.log('Lost with its cargo on an unlucky roll:', !gameState.units.includes(openSea) && !gameState.units.includes(passenger) && gameState.units.includes(coastal));
+  console.log('Loss reported:', !!gameState.events?.some(e => e.type === 'unitDestroyed' && e.message?.includes('lost at sea')));
+
+  const player = gameState.players[0];
+  coastal.position = { x: 9, y: 3 };
+  player.technologies.push(TechnologyType.NAVIGATION);
+  console.log('Navigation makes triremes safe:', !TurnManager.isAtRiskOfLossAtSea(gameState, coastal));
+  player.technologies = [];
+  gameState.cities.push(makeCity('Roma', 'player-0', { x: 2, y: 2 }, 1));
+  gameState.wonders = { [WonderType.LIGHTHOUSE]: { cityId: 'Roma', playerId: 'player-0', turnBuilt: 1 } };
+  console.log('The Lighthouse makes triremes safe:', !TurnManager.isAtRiskOfLossAtSea(gameState, coastal));
+
+  const game = new Game({ headless: true });
+  game.loadGame(GameSerializer.serialize({
+    ...gameState,
+    currentPlayer: 'player-0',
+    cities: [],
+    wonders: {},
+    units: [
+      createUnit('adrift', UnitType.TRIREME, { x: 9, y: 3 }, 'player-0'),
+      { ...createUnit('coasting', UnitType.TRIREME, { x: 5, y: 1 }, 'player-0'), movementPoints: 1 }
+    ],
+    events: []
+  }));
+  const warnings: string[] = [];
+  const turnWarnings: string[][] = [];
+  game.on('unitAtRiskAtSea', (data: any) => warnings.push(data.unit.id));
+  game.on('endTurnAtRisk', (data: any) => turnWarnings.push(data.units.map((unit: any) => unit.id)));
+  const ship = (id: string) => game.getGameState().units.find(u => u.id === id)!;
+
+  console.log('Move that strands a trireme on the high seas only warns:',
+    !game.moveUnit('coasting', { x: 6, y: 1 }) && warnings.includes('coasting') && ship('coasting').position.x === 5);
+  console.log('Making the same move again goes ahead:', game.moveUnit('coasting', { x: 6, y: 1 }) && ship('coasting').position.x === 6);
+
+  const turn = game.getGameState().turn;
+  await game.endTurn();
+  console.log('Ending the turn with moves left on the high seas asks first:',
+    turnWarnings.length === 1 && turnWarnings[0].join() === 'adrift' && game.getGameState().turn === turn);
+  await game.endTurn(true);
+  console.log('Confirmed end of turn goes ahead:', game.getGameState().turn !== turn);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testTransport();
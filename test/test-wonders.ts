@@ -0,0 +1,65 @@
+import { TurnManager } from '../src/game/TurnManager.js';
+import { ProductionManager } from '../src/game/ProductionManager.js';
+import { HappinessSystem } from '../src/game/HappinessSystem.js';
+import { TechnologyType } from '../src/game/TechnologyDefinitions.js';
+import { getAvailableWonders, getPlayerWonderEffects, isWonderActive, isWonderObsolete } from '../src/game/WonderDefinitions.js';
+import { DifficultyLevel, GovernmentType, WonderType } from '../src/types/game.js';
+import { makeCity, makeGameState, makeMap, makePlayer } from './fixtures.js';
+
+// Test wonder availability, one-per-world completion and wonder effects
+function testWonders() {
+  console.log('=== Testing Wonders ===');
+
+  const rome = makeCity('Roma', 'player-0', { x: 3, y: 3 }, 6);
+  const babylon = makeCity('Babylon', 'player-1', { x: 12, y: 3 }, 6);
+  const monarchy = { government: GovernmentType.MONARCHY, taxRate: 40, luxuryRate: 0, scienceRate: 60 };
+  const gameState = makeGameState([
+    makePlayer('player-0', { ...monarchy, technologies: [TechnologyType.POTTERY, TechnologyType.MASONRY] }),
+    makePlayer('player-1', { ...monarchy, technologies: [TechnologyType.POTTERY] })
+  ], makeMap(20, 8), { turn: 10, cities: [rome, babylon], difficulty: DifficultyLevel.PRINCE });
+  const [romans, babylonians] = gameState.players;
+
+  console.log('\n--- Availability ---');
+  const available = getAvailableWonders(gameState, romans);
+  console.log(`Available with Pottery and Masonry: ${available.join(', ')}`);
+  console.log('Requires technology:', available.includes(WonderType.PYRAMIDS) && !getAvailableWonders(gameState, babylonians).includes(WonderType.PYRAMIDS));
+  const options = ProductionManager.getAvailableProduction(romans.technologies, [], 5, 0, available);
+  const wonderOptions = options.filter(o => o.type === 'wonder');
+  console.log('Wonders listed after units and buildings:', wonderOptions.length === available.length && options[options.length - 1].type === 'wonder');
+  console.log('Wonder cost:', ProductionManager.getProductionCost('wonder', WonderType.HANGING_GARDENS) === 300);
+
+  console.log('\n--- One Per World ---');
+  // Keep Roma out of civil disorder so production completes
+  rome.population = 4;
+  rome.production = { type: 'wonder', item: WonderType.HANGING_GARDENS, turnsRemaining: 1 };
+  rome.production_points = 300;
+  babylon.production = { type: 'wonder', item: WonderType.HANGING_GARDENS, turnsRemaining: 10 };
+  babylon.production_points = 120;
+  new TurnManager().processTurn(gameState);
+
+  console.log('Wonder recorded for the world:', gameState.wonders?.[WonderType.HANGING_GARDENS]?.cityId === rome.id);
+  console.log('Rival city stops building it:', babylon.production === null && babylon.production_points === 120);
+  const events = gameState.events || [];
+  console.log('Completion and lost-race events:',
+    events.some(e => e.type === 'wonderCompleted') && events.some(e => e.type === 'wonderUnavailable' && e.playerId === 'player-1'));
+  console.log('No longer available to anyone:', !getAvailableWonders(gameState, babylonians).includes(WonderType.HANGING_GARDENS));
+
+  console.log('\n--- Effects ---');
+  rome.population = 6;
+  const unhappyBefore = 2; // Prince: four content citizens, the rest unhappy
+  const unhappyAfter = HappinessSystem.calculateHappiness(gameState, rome).unhappy;
+  console.log(`Hanging Gardens: ${unhappyBefore} -> ${unhappyAfter} unhappy in Roma`);
+  console.log('Makes one citizen content:', unhappyAfter === unhappyBefore - 1);
+  console.log('Only for its owner:', !getPlayerWonderEffects(gameState, 'player-1').contentAllCities);
+
+  romans.technologies.push(TechnologyType.RAILROAD);
+  console.log('Obsolete once the owner knows Railroad:', isWonderObsolete(gameState, WonderType.HANGING_GARDENS) && !isWonderActive(gameState, WonderType.HANGING_GARDENS));
+  console.log('Obsolete wonder has no effect:', HappinessSystem.calculateHappiness(gameState, rome).unhappy === unhappyBefore);
+
+  gameState.cities = gameState.cities.filter(c => c !== rome);
+  console.log('Lost with its city:', !isWonderActive(gameState, WonderType.HANGING_GARDENS) && !!gameState.wonders?.[WonderType.HANGING_GARDENS]);
+
+  console.log('\n=== Test Complete ===');
+}
+
+testWonders();